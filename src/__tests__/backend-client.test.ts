@@ -0,0 +1,169 @@
+import { BackendClient, SyncOperation } from '../core/BackendClient.js';
+import { FitnessClass } from '../models/FitnessClass.js';
+import { makeClass } from '../testing/factories.js';
+
+// Classes the backend knows by their native ID
+function syncedClass(providerId: string, overrides: Partial<FitnessClass> = {}): FitnessClass {
+  return makeClass(providerId, { nativeId: providerId, ...overrides });
+}
+
+describe('BackendClient', () => {
+  const originalFetch = globalThis.fetch;
+  let requests: Array<{ url: string; headers: Record<string, string>; at: number }>;
+
+  // Each response is a status with optional headers, or 'timeout' to fail the request without a response
+  function mockResponses(responses: Array<{ status: number; headers?: Record<string, string> } | 'timeout'>): void {
+    let index = 0;
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+      requests.push({ url, headers: init.headers as Record<string, string>, at: Date.now() });
+      const next = responses[Math.min(index++, responses.length - 1)];
+      if (next === 'timeout') {
+        throw new Error('This operation was aborted');
+      }
+      return new Response(JSON.stringify(next.status < 400 ? { uploaded: 1 } : { error: 'nope' }), {
+        status: next.status,
+        headers: next.headers
+      });
+    }) as typeof fetch;
+  }
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it('should retry timeouts and retryable statuses with the same idempotency key', async () => {
+    mockResponses(['timeout', { status: 503 }, { status: 200 }]);
+    const client = new BackendClient({ baseUrl: 'http://backend.test', retryBaseDelayMs: 5 });
+
+    const result = await client.uploadClasses([syncedClass('a')]);
+
+    expect(result).toMatchObject({ success: true, uploaded: 1, failed: 0 });
+    expect(requests).toHaveLength(3);
+    const keys = requests.map(r => r.headers['Idempotency-Key']);
+    expect(keys[0]).toMatch(/^[0-9a-f]{64}$/);
+    expect(new Set(keys).size).toBe(1);
+  });
+
+  it('should give up on non-retryable statuses and after the last attempt', async () => {
+    mockResponses([{ status: 400 }]);
+    const client = new BackendClient({ baseUrl: 'http://backend.test', retryBaseDelayMs: 5, maxAttempts: 3 });
+
+    const rejected = await client.uploadClasses([syncedClass('a')]);
+    expect(rejected).toMatchObject({ success: false, failed: 1 });
+    expect(rejected.errors[0]).toContain('HTTP 400');
+    expect(requests).toHaveLength(1);
+
+    requests = [];
+    mockResponses([{ status: 502 }]);
+    const unavailable = await client.sendChangeset([{ op: 'delete', classKey: 'studio:id:a', reason: 'removed_from_schedule' }]);
+    expect(unavailable.errors[0]).toContain('HTTP 502: {"error":"nope"} (after 3 attempts)');
+    expect(requests).toHaveLength(3);
+  });
+
+  it('should wait for Retry-After, and stop when it asks for longer than the maximum delay', async () => {
+    mockResponses([{ status: 429, headers: { 'Retry-After': '1' } }, { status: 200 }]);
+    const client = new BackendClient({ baseUrl: 'http://backend.test', retryMaxDelayMs: 5000 });
+
+    expect(await client.uploadClasses([syncedClass('a')])).toMatchObject({ success: true });
+    expect(requests[1].at - requests[0].at).toBeGreaterThanOrEqual(950);
+
+    requests = [];
+    mockResponses([{ status: 503, headers: { 'Retry-After': '60' } }]);
+    expect(await client.uploadClasses([syncedClass('a')])).toMatchObject({ success: false });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should derive idempotency keys from the class keys and content of a batch', async () => {
+    mockResponses([{ status: 200 }]);
+    const client = new BackendClient({ baseUrl: 'http://backend.test' });
+
+    await client.uploadClasses([syncedClass('a')]);
+    await client.uploadClasses([syncedClass('a')]);
+    await client.uploadClasses([syncedClass('a', { price: 30 })]);
+    await client.uploadClasses([syncedClass('b')]);
+    await client.sendChangeset([{ op: 'delete', classKey: 'studio:id:a', reason: 'removed_from_schedule' }]);
+
+    const [first, repeated, changed, other, deletion] = requests.map(r => r.headers['Idempotency-Key']);
+    expect(repeated).toBe(first);
+    expect(new Set([first, changed, other, deletion]).size).toBe(4);
+  });
+
+  it('should map per-class results back to local rows and not trust a bare count for a partial batch', async () => {
+    let legacy = false;
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+      requests.push({ url, headers: init.headers as Record<string, string>, at: Date.now() });
+      const sent = JSON.parse(init.body as string).classes;
+      // Report on the second and third class and an unknown one, and leave the first one out
+      const body = legacy ? { uploaded: 1 } : {
+        results: [
+          { classKey: sent[1].classKey, status: 'rejected', error: 'price: must not be negative' },
+          { classKey: sent[2].classKey, status: 'accepted' },
+          { classKey: 'unknown', status: 'accepted' }
+        ]
+      };
+      return new Response(JSON.stringify(body), { status: 200 });
+    }) as typeof fetch;
+    const client = new BackendClient({ baseUrl: 'http://backend.test' });
+
+    const result = await client.uploadClasses([
+      { ...syncedClass('a'), id: 3 },
+      { ...syncedClass('b', { price: -5 }), id: 17 },
+      { ...syncedClass('c'), id: 5 }
+    ]);
+    expect(result).toMatchObject({ success: false, uploaded: 1, failed: 2 });
+    expect(result.items!.map(item => [item.classId, item.status, item.error])).toEqual([
+      [3, 'failed', 'Missing from the backend response'],
+      [17, 'rejected', 'price: must not be negative'],
+      [5, 'accepted', undefined]
+    ]);
+    expect(result.errors).toEqual([expect.stringContaining('price: must not be negative')]);
+
+    legacy = true;
+    const partial = await client.uploadClasses([syncedClass('a'), syncedClass('b')]);
+    expect(partial).toMatchObject({ success: false, uploaded: 0, failed: 2 });
+    expect(partial.items!.every(item => item.status === 'failed' && /1 of 2 classes/.test(item.error!))).toBe(true);
+  });
+
+  it('should send changesets on top of a cursor and check fingerprints in bulk', async () => {
+    const bodies: any[] = [];
+    const responses: Array<{ status: number; body: object }> = [
+      { status: 200, body: { cursor: 'c2', results: [{ classKey: 'studio:id:a', status: 'accepted' }, { classKey: 'studio:id:b', status: 'accepted' }] } },
+      { status: 409, body: { error: 'stale cursor' } },
+      { status: 200, body: { cursor: 'c7', fingerprints: { 'studio:id:a': 'f1' } } },
+      { status: 200, body: { cursor: 'c8', fingerprints: { 'studio:id:c': 'f3' } } }
+    ];
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+      requests.push({ url, headers: init.headers as Record<string, string>, at: Date.now() });
+      bodies.push(JSON.parse(init.body as string));
+      const next = responses.shift()!;
+      return new Response(JSON.stringify(next.body), { status: next.status });
+    }) as typeof fetch;
+    const client = new BackendClient({ baseUrl: 'http://backend.test', checkBatchSize: 2 });
+
+    const operations: SyncOperation[] = [
+      { op: 'update', classKey: 'studio:id:a', classId: 1, class: syncedClass('a'), fingerprint: 'f1', previousFingerprint: 'f0' },
+      { op: 'delete', classKey: 'studio:id:b', classId: 2, reason: 'duplicate' }
+    ];
+    const applied = await client.sendChangeset(operations, [], 'c1');
+    expect(applied).toMatchObject({ success: true, stale: false, cursor: 'c2' });
+    expect(applied.items.map(item => [item.classId, item.status])).toEqual([[1, 'accepted'], [2, 'accepted']]);
+    expect(requests[0].url).toBe('http://backend.test/api/v1/sync/changesets');
+    expect(bodies[0].baseCursor).toBe('c1');
+    expect(bodies[0].operations[1]).toEqual({ op: 'delete', classKey: 'studio:id:b', reason: 'duplicate' });
+
+    // 409 is not retried: the changeset has to be rebuilt after reconciling
+    const stale = await client.sendChangeset(operations, [], 'c1');
+    expect(stale).toMatchObject({ success: false, stale: true });
+    expect(stale.items.every(item => item.status === 'failed')).toBe(true);
+    expect(requests).toHaveLength(2);
+
+    const check = await client.checkClasses(['studio:id:a', 'studio:id:b', 'studio:id:c']);
+    expect(bodies.slice(2).map(b => b.classKeys)).toEqual([['studio:id:a', 'studio:id:b'], ['studio:id:c']]);
+    expect(check.cursor).toBe('c7');
+    expect(Array.from(check.fingerprints)).toEqual([['studio:id:a', 'f1'], ['studio:id:c', 'f3']]);
+  });
+});
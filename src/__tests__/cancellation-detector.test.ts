@@ -0,0 +1,93 @@
+import { DatabaseManager } from '../core/Database.js';
+import { CancellationDetector } from '../core/CancellationDetector.js';
+import { FitnessClass, ScrapeResult } from '../models/FitnessClass.js';
+import { makeClass } from '../testing/factories.js';
+
+function makeResult(classes: FitnessClass[], errors: string[] = []): ScrapeResult {
+  return {
+    provider: 'studio',
+    success: true,
+    classesFound: classes.length,
+    classes,
+    errors,
+    timestamp: new Date()
+  };
+}
+
+const week = [
+  makeClass('a', { datetime: new Date('2030-03-04T15:00:00.000Z') }),
+  makeClass('b', { datetime: new Date('2030-03-05T15:00:00.000Z') }),
+  makeClass('c', { datetime: new Date('2030-03-06T15:00:00.000Z') }),
+  makeClass('d', { datetime: new Date('2030-03-07T15:00:00.000Z') })
+];
+
+describe('CancellationDetector', () => {
+  let db: DatabaseManager;
+
+  // Store a scrape the way the CLI does, then run detection on it
+  function scrape(detector: CancellationDetector, result: ScrapeResult) {
+    const runId = db.createScrapeRun('studio');
+    for (const fitnessClass of result.classes) {
+      db.upsertScrapedClass(runId, fitnessClass);
+    }
+    return detector.detect(runId, result);
+  }
+
+  beforeEach(() => {
+    db = new DatabaseManager(':memory:');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should cancel classes missing from a later scrape and reinstate them when they return', () => {
+    const detector = new CancellationDetector(db);
+    scrape(detector, makeResult(week));
+
+    const result = scrape(detector, makeResult(week.filter(c => c.providerId !== 'b')));
+
+    expect(result.checked).toBe(4);
+    expect(result.cancelled.map(c => c.providerId)).toEqual(['b']);
+    expect(db.getUnnotifiedCancellations().map(c => c.providerId)).toEqual(['b']);
+    expect(db.getUnuploadedClasses().map(c => c.providerId)).not.toContain('b');
+
+    db.markCancellationsNotified(result.cancelled.map(c => c.id!));
+    expect(db.getUnnotifiedCancellations()).toHaveLength(0);
+
+    const upsert = db.upsertScrapedClass(db.createScrapeRun('studio'), week[1]);
+    expect(upsert.status).toBe('updated');
+    expect(upsert.changedFields).toContain('scheduleStatus');
+    const reinstated = db.getUnuploadedClasses().find(c => c.providerId === 'b');
+    expect(reinstated?.scheduleStatus).toBe('active');
+    expect(reinstated?.cancelledAt).toBeUndefined();
+  });
+
+  it('should skip partial scrapes and mass removals', () => {
+    const detector = new CancellationDetector(db, { maxRemovalRatio: 0.25 });
+    scrape(detector, makeResult(week));
+
+    const withErrors = scrape(detector, makeResult(week.slice(0, 3), ['Location 2 timed out']));
+    expect(withErrors.skippedReason).toMatch(/errors/);
+
+    const massRemoval = scrape(detector, makeResult([week[0], week[3]]));
+    expect(massRemoval.missing).toBe(2);
+    expect(massRemoval.cancelled).toHaveLength(0);
+
+    // Scrapes of other locations leave this location's classes alone
+    const otherLocation = scrape(detector, makeResult([
+      { ...makeClass('x', { datetime: new Date('2030-03-05T15:00:00.000Z') }), location: { name: 'Downtown', address: '', lat: 0, long: 0 } }
+    ]));
+    expect(otherLocation.checked).toBe(1);
+    expect(db.getUnnotifiedCancellations()).toHaveLength(0);
+  });
+
+  it('should wait for confirmAfterRuns consecutive misses before cancelling', () => {
+    const detector = new CancellationDetector(db, { confirmAfterRuns: 2 });
+    scrape(detector, makeResult(week));
+    const partial = week.filter(c => c.providerId !== 'c');
+
+    expect(scrape(detector, makeResult(partial)).cancelled).toHaveLength(0);
+    expect(scrape(detector, makeResult(partial)).cancelled.map(c => c.providerId)).toEqual(['c']);
+  });
+});
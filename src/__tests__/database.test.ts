@@ -0,0 +1,183 @@
+import { DatabaseManager } from '../core/Database.js';
+import { FitnessClass } from '../models/FitnessClass.js';
+import { makeClass } from '../testing/factories.js';
+
+// A class as a scrape observed it, with its availability at the time
+function scrapedClass(overrides: Partial<FitnessClass> = {}): FitnessClass {
+  return makeClass('studio-1', {
+    datetime: new Date('2025-01-06T15:00:00.000Z'),
+    realTimeAvailability: 8,
+    bookingStatus: 'open',
+    lastAvailabilityCheck: new Date('2025-01-05T10:00:00.000Z'),
+    ...overrides
+  });
+}
+
+describe('DatabaseManager', () => {
+  let db: DatabaseManager;
+  let runId: number;
+
+  beforeEach(() => {
+    db = new DatabaseManager(':memory:');
+    runId = db.createScrapeRun('studio');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('upsertScrapedClass', () => {
+    it('should insert unseen classes', () => {
+      const result = db.upsertScrapedClass(runId, scrapedClass());
+
+      expect(result.status).toBe('inserted');
+      const [stored] = db.getUnuploadedClasses();
+      expect(stored.classKey).toBe('studio:key:studio|2025-01-06T15:00:00.000Z|power yoga');
+      expect(stored.firstSeen).toBeDefined();
+      expect(stored.lastSeen).toBeDefined();
+    });
+
+    it('should store timezone, end time and duration', () => {
+      db.upsertScrapedClass(runId, scrapedClass({
+        location: { name: 'Studio', address: '1 Main St', lat: 49.28, long: -123.12, timezone: 'America/Vancouver' },
+        localDatetime: '2025-01-06T07:00:00',
+        endDatetime: new Date('2025-01-06T16:15:00.000Z'),
+        durationMinutes: 75
+      }));
+
+      const [stored] = db.getUnuploadedClasses();
+      expect(stored.location.timezone).toBe('America/Vancouver');
+      expect(stored.localDatetime).toBe('2025-01-06T07:00:00');
+      expect(stored.endDatetime?.toISOString()).toBe('2025-01-06T16:15:00.000Z');
+      expect(stored.durationMinutes).toBe(75);
+    });
+
+    it('should leave unchanged classes alone apart from last_seen', () => {
+      const first = db.upsertScrapedClass(runId, scrapedClass());
+      db.markClassesAsUploaded([first.id]);
+
+      const secondRun = db.createScrapeRun('studio');
+      const second = db.upsertScrapedClass(secondRun, scrapedClass({ lastAvailabilityCheck: new Date() }));
+
+      expect(second).toEqual({ id: first.id, status: 'unchanged', changedFields: [] });
+      expect(db.getUnuploadedClasses()).toEqual([]);
+      expect(db.getClassesByRunId(secondRun).map(c => c.id)).toEqual([first.id]);
+    });
+
+    it('should update changed classes, record the change and queue them for upload', () => {
+      const first = db.upsertScrapedClass(runId, scrapedClass());
+      db.markClassesAsUploaded([first.id]);
+
+      const secondRun = db.createScrapeRun('studio');
+      const second = db.upsertScrapedClass(secondRun, scrapedClass({
+        trainer: 'Sam Lee',
+        realTimeAvailability: 0,
+        bookingStatus: 'full'
+      }));
+
+      expect(second.status).toBe('updated');
+      expect(second.changedFields).toEqual(['trainer', 'realTimeAvailability', 'bookingStatus']);
+
+      const [stored] = db.getUnuploadedClasses();
+      expect(stored.id).toBe(first.id);
+      expect(stored.trainer).toBe('Sam Lee');
+      expect(stored.bookingStatus).toBe('full');
+      expect(stored.lastChangedAt).toBeDefined();
+
+      const [change] = db.getClassChanges(first.id);
+      expect(change.scrapeRunId).toBe(secondRun);
+      expect(change.changedFields).toEqual(['trainer', 'realTimeAvailability', 'bookingStatus']);
+      expect(change.previousValues).toEqual({ trainer: 'Maya Chen', real_time_availability: 8, booking_status: 'open' });
+    });
+
+    it('should treat a different start time as a different class', () => {
+      db.upsertScrapedClass(runId, scrapedClass());
+      const result = db.upsertScrapedClass(runId, scrapedClass({ datetime: new Date('2025-01-07T15:00:00.000Z') }));
+
+      expect(result.status).toBe('inserted');
+      expect(db.getUnuploadedClasses()).toHaveLength(2);
+    });
+
+    it('should match classes without native IDs on venue, start time and normalized name', () => {
+      const first = db.upsertScrapedClass(runId, scrapedClass());
+      const result = db.upsertScrapedClass(runId, scrapedClass({ name: 'POWER  YOGA!', providerId: 'studio-2' }));
+
+      expect(result).toMatchObject({ id: first.id, status: 'updated', changedFields: ['name'] });
+    });
+
+    it('should follow a class with a native ID through renames and reschedules', () => {
+      const first = db.upsertScrapedClass(runId, scrapedClass({ nativeId: '9001' }));
+      const result = db.upsertScrapedClass(runId, scrapedClass({
+        nativeId: '9001',
+        name: 'Yoga Sculpt',
+        datetime: new Date('2025-01-06T16:00:00.000Z')
+      }));
+
+      expect(result).toMatchObject({ id: first.id, status: 'updated', changedFields: ['name', 'datetime'] });
+      expect(db.getUnuploadedClasses()).toHaveLength(1);
+    });
+
+    it('should adopt a class stored before its provider reported native IDs', () => {
+      const legacy = db.upsertScrapedClass(runId, scrapedClass());
+      const result = db.upsertScrapedClass(runId, scrapedClass({ nativeId: '9001' }));
+
+      expect(result).toMatchObject({ id: legacy.id, status: 'unchanged' });
+      const [stored] = db.getUnuploadedClasses();
+      expect(stored.nativeId).toBe('9001');
+      expect(stored.classKey).toBe('studio:id:9001');
+    });
+  });
+
+  describe('availability history', () => {
+    const start = new Date('2025-01-10T17:00:00.000Z');
+    const hoursBefore = (hours: number) => new Date(start.getTime() - hours * 60 * 60 * 1000);
+
+    it('should record a snapshot each time a class is observed', () => {
+      const { id } = db.upsertScrapedClass(runId, scrapedClass({ datetime: start, realTimeAvailability: 12, lastAvailabilityCheck: hoursBefore(96) }));
+      db.upsertScrapedClass(db.createScrapeRun('studio'), scrapedClass({ datetime: start, realTimeAvailability: 12, lastAvailabilityCheck: hoursBefore(72) }));
+      db.upsertScrapedClass(db.createScrapeRun('studio'), scrapedClass({ datetime: start, realTimeAvailability: 0, bookingStatus: 'full', lastAvailabilityCheck: hoursBefore(48) }));
+
+      const history = db.getAvailabilityHistory(id);
+      expect(history.map(s => [s.spotsLeft, s.hoursBeforeStart])).toEqual([[12, 96], [12, 72], [0, 48]]);
+
+      const summary = db.getClassFillSummary(id);
+      expect(summary).toMatchObject({ snapshots: 3, initialSpotsLeft: 12, latestSpotsLeft: 0, soldOut: true, soldOutHoursBeforeStart: 48 });
+    });
+
+    it('should skip classes without availability data', () => {
+      const { id } = db.upsertScrapedClass(runId, scrapedClass({ realTimeAvailability: undefined, bookingStatus: undefined }));
+
+      expect(db.getAvailabilityHistory(id)).toEqual([]);
+      expect(db.getClassFillSummary(id)).toBeNull();
+    });
+
+    it('should report how far ahead a recurring class usually sells out', () => {
+      const weeks = [0, 7, 14].map(days => new Date(start.getTime() + days * 24 * 60 * 60 * 1000));
+      const soldOutHours = [48, 24, null];
+
+      weeks.forEach((datetime, i) => {
+        const observedAt = new Date(datetime.getTime() - 96 * 60 * 60 * 1000);
+        db.upsertScrapedClass(runId, scrapedClass({ datetime, realTimeAvailability: 10, lastAvailabilityCheck: observedAt }));
+        if (soldOutHours[i] !== null) {
+          db.upsertScrapedClass(runId, scrapedClass({
+            datetime,
+            realTimeAvailability: 0,
+            bookingStatus: 'waitlist',
+            lastAvailabilityCheck: new Date(datetime.getTime() - soldOutHours[i]! * 60 * 60 * 1000)
+          }));
+        }
+      });
+
+      expect(db.getSelloutStats({ providerName: 'studio' })).toEqual([{
+        providerName: 'studio',
+        name: 'Power Yoga',
+        locationName: 'Studio',
+        classesObserved: 3,
+        classesSoldOut: 2,
+        selloutRate: 2 / 3,
+        medianHoursBeforeSellout: 36
+      }]);
+      expect(db.getSelloutStats({ minClasses: 4 })).toEqual([]);
+    });
+  });
+});
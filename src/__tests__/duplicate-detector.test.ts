@@ -0,0 +1,111 @@
+import { DatabaseManager } from '../core/Database.js';
+import { DuplicateDetector } from '../core/DuplicateDetector.js';
+import { FitnessClass } from '../models/FitnessClass.js';
+import { makeClass } from '../testing/factories.js';
+
+// The same Barry's class as each provider lists it
+function listing(providerName: string, providerId: string, overrides: Partial<FitnessClass> = {}): FitnessClass {
+  return makeClass(providerId, {
+    name: 'Full Body Bootcamp',
+    location: {
+      name: "Barry's Tribeca",
+      address: '125 Chambers Street, New York, NY 10007',
+      lat: 40.7149,
+      long: -74.0089,
+      venueId: 'barrys-tribeca'
+    },
+    bookingUrl: `https://${providerName}.example.com/book/${providerId}`,
+    providerName,
+    ...overrides
+  });
+}
+
+describe('DuplicateDetector', () => {
+  let db: DatabaseManager;
+  let detector: DuplicateDetector;
+
+  function save(fitnessClass: FitnessClass): number {
+    const runId = db.createScrapeRun(fitnessClass.providerName);
+    return db.upsertScrapedClass(runId, fitnessClass).id;
+  }
+
+  beforeEach(() => {
+    db = new DatabaseManager(':memory:');
+    detector = new DuplicateDetector(db, { providerPriority: ['barrys'] });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should link an aggregator listing to the studio class and upload it as a booking option', () => {
+    const studioId = save(listing('barrys', 'b-1'));
+    const aggregatorId = save(listing('classpass', 'cp-1', {
+      name: 'Full-Body Boot Camp',
+      datetime: new Date('2030-03-04T15:05:00.000Z'),
+      location: { name: 'Barrys Bootcamp - Tribeca', address: '125 Chambers St', lat: 40.7150, long: -74.0090 },
+      trainer: 'Maya C.',
+      price: 30
+    }));
+
+    const result = detector.detect([aggregatorId]);
+
+    expect(result.duplicates).toBe(1);
+    expect(result.requeued).toEqual([studioId]);
+    expect(db.getUnuploadedClasses().map(c => c.id)).toEqual([studioId]);
+    expect(db.getBookingOptions([studioId]).get(studioId)).toEqual([{
+      providerName: 'classpass',
+      providerId: 'cp-1',
+      bookingUrl: 'https://classpass.example.com/book/cp-1',
+      price: 30,
+      realTimeAvailability: undefined,
+      bookingStatus: undefined
+    }]);
+  });
+
+  it('should not link classes at a different time, venue, name or instructor', () => {
+    const studioId = save(listing('barrys', 'b-1'));
+    const others = [
+      listing('classpass', 'cp-1', { datetime: new Date('2030-03-04T15:30:00.000Z') }),
+      listing('mindbody', 'mb-1', { location: { name: "Barry's Chelsea", address: '160 8th Ave, New York, NY', lat: 40.7420, long: -74.0010 } }),
+      listing('orangetheory', 'ot-1', { name: 'Arms and Abs' }),
+      listing('soulcycle', 'sc-1', { trainer: 'Jordan Lee' })
+    ].map(save);
+
+    expect(detector.detect([studioId, ...others]).duplicates).toBe(0);
+    expect(db.getUnuploadedClasses()).toHaveLength(5);
+  });
+
+  it('should pick the canonical class by provider priority and rank aggregators last', () => {
+    const aggregatorId = save(listing('classpass', 'cp-1'));
+    const mindbodyId = save(listing('mindbody', 'mb-1', { trainer: 'Staff' }));
+    const studioId = save(listing('barrys', 'b-1'));
+
+    detector.detect([aggregatorId, mindbodyId]);
+    detector.detect([studioId]);
+
+    expect(db.getDuplicatesOf(studioId).map(c => c.id)).toEqual([aggregatorId, mindbodyId]);
+    expect(db.getClassesByIds([studioId])[0].canonicalClassId).toBeUndefined();
+
+    // Without a configured priority, the oldest direct listing wins and the aggregator still ranks last
+    expect(new DuplicateDetector(db).detect([aggregatorId]).duplicates).toBe(2);
+    expect(db.getDuplicatesOf(mindbodyId).map(c => c.id)).toEqual([aggregatorId, studioId]);
+  });
+
+  it('should retract uploaded duplicates and unlink classes that no longer match', () => {
+    const studioId = save(listing('barrys', 'b-1'));
+    const aggregatorId = save(listing('classpass', 'cp-1', { nativeId: '9001' }));
+    db.markClassesAsUploaded([studioId, aggregatorId]);
+
+    expect(detector.detect([aggregatorId]).retracted.map(c => c.id)).toEqual([aggregatorId]);
+
+    // The aggregator moved its listing to a later slot
+    save(listing('classpass', 'cp-1', { nativeId: '9001', datetime: new Date('2030-03-04T16:00:00.000Z') }));
+    db.markClassesAsUploaded([studioId]);
+    const result = detector.detect([aggregatorId]);
+
+    expect(result.duplicates).toBe(0);
+    expect(result.requeued.sort()).toEqual([studioId, aggregatorId].sort());
+    expect(db.getBookingOptions([studioId]).size).toBe(0);
+  });
+});
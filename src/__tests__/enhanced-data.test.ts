@@ -1,4 +1,7 @@
 import { FitnessClass, TrainerInfo, Amenity, PricingDetails } from '../models/FitnessClass.js';
+import { ChromeManager } from '../core/ChromeManager.js';
+import { validateFitnessClass } from '../utils/validation.js';
+import { TestProvider, makeClass } from '../testing/factories.js';
 
 describe('Enhanced Data Features', () => {
   describe('FitnessClass with enhanced fields', () => {
@@ -95,4 +98,37 @@ describe('Enhanced Data Features', () => {
       });
     });
   });
+
+  describe('end time and duration', () => {
+    const provider = new TestProvider(new ChromeManager(), { enabled: true, baseUrl: 'https://example.com' });
+
+    it('should parse common duration formats', () => {
+      expect(provider.duration('45 min')).toBe(45);
+      expect(provider.duration('1 hr 15 min')).toBe(75);
+      expect(provider.duration('1h15')).toBe(75);
+      expect(provider.duration('1.5 hours')).toBe(90);
+      expect(provider.duration('1:15')).toBe(75);
+      expect(provider.duration('60')).toBe(60);
+      expect(provider.duration('All day')).toBeUndefined();
+    });
+
+    it('should derive whichever of end time and duration is missing', () => {
+      const [fromDuration, fromEnd, backwards] = provider.result([
+        makeClass('studio-1', { durationMinutes: 45 }),
+        makeClass('studio-2', { endDatetime: new Date('2030-03-04T16:00:00.000Z') }),
+        makeClass('studio-3', { endDatetime: new Date('2030-03-04T14:00:00.000Z') })
+      ]).classes;
+
+      expect(fromDuration.endDatetime?.toISOString()).toBe('2030-03-04T15:45:00.000Z');
+      expect(fromEnd.durationMinutes).toBe(60);
+      expect(backwards.endDatetime).toBeUndefined();
+      expect(backwards.durationMinutes).toBeUndefined();
+    });
+
+    it('should validate end time and duration', () => {
+      expect(validateFitnessClass(makeClass('studio-1', { endDatetime: new Date('2030-03-04T16:00:00.000Z'), durationMinutes: 60 }))).toBe(true);
+      expect(validateFitnessClass(makeClass('studio-1', { endDatetime: new Date('2030-03-04T15:00:00.000Z') }))).toBe(false);
+      expect(validateFitnessClass(makeClass('studio-1', { durationMinutes: 0 }))).toBe(false);
+    });
+  });
 });
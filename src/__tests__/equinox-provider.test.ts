@@ -0,0 +1,85 @@
+import { join } from 'path';
+import { EquinoxProvider } from '../providers/EquinoxProvider.js';
+import { ChromeManager } from '../core/ChromeManager.js';
+import { FixtureStore } from '../core/FixtureStore.js';
+import { HttpClient } from '../core/HttpClient.js';
+
+describe('EquinoxProvider (replayed fixtures)', () => {
+  let provider: EquinoxProvider;
+
+  beforeEach(() => {
+    const httpClient = new HttpClient();
+    httpClient.useFixtures(new FixtureStore(join(process.cwd(), 'src/__tests__/fixtures/equinox'), 'replay'));
+
+    provider = new EquinoxProvider(new ChromeManager(), { enabled: true, baseUrl: 'https://www.equinox.com' });
+    provider.setHttpClient(httpClient);
+  });
+
+  it('should scrape over HTTP without a browser', () => {
+    expect(provider.requiresBrowser()).toBe(false);
+  });
+
+  it('should transform API classes for a location', async () => {
+    const result = await provider.scrapeClasses({
+      location: 'vancouver',
+      startDate: new Date(2025, 0, 6),
+      endDate: new Date(2025, 0, 8)
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.classes.map(c => c.providerId)).toEqual(['equinox-860-ci-1001', 'equinox-860-ci-1002']);
+
+    const [run, yoga] = result.classes;
+    expect(run.name).toBe('Precision Run');
+    expect(run.description).toBe('Treadmill intervals with hill climbs');
+    expect(run.datetime.toISOString()).toBe('2025-01-06T15:00:00.000Z');
+    expect(run.localDatetime).toBe('2025-01-06T07:00:00');
+    expect(run.endDatetime?.toISOString()).toBe('2025-01-06T15:45:00.000Z');
+    expect(run.durationMinutes).toBe(45);
+    expect(run.location.name).toBe('Equinox West Georgia - Studio 1');
+    expect(run.trainer).toBe('Maya Chen');
+    expect(run.trainerInfo?.photoUrl).toBe('https://images.equinox.com/instructors/maya.jpg');
+    expect(run.intensity).toBe(8);
+    expect(run.capacity).toBe(20);
+    expect(run.realTimeAvailability).toBe(8);
+    expect(run.bookingStatus).toBe('open');
+    expect(run.photos).toEqual(['https://images.equinox.com/classes/precision-run.jpg']);
+    expect(run.tags).toEqual(['cardio', 'running', 'hiit', 'advanced', 'treadmill']);
+    expect(run.taxonomy?.modality[0]).toEqual({ value: 'cardio', confidence: 1 });
+    expect(run.taxonomy?.level).toEqual({ value: 'advanced', confidence: 0.8 });
+
+    expect(yoga.trainer).toBe('Staff');
+    expect(yoga.intensity).toBe(3);
+    expect(yoga.realTimeAvailability).toBe(0);
+    expect(yoga.bookingStatus).toBe('full');
+  });
+
+  it('should honour maxResults', async () => {
+    const result = await provider.scrapeClasses({
+      location: 'vancouver',
+      startDate: new Date(2025, 0, 6),
+      endDate: new Date(2025, 0, 8),
+      maxResults: 1
+    });
+
+    expect(result.classes).toHaveLength(1);
+  });
+
+  it('should reject unknown locations', async () => {
+    const result = await provider.scrapeClasses({ location: 'atlantis' });
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toMatch(/Unknown Equinox location: atlantis/);
+  });
+
+  it('should report requests missing from the fixtures', async () => {
+    const result = await provider.scrapeClasses({
+      location: 'nyc-hudsonyards',
+      startDate: new Date(2025, 0, 6),
+      endDate: new Date(2025, 0, 8)
+    });
+
+    expect(result.classes).toEqual([]);
+    expect(result.errors[0]).toMatch(/No fixture recorded for POST/);
+  });
+});
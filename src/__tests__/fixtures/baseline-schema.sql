@@ -0,0 +1,63 @@
+-- Schema created by the first release, before schema migrations were versioned
+
+CREATE TABLE IF NOT EXISTS providers (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT UNIQUE NOT NULL,
+  enabled BOOLEAN DEFAULT 1,
+  last_scrape DATETIME,
+  total_runs INTEGER DEFAULT 0,
+  successful_runs INTEGER DEFAULT 0,
+  total_classes_found INTEGER DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS scrape_runs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  provider TEXT NOT NULL,
+  start_time DATETIME NOT NULL,
+  end_time DATETIME,
+  status TEXT CHECK(status IN ('running', 'completed', 'failed')) DEFAULT 'running',
+  classes_found INTEGER DEFAULT 0,
+  classes_uploaded INTEGER DEFAULT 0,
+  errors TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS scraped_classes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  scrape_run_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  datetime DATETIME NOT NULL,
+  location_name TEXT NOT NULL,
+  location_address TEXT NOT NULL,
+  location_lat REAL NOT NULL,
+  location_long REAL NOT NULL,
+  trainer TEXT,
+  intensity INTEGER CHECK(intensity BETWEEN 1 AND 10),
+  price REAL,
+  booking_url TEXT,
+  provider_id TEXT NOT NULL,
+  provider_name TEXT NOT NULL,
+  capacity INTEGER,
+  tags TEXT,
+  uploaded_to_backend BOOLEAN DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  photos TEXT,
+  trainer_info TEXT,
+  amenities TEXT,
+  real_time_availability INTEGER,
+  booking_status TEXT CHECK(booking_status IN ('open', 'closed', 'full', 'waitlist')),
+  last_availability_check DATETIME,
+  pricing_details TEXT,
+  reviews TEXT,
+  FOREIGN KEY (scrape_run_id) REFERENCES scrape_runs(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scrape_runs_provider ON scrape_runs(provider);
+CREATE INDEX IF NOT EXISTS idx_scrape_runs_start_time ON scrape_runs(start_time);
+CREATE INDEX IF NOT EXISTS idx_scraped_classes_scrape_run ON scraped_classes(scrape_run_id);
+CREATE INDEX IF NOT EXISTS idx_scraped_classes_datetime ON scraped_classes(datetime);
+CREATE INDEX IF NOT EXISTS idx_scraped_classes_provider ON scraped_classes(provider_name);
+CREATE INDEX IF NOT EXISTS idx_scraped_classes_uploaded ON scraped_classes(uploaded_to_backend);
+CREATE INDEX IF NOT EXISTS idx_scraped_classes_booking_status ON scraped_classes(booking_status);
@@ -0,0 +1,157 @@
+import { DatabaseManager } from '../core/Database.js';
+import {
+  GazetteerGeocoder,
+  NominatimGeocoder,
+  StaticGeocoder,
+  createGeocoders,
+  geocodeAddress,
+  getGeocodeStats,
+  normalizeAddress,
+  setGeocodeCache,
+  setGeocoders
+} from '../utils/geocoding.js';
+import { validateFitnessClass } from '../utils/validation.js';
+
+describe('geocoding', () => {
+  const originalFetch = globalThis.fetch;
+  let db: DatabaseManager;
+  let requests: string[];
+
+  function mockResponses(responses: Array<{ status: number; body: any }>): void {
+    let index = 0;
+    globalThis.fetch = (async (url: string) => {
+      requests.push(url);
+      const next = responses[Math.min(index++, responses.length - 1)];
+      return new Response(JSON.stringify(next.body), { status: next.status });
+    }) as typeof fetch;
+  }
+
+  beforeEach(() => {
+    requests = [];
+    db = new DatabaseManager(':memory:');
+    setGeocodeCache(db, { expiry: 60000, negativeExpiry: 60000 });
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    setGeocodeCache(null);
+    setGeocoders([new NominatimGeocoder()]);
+    db.close();
+  });
+
+  it('should normalize case, accents, punctuation and street words', () => {
+    expect(normalizeAddress('123 Main Street, Suite 4 ')).toBe('123 main st ste 4');
+    expect(normalizeAddress('123  MAIN st. ste #4')).toBe('123 main st ste 4');
+    expect(normalizeAddress('Café Avenue')).toBe('cafe ave');
+  });
+
+  it('should look an address up once and serve equivalent addresses from the cache', async () => {
+    mockResponses([{ status: 200, body: [{ lat: '49.2827', lon: '-123.1207', display_name: 'Vancouver, BC' }] }]);
+    const before = getGeocodeStats();
+
+    const first = await geocodeAddress('1 Main Street, Vancouver');
+    const second = await geocodeAddress('1 main st vancouver');
+
+    expect(requests).toHaveLength(1);
+    expect(second).toEqual(first);
+    expect(first).toEqual({ lat: 49.2827, long: -123.1207, formattedAddress: 'Vancouver, BC', source: 'nominatim' });
+
+    const after = getGeocodeStats();
+    expect(after.cacheHits - before.cacheHits).toBe(1);
+    expect(after.cacheMisses - before.cacheMisses).toBe(1);
+    expect(after.lookups - before.lookups).toBe(1);
+
+    const cacheStats = db.getGeocodeCacheStats();
+    expect(cacheStats).toMatchObject({ entries: 1, found: 1, notFound: 0, totalHits: 1 });
+  });
+
+  it('should cache misses but not request errors', async () => {
+    mockResponses([
+      { status: 200, body: [] },
+      { status: 503, body: {} },
+      { status: 200, body: [{ lat: '40.7', lon: '-74.0', display_name: 'New York, NY' }] }
+    ]);
+
+    expect(await geocodeAddress('Nowhere Road')).toBeNull();
+    expect(await geocodeAddress('Nowhere Rd')).toBeNull();
+    expect(requests).toHaveLength(1);
+
+    expect(await geocodeAddress('Broadway')).toBeNull();
+    expect(await geocodeAddress('Broadway')).toMatchObject({ lat: 40.7, long: -74.0 });
+    expect(requests).toHaveLength(3);
+
+    expect(db.getGeocodeCacheStats()).toMatchObject({ entries: 2, found: 1, notFound: 1 });
+  });
+
+  it('should look addresses up again once their entry expires', async () => {
+    mockResponses([{ status: 200, body: [{ lat: '40.7', lon: '-74.0', display_name: 'New York, NY' }] }]);
+    db.cacheGeocode(normalizeAddress('Broadway'), 'Broadway', null, new Date(Date.now() - 1000));
+
+    expect(await geocodeAddress('Broadway')).toMatchObject({ lat: 40.7 });
+    expect(requests).toHaveLength(1);
+
+    db.cacheGeocode('stale', 'Stale', null, new Date(Date.now() - 1000));
+    expect(db.pruneGeocodeCache()).toBe(1);
+    expect(db.getGeocodeCacheStats().entries).toBe(1);
+  });
+
+  it('should try geocoders in order until one resolves the address', async () => {
+    mockResponses([{ status: 503, body: {} }]);
+    setGeocoders([
+      new StaticGeocoder({ '1 Main Street, Vancouver': { lat: 49.28, long: -123.12, timezone: 'America/Vancouver' } }),
+      new NominatimGeocoder(),
+      new GazetteerGeocoder()
+    ]);
+
+    expect(await geocodeAddress('1 main st. vancouver')).toMatchObject({ lat: 49.28, source: 'static', timezone: 'America/Vancouver' });
+    expect(requests).toHaveLength(0);
+
+    // Nominatim is down, so the gazetteer places the studio at the city center
+    expect(await geocodeAddress('99 Nowhere Ave, Portland, OR 97201')).toMatchObject({
+      lat: 45.5152,
+      long: -122.6784,
+      source: 'gazetteer',
+      timezone: 'America/Los_Angeles'
+    });
+    expect(requests).toHaveLength(1);
+
+    expect(await geocodeAddress('Somewhere unknown')).toBeNull();
+    expect(db.getGeocodeCacheStats().entries).toBe(0);
+  });
+
+  it('should prefer gazetteer places whose region also appears in the address', async () => {
+    const gazetteer = new GazetteerGeocoder([
+      { name: 'Portland', region: 'ME', country: 'US', lat: 43.6591, long: -70.2568 },
+      { name: 'Portland', region: 'OR', country: 'US', lat: 45.5152, long: -122.6784 }
+    ]);
+
+    expect(await gazetteer.geocode('Portland, OR')).toMatchObject({ lat: 45.5152 });
+    expect(await gazetteer.geocode('Portland, Maine')).toMatchObject({ lat: 43.6591 });
+    expect(await gazetteer.geocode('Portlandia')).toBeNull();
+  });
+
+  it('should build the chain from config and reject unknown geocoders', () => {
+    expect(createGeocoders({ staticFile: '/nonexistent/venues.json' }).map(g => g.name)).toEqual(['nominatim', 'gazetteer']);
+    expect(() => createGeocoders({ backends: ['google'] })).toThrow('Unknown geocoder "google"');
+  });
+
+  it('should only accept classes at 0,0 when their location is flagged unresolved', () => {
+    const fitnessClass = {
+      name: 'Power Yoga',
+      description: 'Strong flow',
+      datetime: new Date('2030-03-04T15:00:00.000Z'),
+      location: { name: 'Studio', address: 'Somewhere unknown', lat: 0, long: 0 },
+      trainer: 'Maya Chen',
+      intensity: 7,
+      price: 25,
+      bookingUrl: 'https://example.com/book/1',
+      providerId: 'studio-1',
+      providerName: 'studio',
+      capacity: 20,
+      tags: ['yoga']
+    };
+
+    expect(validateFitnessClass(fitnessClass)).toBe(false);
+    expect(validateFitnessClass({ ...fitnessClass, location: { ...fitnessClass.location, unresolved: true } })).toBe(true);
+  });
+});
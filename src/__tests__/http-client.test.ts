@@ -0,0 +1,63 @@
+import { HttpClient } from '../core/HttpClient.js';
+
+describe('HttpClient', () => {
+  const originalFetch = globalThis.fetch;
+  let requests: Array<{ url: string; init: RequestInit }>;
+
+  function mockResponses(responses: Array<{ status: number; body: any; setCookie?: string[] }>): void {
+    let index = 0;
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+      requests.push({ url, init });
+      const next = responses[Math.min(index++, responses.length - 1)];
+      const headers = new Headers({ 'Content-Type': 'application/json' });
+      for (const cookie of next.setCookie || []) {
+        headers.append('Set-Cookie', cookie);
+      }
+      return new Response(JSON.stringify(next.body), { status: next.status, headers });
+    }) as typeof fetch;
+  }
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it('should send cookies set by earlier responses', async () => {
+    mockResponses([
+      { status: 200, body: {}, setCookie: ['session=abc; Path=/; Domain=.example.com'] },
+      { status: 200, body: { ok: true } }
+    ]);
+    const client = new HttpClient();
+
+    await client.getText('https://www.example.com/schedule');
+    const data = await client.getJson('https://api.example.com/classes');
+
+    expect(data).toEqual({ ok: true });
+    expect((requests[1].init.headers as Record<string, string>)['Cookie']).toBe('session=abc');
+  });
+
+  it('should retry transient failures', async () => {
+    mockResponses([
+      { status: 503, body: {} },
+      { status: 200, body: { classes: [] } }
+    ]);
+    const client = new HttpClient({ maxRetries: 2 });
+
+    const data = await client.postJson('https://api.example.com/classes', { facilityIds: [1] });
+
+    expect(data).toEqual({ classes: [] });
+    expect(requests).toHaveLength(2);
+    expect(requests[0].init.body).toBe('{"facilityIds":[1]}');
+  });
+
+  it('should not retry client errors', async () => {
+    mockResponses([{ status: 404, body: { error: 'not found' } }]);
+    const client = new HttpClient({ maxRetries: 3 });
+
+    await expect(client.getJson('https://api.example.com/missing')).rejects.toThrow(/HTTP 404/);
+    expect(requests).toHaveLength(1);
+  });
+});
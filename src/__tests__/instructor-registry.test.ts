@@ -0,0 +1,67 @@
+import { DatabaseManager } from '../core/Database.js';
+import { InstructorRegistry } from '../core/InstructorRegistry.js';
+import { makeClass } from '../testing/factories.js';
+
+describe('InstructorRegistry', () => {
+  let db: DatabaseManager;
+  let registry: InstructorRegistry;
+
+  beforeEach(() => {
+    db = new DatabaseManager(':memory:');
+    registry = new InstructorRegistry(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should merge the profile details of every class an instructor teaches', () => {
+    const first = registry.resolve(makeClass('a', {
+      trainerInfo: { name: 'Maya Chen', bio: 'Yoga teacher', certifications: ['RYT-200'], photoUrl: 'https://example.com/old.jpg' }
+    }));
+    const second = registry.resolve(makeClass('b', {
+      trainer: 'maya  chen',
+      trainerInfo: {
+        name: 'maya  chen',
+        bio: 'Yoga teacher since 2012',
+        certifications: ['RYT-200', 'CPT'],
+        photoUrl: 'https://example.com/new.jpg',
+        socialLinks: { instagram: 'https://instagram.com/maya' }
+      }
+    }));
+    registry.resolve(makeClass('c', { trainerInfo: { name: 'Maya Chen', yearsExperience: 12 } }));
+
+    expect(first).toBe('studio:maya chen');
+    expect(second).toBe(first);
+    expect(db.getInstructor(first!)).toMatchObject({
+      name: 'Maya Chen',
+      bio: 'Yoga teacher since 2012',
+      photoUrl: 'https://example.com/new.jpg',
+      certifications: ['RYT-200', 'CPT'],
+      yearsExperience: 12,
+      socialLinks: { instagram: 'https://instagram.com/maya' }
+    });
+  });
+
+  it('should keep instructors of different providers apart and skip placeholders', () => {
+    expect(registry.resolve(makeClass('a'))).toBe('studio:maya chen');
+    expect(registry.resolve(makeClass('b', { providerName: 'classpass' }))).toBe('classpass:maya chen');
+    expect(registry.resolve(makeClass('c', { trainer: 'Staff' }))).toBeUndefined();
+    expect(registry.addProfile('studio', { name: 'TBA' })).toBeUndefined();
+
+    expect(db.getAllInstructors().map(i => i.id)).toEqual(['classpass:maya chen', 'studio:maya chen']);
+  });
+
+  it('should store instructor IDs on classes instead of their profiles', () => {
+    const fitnessClass = makeClass('a', { trainerInfo: { name: 'Maya Chen', bio: 'Yoga teacher' } });
+    fitnessClass.instructorId = registry.resolve(fitnessClass);
+
+    const runId = db.createScrapeRun('studio');
+    const { id } = db.upsertScrapedClass(runId, fitnessClass);
+    const [stored] = db.getClassesByIds([id]);
+
+    expect(stored.instructorId).toBe('studio:maya chen');
+    expect(stored.trainerInfo).toBeUndefined();
+    expect(db.getInstructorClassCounts().get('studio:maya chen')).toBe(1);
+  });
+});
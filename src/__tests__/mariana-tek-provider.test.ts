@@ -0,0 +1,89 @@
+import { join } from 'path';
+import { MarianaTekProvider } from '../providers/MarianaTekProvider.js';
+import { ChromeManager } from '../core/ChromeManager.js';
+import { FixtureStore } from '../core/FixtureStore.js';
+import { HttpClient } from '../core/HttpClient.js';
+import { createFallbackKey, getClassKey } from '../utils/classIdentity.js';
+
+describe('MarianaTekProvider (replayed fixtures)', () => {
+  let provider: MarianaTekProvider;
+
+  beforeEach(() => {
+    const httpClient = new HttpClient();
+    httpClient.useFixtures(new FixtureStore(join(process.cwd(), 'src/__tests__/fixtures/marianatek'), 'replay'));
+
+    provider = new MarianaTekProvider(new ChromeManager(), {
+      enabled: true,
+      tenant: 'yyoga',
+      regionId: '48541',
+      baseUrl: 'https://yyoga.ca',
+      scheduleUrl: 'https://yyoga.ca/book-a-class/',
+      timezone: 'America/Vancouver',
+      bookingUrl: 'https://yyoga.ca/book-a-class/?studio={slug}&class={classId}',
+      dropInPrice: 28,
+      defaultTags: ['yoga']
+    });
+    provider.setHttpClient(httpClient);
+  });
+
+  it('should discover listed locations and follow pagination', async () => {
+    const result = await provider.scrapeClasses({
+      startDate: new Date(2025, 0, 6),
+      endDate: new Date(2025, 0, 7)
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(result.classes.map(c => c.providerId)).toEqual([
+      'yyoga-90001',
+      'yyoga-90002',
+      `yyoga-${createFallbackKey('Downtown Flow', new Date('2025-01-07T04:30:00Z'), 'Candlelight Yin')}`
+    ]);
+  });
+
+  it('should key classes listed without an ID on their fallback key', async () => {
+    const result = await provider.scrapeClasses({
+      startDate: new Date(2025, 0, 6),
+      endDate: new Date(2025, 0, 7)
+    });
+    const candlelight = result.classes.find(c => c.name === 'Candlelight Yin')!;
+
+    expect(candlelight.nativeId).toBeUndefined();
+    expect(candlelight.providerId).not.toContain('undefined');
+    expect(candlelight.bookingUrl).toBe('https://yyoga.ca/book-a-class/');
+    expect(getClassKey(candlelight)).not.toBe(getClassKey(result.classes[1]));
+  });
+
+  it('should transform classes', async () => {
+    const result = await provider.scrapeClasses({
+      startDate: new Date(2025, 0, 6),
+      endDate: new Date(2025, 0, 7)
+    });
+    const [power, yin] = result.classes;
+
+    expect(power.name).toBe('Hot Power Flow');
+    expect(power.description).toBe('A heated, strong vinyasa class');
+    expect(power.location.name).toBe('Downtown Flow');
+    expect(power.location.lat).toBeCloseTo(49.2856);
+    expect(power.location.timezone).toBe('America/Vancouver');
+    expect(power.localDatetime).toBe('2025-01-06T06:30:00');
+    expect(power.trainerInfo?.photoUrl).toBe('https://cdn.marianatek.com/priya.jpg');
+    expect(power.intensity).toBe(7);
+    expect(power.price).toBe(28);
+    expect(power.bookingUrl).toBe('https://yyoga.ca/book-a-class/?studio=downtown-flow&class=90001');
+    expect(power.realTimeAvailability).toBe(6);
+    expect(power.bookingStatus).toBe('open');
+    expect(power.tags).toEqual(expect.arrayContaining(['yoga', 'hot', 'power', 'room-studio a']));
+    expect(power.taxonomy?.style).toContainEqual({ value: 'hot', confidence: 1 });
+
+    expect(yin.intensity).toBe(2);
+    expect(yin.bookingStatus).toBe('waitlist');
+  });
+
+  it('should report unknown locations', async () => {
+    const result = await provider.scrapeClasses({ location: 'burnaby' });
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toMatch(/No Mariana Tek locations found/);
+  });
+});
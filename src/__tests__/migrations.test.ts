@@ -0,0 +1,137 @@
+import Database from 'better-sqlite3';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DatabaseManager } from '../core/Database.js';
+import { Migrator } from '../core/Migrator.js';
+import { MIGRATIONS } from '../core/migrations/index.js';
+
+function columns(db: Database.Database, table: string): string[] {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as any[]).map(col => col.name).sort();
+}
+
+function schemaObjects(db: Database.Database): string[] {
+  return (db.prepare("SELECT type, name FROM sqlite_master WHERE name NOT LIKE 'sqlite_%' ORDER BY type, name").all() as any[])
+    .map(row => `${row.type} ${row.name}`);
+}
+
+describe('schema migrations', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'numina-migrations-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should upgrade a database created by the first release to the latest schema', () => {
+    const path = join(dir, 'baseline.db');
+    const legacy = new Database(path);
+    legacy.exec(readFileSync(join(process.cwd(), 'src/__tests__/fixtures/baseline-schema.sql'), 'utf-8'));
+    legacy.prepare("INSERT INTO scrape_runs (provider, start_time, status) VALUES ('equinox', '2025-01-05T10:00:00.000Z', 'completed')").run();
+    const insert = legacy.prepare(`
+      INSERT INTO scraped_classes (scrape_run_id, name, datetime, location_name, location_address, location_lat, location_long,
+        trainer, intensity, price, provider_id, provider_name, capacity, tags, booking_status)
+      VALUES (1, ?, '2030-01-06T15:00:00.000Z', 'Equinox Hudson Yards', '32 Hudson Yards', 40.75, -74, 'Maya', 7, 0, ?, 'equinox', 20, '[]', 'open')
+    `);
+    insert.run('Spin', 'equinox-1');
+    insert.run('Spin', 'equinox-2'); // Stored twice by the old insert-only scrapes
+    insert.run('Yoga', 'equinox-3');
+    legacy.close();
+
+    const db = new DatabaseManager(path);
+    expect(db.getSchemaVersion()).toBe(MIGRATIONS.length);
+    expect(db.getMigrationStatus().every(s => s.appliedAt)).toBe(true);
+
+    const stored = db.getUnuploadedClasses();
+    expect(stored.map(c => [c.name, c.providerId])).toEqual([['Spin', 'equinox-2'], ['Yoga', 'equinox-3']]);
+    expect(stored[0]).toMatchObject({ scheduleStatus: 'active', bookingStatus: 'open', missedScrapes: 0 });
+    db.close();
+
+    // The upgraded database has exactly the tables, columns and indexes of a new one
+    const upgraded = new Database(path);
+    const fresh = new Database(':memory:');
+    new Migrator(fresh).migrate();
+    expect(schemaObjects(upgraded)).toEqual(schemaObjects(fresh));
+    for (const table of ['providers', 'scrape_runs', 'scraped_classes']) {
+      expect(columns(upgraded, table)).toEqual(columns(fresh, table));
+    }
+    upgraded.close();
+    fresh.close();
+  });
+
+  it('should move the history of collapsed duplicates to the class that is kept', () => {
+    const raw = new Database(join(dir, 'history.db'));
+    new Migrator(raw).migrate(5);
+    raw.prepare("INSERT INTO scrape_runs (provider, start_time, status) VALUES ('equinox', '2025-01-05T10:00:00.000Z', 'completed')").run();
+    const insert = raw.prepare(`
+      INSERT INTO scraped_classes (scrape_run_id, name, datetime, location_name, location_address, location_lat, location_long,
+        trainer, intensity, price, provider_id, provider_name, capacity, tags)
+      VALUES (1, 'Spin', '2030-01-06T15:00:00.000Z', 'Equinox Hudson Yards', '32 Hudson Yards', 40.75, -74, 'Maya', 7, 0, ?, 'equinox', 20, '[]')
+    `);
+    const loser = Number(insert.run('equinox-1').lastInsertRowid);
+    const kept = Number(insert.run('equinox-2').lastInsertRowid);
+    raw.prepare("INSERT INTO class_changes (class_id, scrape_run_id, changed_fields, previous_values) VALUES (?, 1, '[\"trainer\"]', '{}')").run(loser);
+    const snapshot = raw.prepare(`
+      INSERT INTO class_availability_snapshots (class_id, scrape_run_id, observed_at, spots_left, capacity, hours_before_start)
+      VALUES (?, 1, '2025-01-05T10:00:00.000Z', ?, 20, 24)
+    `);
+    snapshot.run(loser, 8);
+    snapshot.run(kept, 5);
+
+    new Migrator(raw).migrate();
+
+    expect(raw.prepare('SELECT id FROM scraped_classes').all()).toEqual([{ id: kept }]);
+    for (const table of ['class_changes', 'class_availability_snapshots']) {
+      const orphans = raw.prepare(`SELECT COUNT(*) AS count FROM ${table} WHERE class_id NOT IN (SELECT id FROM scraped_classes)`).get() as any;
+      expect(orphans.count).toBe(0);
+    }
+    expect(raw.prepare('SELECT class_id FROM class_changes').all()).toEqual([{ class_id: kept }]);
+    expect(raw.prepare('SELECT spots_left FROM class_availability_snapshots WHERE class_id = ? ORDER BY spots_left').all(kept))
+      .toEqual([{ spots_left: 5 }, { spots_left: 8 }]);
+    raw.close();
+  });
+
+  it('should report pending migrations and apply them up to a target version', () => {
+    const path = join(dir, 'new.db');
+    const db = new DatabaseManager(path, { migrate: false });
+
+    expect(db.getSchemaVersion()).toBe(0);
+    expect(db.getMigrationStatus()[0]).toEqual({ version: 1, name: 'initial_schema', appliedAt: undefined });
+
+    expect(db.migrate(3).map(m => m.version)).toEqual([1, 2, 3]);
+    expect(db.getMigrationStatus().filter(s => !s.appliedAt)).toHaveLength(MIGRATIONS.length - 3);
+    expect(db.migrate().length).toBe(MIGRATIONS.length - 3);
+    expect(db.migrate()).toEqual([]);
+    db.close();
+  });
+
+  it('should roll back a failing migration and refuse databases from a newer version', () => {
+    const raw = new Database(':memory:');
+    const migrator = new Migrator(raw, [
+      { version: 1, name: 'widgets', up: db => db.exec('CREATE TABLE widgets (id INTEGER PRIMARY KEY)') },
+      {
+        version: 2,
+        name: 'rename_widget_column',
+        up: db => {
+          db.exec('ALTER TABLE widgets ADD COLUMN label TEXT');
+          db.exec('ALTER TABLE widgets RENAME COLUMN missing TO title');
+        }
+      }
+    ]);
+
+    expect(() => migrator.migrate()).toThrow(/no such column/);
+    expect(migrator.getCurrentVersion()).toBe(1);
+    expect(columns(raw, 'widgets')).toEqual(['id']);
+
+    raw.prepare("INSERT INTO schema_migrations (version, name, applied_at) VALUES (3, 'from_the_future', '2030-01-01')").run();
+    expect(() => migrator.migrate()).toThrow(/does not know \(3 from_the_future\)/);
+    expect(() => new Migrator(raw, [
+      { version: 1, name: 'a', up: () => {} },
+      { version: 1, name: 'b', up: () => {} }
+    ])).toThrow('Duplicate migration version 1');
+    raw.close();
+  });
+});
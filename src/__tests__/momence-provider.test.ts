@@ -0,0 +1,89 @@
+import { join } from 'path';
+import { MomenceProvider } from '../providers/MomenceProvider.js';
+import { ChromeManager } from '../core/ChromeManager.js';
+import { FixtureStore } from '../core/FixtureStore.js';
+import { HttpClient } from '../core/HttpClient.js';
+import { createFallbackKey } from '../utils/classIdentity.js';
+
+describe('MomenceProvider (replayed fixtures)', () => {
+  let provider: MomenceProvider;
+
+  beforeEach(() => {
+    const httpClient = new HttpClient();
+    httpClient.useFixtures(new FixtureStore(join(process.cwd(), 'src/__tests__/fixtures/momence'), 'replay'));
+
+    provider = new MomenceProvider(new ChromeManager(), {
+      enabled: true,
+      baseUrl: 'https://momence.com',
+      pageSize: 2,
+      hosts: [{
+        hostId: '13752',
+        name: 'Sky Ting Chinatown',
+        address: '17 Allen St, New York, NY 10002',
+        lat: 40.7153,
+        long: -73.9918,
+        timezone: 'America/New_York',
+        tags: ['yoga']
+      }]
+    });
+    provider.setHttpClient(httpClient);
+  });
+
+  it('should page through sessions and keep those in the window', async () => {
+    const result = await provider.scrapeClasses({
+      startDate: new Date('2025-01-06T00:00:00.000Z'),
+      endDate: new Date('2025-01-08T00:00:00.000Z')
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.classes.map(c => c.providerId)).toEqual([
+      'momence-13752-5001',
+      'momence-13752-5002',
+      `momence-${createFallbackKey('Sky Ting Chinatown', new Date('2025-01-07T01:00:00.000Z'), 'Candlelight Yin')}`
+    ]);
+  });
+
+  it('should key sessions listed without an ID on their fallback key', async () => {
+    const result = await provider.scrapeClasses({
+      startDate: new Date('2025-01-06T00:00:00.000Z'),
+      endDate: new Date('2025-01-08T00:00:00.000Z')
+    });
+    const candlelight = result.classes.find(c => c.name === 'Candlelight Yin')!;
+
+    expect(candlelight.nativeId).toBeUndefined();
+    expect(candlelight.providerId).not.toContain('undefined');
+    expect(candlelight.bookingUrl).toBe('https://momence.com');
+
+    // A null spotsLeft is unknown, not zero
+    expect(candlelight.realTimeAvailability).toBe(15);
+    expect(candlelight.bookingStatus).toBe('open');
+  });
+
+  it('should transform sessions', async () => {
+    const result = await provider.scrapeClasses({
+      startDate: new Date('2025-01-06T00:00:00.000Z'),
+      endDate: new Date('2025-01-08T00:00:00.000Z')
+    });
+    const [flow, soundBath] = result.classes;
+
+    expect(flow.description).toBe('Gentle vinyasa practice');
+    expect(flow.trainer).toBe('Ana Ruiz');
+    expect(flow.price).toBe(32);
+    expect(flow.pricingDetails).toEqual({ dropIn: 32 });
+    expect(flow.realTimeAvailability).toBe(15);
+    expect(flow.bookingStatus).toBe('open');
+    expect(flow.location).toEqual({
+      name: 'Sky Ting Chinatown',
+      address: '17 Allen St, New York, NY 10002',
+      lat: 40.7153,
+      long: -73.9918,
+      timezone: 'America/New_York'
+    });
+    expect(flow.datetime.toISOString()).toBe('2025-01-06T13:00:00.000Z');
+    expect(flow.localDatetime).toBe('2025-01-06T08:00:00');
+
+    expect(soundBath.trainer).toBe('Jo Park');
+    expect(soundBath.bookingUrl).toBe('https://momence.com/s/5002');
+    expect(soundBath.bookingStatus).toBe('waitlist');
+  });
+});
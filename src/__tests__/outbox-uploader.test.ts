@@ -0,0 +1,235 @@
+import { DatabaseManager } from '../core/Database.js';
+import { BackendClient, ChangesetResult, FingerprintCheck, SyncOperation, UploadItemResult } from '../core/BackendClient.js';
+import { OutboxUploader } from '../core/OutboxUploader.js';
+import { FitnessClass, Instructor } from '../models/FitnessClass.js';
+import { makeClass } from '../testing/factories.js';
+
+// In-memory backend holding a fingerprint per class key. It rejects the classes in `rejecting`, fails every request
+// while `down` is set, and answers stale to changesets based on an old cursor.
+class RecordingBackend extends BackendClient {
+  changesets: SyncOperation[][] = [];
+  stored = new Map<string, string>();
+  version = 0;
+  rejecting = new Map<string, string>();
+  down = false;
+
+  constructor() {
+    super({ baseUrl: 'http://backend.test' });
+  }
+
+  // Provider IDs of the classes created or updated by each changeset that had any
+  get uploads(): string[][] {
+    return this.changesets
+      .map(operations => operations.filter(op => op.class).map(op => op.class!.providerId))
+      .filter(providerIds => providerIds.length > 0);
+  }
+
+  get deletes(): Array<{ classKey: string; reason?: string }> {
+    return this.changesets.flat().filter(op => op.op === 'delete').map(op => ({ classKey: op.classKey, reason: op.reason }));
+  }
+
+  // Another writer changing the backend
+  tamper(change: (stored: Map<string, string>) => void): void {
+    change(this.stored);
+    this.version++;
+  }
+
+  async sendChangeset(operations: SyncOperation[], _instructors: Instructor[] = [], baseCursor?: string): Promise<ChangesetResult> {
+    const failAll = (stale: boolean, error: string): ChangesetResult => ({
+      success: false,
+      stale,
+      errors: [error],
+      items: operations.map(op => ({ classKey: op.classKey, classId: op.classId, status: 'failed', error }))
+    });
+    if (this.down) {
+      return failAll(false, 'HTTP 503: unavailable');
+    }
+    if (baseCursor !== undefined && baseCursor !== String(this.version)) {
+      return failAll(true, `Backend changed since cursor ${baseCursor}`);
+    }
+
+    this.changesets.push(operations);
+    const items = operations.map((op): UploadItemResult => {
+      const error = op.class && this.rejecting.get(op.class.providerId);
+      if (error) {
+        return { classKey: op.classKey, classId: op.classId, status: 'rejected', error };
+      }
+      if (op.op === 'delete') {
+        this.stored.delete(op.classKey);
+      } else {
+        this.stored.set(op.classKey, op.fingerprint!);
+      }
+      return { classKey: op.classKey, classId: op.classId, status: 'accepted' };
+    });
+    this.version++;
+    return { success: items.every(item => item.status === 'accepted'), stale: false, cursor: String(this.version), items, errors: [] };
+  }
+
+  async checkClasses(classKeys: string[]): Promise<FingerprintCheck> {
+    return {
+      cursor: String(this.version),
+      fingerprints: new Map(classKeys.filter(key => this.stored.has(key)).map(key => [key, this.stored.get(key)!]))
+    };
+  }
+}
+
+// Classes the backend knows by their native ID
+function syncedClass(providerId: string, overrides: Partial<FitnessClass> = {}): FitnessClass {
+  return makeClass(providerId, { nativeId: providerId, ...overrides });
+}
+
+describe('OutboxUploader', () => {
+  let db: DatabaseManager;
+  let backend: RecordingBackend;
+  let runId: number;
+
+  beforeEach(() => {
+    db = new DatabaseManager(':memory:');
+    backend = new RecordingBackend();
+    runId = db.createScrapeRun('studio');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should deliver each changed class once, with its latest state', async () => {
+    const uploader = new OutboxUploader(db, backend);
+    const { id } = db.upsertScrapedClass(runId, syncedClass('a'));
+    db.upsertScrapedClass(runId, syncedClass('a', { price: 30 }));
+    db.upsertScrapedClass(runId, syncedClass('b'));
+
+    // Concurrent deliveries wait for each other instead of sending the same entries twice
+    const [first, second] = await Promise.all([uploader.deliver(), uploader.deliver()]);
+
+    expect(first).toMatchObject({ uploaded: 2, failed: 0 });
+    expect(second).toMatchObject({ uploaded: 0, failed: 0 });
+    expect(backend.uploads).toEqual([['a', 'b']]);
+    expect(db.getOutboxEntries()).toEqual([]);
+    expect(db.getClassesByIds([id])[0]).toMatchObject({ price: 30, uploadedToBackend: true });
+
+    db.upsertScrapedClass(runId, syncedClass('a', { price: 30 }));
+    expect(await uploader.deliver()).toMatchObject({ uploaded: 0 });
+  });
+
+  it('should keep failed deliveries with their error and back off until they run out of attempts', async () => {
+    const uploader = new OutboxUploader(db, backend, { retryDelayMs: 60 * 1000, maxAttempts: 2 });
+    db.upsertScrapedClass(runId, syncedClass('a'));
+    backend.down = true;
+
+    expect(await uploader.deliver()).toMatchObject({ uploaded: 0, failed: 1 });
+    const [entry] = db.getOutboxEntries();
+    expect(entry).toMatchObject({ action: 'upsert', status: 'pending', attempts: 1, lastError: 'HTTP 503: unavailable' });
+    expect(new Date(entry.nextAttemptAt).getTime()).toBeGreaterThan(Date.now() + 50 * 1000);
+
+    // Not due yet
+    expect(await uploader.deliver()).toMatchObject({ failed: 0 });
+
+    // Second attempt once the delay has passed
+    db.failOutboxEntries([{ id: entry.id, retryAt: new Date(0) }], 'HTTP 503: unavailable');
+    expect(await uploader.deliver()).toMatchObject({ failed: 1 });
+    expect(db.getOutboxStats()).toMatchObject({ pending: 0, failed: 1, lastError: 'HTTP 503: unavailable' });
+
+    backend.down = false;
+    expect(db.retryFailedOutboxEntries()).toBe(1);
+    expect(await uploader.deliver()).toMatchObject({ uploaded: 1 });
+    expect(backend.uploads).toEqual([['a']]);
+  });
+
+  it('should send cancellations and retractions, and upload duplicates through their canonical class', async () => {
+    const uploader = new OutboxUploader(db, backend);
+    const { id: a } = db.upsertScrapedClass(runId, syncedClass('a'));
+    const { id: b } = db.upsertScrapedClass(runId, syncedClass('b'));
+    await uploader.deliver();
+
+    // b is cancelled before a queued upload of it was delivered, then turns out to duplicate a
+    db.markClassesForReupload([b]);
+    db.markClassesCancelled([b]);
+    expect(await uploader.deliver()).toMatchObject({ uploaded: 0, cancelled: 1, skipped: 1 });
+    expect(db.getUnnotifiedCancellations()).toEqual([]);
+
+    db.upsertScrapedClass(runId, syncedClass('b'));
+    db.setCanonicalClass(b, a);
+    db.enqueueUploads([b], 'retract');
+    expect(await uploader.deliver()).toMatchObject({ uploaded: 1, retracted: 1 });
+
+    expect(backend.deletes).toEqual([
+      { classKey: 'studio:id:b', reason: 'removed_from_schedule' },
+      { classKey: 'studio:id:b', reason: 'duplicate' }
+    ]);
+    expect(backend.uploads).toEqual([['a', 'b'], ['a']]);
+  });
+
+  it('should store rejected classes with the backend error and complete their entries', async () => {
+    const uploader = new OutboxUploader(db, backend);
+    const { id: a } = db.upsertScrapedClass(runId, syncedClass('a'));
+    const { id: b } = db.upsertScrapedClass(runId, syncedClass('b'));
+    backend.rejecting.set('b', 'capacity: must be at least 1');
+
+    expect(await uploader.deliver()).toMatchObject({ uploaded: 1, rejected: 1, failed: 0 });
+    expect(db.getOutboxEntries()).toEqual([]);
+    expect(db.getClassesByIds([a])[0]).toMatchObject({ uploadedToBackend: true, rejectedAt: undefined });
+    expect(db.getRejectedClasses().map(c => [c.id, c.uploadedToBackend, c.rejectionError]))
+      .toEqual([[b, false, 'capacity: must be at least 1']]);
+
+    backend.rejecting.clear();
+    db.enqueueUploads([b], 'upsert');
+    expect(await uploader.deliver()).toMatchObject({ uploaded: 1, rejected: 0 });
+    expect(db.getRejectedClassCount()).toBe(0);
+    expect(backend.uploads).toEqual([['a', 'b'], ['b']]);
+  });
+
+  it('should send only what changed since the last sync', async () => {
+    const uploader = new OutboxUploader(db, backend);
+    const { id: a } = db.upsertScrapedClass(runId, syncedClass('a'));
+    const { id: b } = db.upsertScrapedClass(runId, syncedClass('b'));
+    await uploader.deliver();
+    expect(backend.changesets[0].map(op => op.op)).toEqual(['create', 'create']);
+
+    // Queued again without a change: the backend already has both
+    db.markClassesForReupload([a, b]);
+    expect(await uploader.deliver()).toMatchObject({ uploaded: 0, unchanged: 2 });
+    expect(backend.changesets).toHaveLength(1);
+
+    db.upsertScrapedClass(runId, syncedClass('a', { price: 30 }));
+    db.markClassesCancelled([b]);
+    expect(await uploader.deliver()).toMatchObject({ uploaded: 1, cancelled: 1 });
+    const [deletion, update] = backend.changesets[1];
+    expect(deletion).toEqual({ op: 'delete', classKey: 'studio:id:b', classId: b, reason: 'removed_from_schedule' });
+    expect(update).toMatchObject({ op: 'update', classKey: 'studio:id:a', previousFingerprint: backend.changesets[0][0].fingerprint });
+    expect(update.class).toMatchObject({ price: 30 });
+    expect(update.class).not.toHaveProperty('lastSeen');
+    expect(db.getSyncStats()).toMatchObject({ cursor: '2', synced: 1 });
+  });
+
+  it('should reconcile with the backend when it changed since the last changeset', async () => {
+    const uploader = new OutboxUploader(db, backend);
+    db.upsertScrapedClass(runId, syncedClass('a'));
+    db.upsertScrapedClass(runId, syncedClass('b'));
+    const { id: c } = db.upsertScrapedClass(runId, syncedClass('c'));
+    await uploader.deliver();
+
+    // Another writer drops b and edits c while a changes here
+    backend.tamper(stored => {
+      stored.delete('studio:id:b');
+      stored.set('studio:id:c', 'edited');
+    });
+    db.upsertScrapedClass(runId, syncedClass('a', { price: 30 }));
+
+    expect(await uploader.deliver()).toMatchObject({ uploaded: 3, failed: 0 });
+    expect(backend.changesets[1].map(op => [op.op, op.classKey, op.previousFingerprint])).toEqual([
+      ['update', 'studio:id:a', backend.changesets[0][0].fingerprint],
+      ['create', 'studio:id:b', undefined],
+      ['update', 'studio:id:c', 'edited']
+    ]);
+
+    // A backend restored from a backup has a class again that was cancelled since
+    db.markClassesCancelled([c]);
+    await uploader.deliver();
+    const restored = new Map(backend.stored);
+    backend.tamper(stored => stored.set('studio:id:c', restored.get('studio:id:a')!));
+    expect(await uploader.reconcile()).toEqual({ checked: 3, queued: 1 });
+    expect(await uploader.deliver()).toMatchObject({ cancelled: 1 });
+    expect(backend.stored.has('studio:id:c')).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+import { ProviderRegistry } from '../providers/ProviderRegistry.js';
+import { BaseProvider, ProviderConfig } from '../providers/BaseProvider.js';
+import { ScrapeOptions, ScrapeResult } from '../models/FitnessClass.js';
+import { ChromeManager } from '../core/ChromeManager.js';
+
+class StubProvider extends BaseProvider {
+  readonly name: string;
+
+  constructor(chromeManager: ChromeManager, config: ProviderConfig) {
+    super(chromeManager, config);
+    this.name = config.name || 'stub';
+  }
+
+  async scrapeClasses(_options: ScrapeOptions): Promise<ScrapeResult> {
+    return this.createScrapeResult([]);
+  }
+}
+
+describe('ProviderRegistry', () => {
+  const chromeManager = new ChromeManager();
+  let registry: ProviderRegistry;
+
+  beforeEach(() => {
+    registry = new ProviderRegistry();
+    registry.register('stub', StubProvider, [{ enabled: true, baseUrl: 'https://stub.example.com' }]);
+  });
+
+  it('should use default instances when no providers are configured', () => {
+    const providers = registry.createAll(chromeManager, registry.resolveInstances(undefined));
+
+    expect(Array.from(providers.keys())).toEqual(['stub']);
+  });
+
+  it('should create several named instances of one type', () => {
+    const instances = registry.resolveInstances([
+      { type: 'stub', name: 'first', baseUrl: 'https://a.example.com' },
+      { type: 'stub', name: 'second', baseUrl: 'https://b.example.com', enabled: false }
+    ]);
+    const providers = registry.createAll(chromeManager, instances);
+
+    expect(Array.from(providers.keys())).toEqual(['first', 'second']);
+    expect(providers.get('first')?.isEnabled()).toBe(true);
+    expect(providers.get('second')?.isEnabled()).toBe(false);
+  });
+
+  it('should accept the object form keyed by provider name', () => {
+    const instances = registry.resolveInstances({
+      stub: { enabled: true, baseUrl: 'https://stub.example.com' },
+      other: [{ type: 'stub', name: 'other', baseUrl: 'https://other.example.com' }]
+    });
+
+    expect(instances.map(instance => instance.name)).toEqual(['stub', 'other']);
+  });
+
+  it('should reject unknown provider types', () => {
+    expect(() => registry.resolveInstances([{ type: 'missing', baseUrl: 'https://x.example.com' }]))
+      .toThrow(/Unknown provider type.*missing.*Registered types: stub/);
+  });
+
+  it('should reject duplicate instance names', () => {
+    const instances = registry.resolveInstances([
+      { type: 'stub', baseUrl: 'https://a.example.com' },
+      { type: 'stub', baseUrl: 'https://b.example.com' }
+    ]);
+
+    expect(() => registry.createAll(chromeManager, instances)).toThrow(/Duplicate provider name "stub"/);
+  });
+});
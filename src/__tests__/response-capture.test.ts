@@ -0,0 +1,61 @@
+import { EventEmitter } from 'events';
+import { ResponseCapture } from '../core/ResponseCapture.js';
+
+function fakeResponse(url: string, body: string, options: { status?: number; method?: string; postData?: string } = {}): any {
+  return {
+    url: () => url,
+    status: () => options.status ?? 200,
+    text: async () => body,
+    request: () => ({
+      method: () => options.method ?? 'GET',
+      postData: () => options.postData
+    })
+  };
+}
+
+describe('ResponseCapture', () => {
+  let page: EventEmitter;
+
+  beforeEach(() => {
+    page = new EventEmitter();
+  });
+
+  it('should capture JSON bodies of matching responses only', async () => {
+    const capture = new ResponseCapture(page as any, ['/api/classes', /schedule\.json$/]);
+
+    page.emit('response', fakeResponse('https://site.example.com/api/classes?page=1', '{"classes":[1,2]}'));
+    page.emit('response', fakeResponse('https://cdn.example.com/schedule.json', '[]'));
+    page.emit('response', fakeResponse('https://site.example.com/analytics', '{"ignored":true}'));
+    page.emit('response', fakeResponse('https://site.example.com/api/classes/page', '<html></html>'));
+
+    const responses = await capture.getResponses();
+
+    expect(responses.map(response => response.url)).toEqual([
+      'https://site.example.com/api/classes?page=1',
+      'https://cdn.example.com/schedule.json'
+    ]);
+    expect(responses[0].data).toEqual({ classes: [1, 2] });
+    expect(await capture.getResponses(/schedule/)).toHaveLength(1);
+  });
+
+  it('should resolve waiters when a matching response arrives', async () => {
+    const capture = new ResponseCapture(page as any, ['/api/']);
+    const waiting = capture.waitForResponse('/api/sessions', 1000);
+
+    page.emit('response', fakeResponse('https://site.example.com/api/studios', '{}'));
+    page.emit('response', fakeResponse('https://site.example.com/api/sessions', '{"id":7}', { method: 'POST', postData: '{"day":1}' }));
+
+    const response = await waiting;
+    expect(response.data).toEqual({ id: 7 });
+    expect(response.requestBody).toBe('{"day":1}');
+  });
+
+  it('should stop capturing after stop()', async () => {
+    const capture = new ResponseCapture(page as any, ['/api/']);
+    capture.stop();
+
+    page.emit('response', fakeResponse('https://site.example.com/api/classes', '{}'));
+
+    expect(await capture.getResponses()).toEqual([]);
+  });
+});
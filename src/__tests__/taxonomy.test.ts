@@ -0,0 +1,51 @@
+import { classifyClass, taxonomyTags } from '../utils/taxonomy.js';
+import { parseIntensity, parseTags } from '../utils/validation.js';
+
+describe('taxonomy', () => {
+  it('should match whole words only', () => {
+    expect(parseTags('CorePower Sculpt')).toEqual(['strength', 'sculpt']);
+    expect(parseTags('Core and abs')).toEqual(['strength', 'core']);
+    expect(parseTags('Lift Labs')).toEqual(['strength']);
+    expect(parseTags('Photography walk')).toEqual([]);
+  });
+
+  it('should trust mapped provider categories over names and descriptions', () => {
+    const { taxonomy } = classifyClass({
+      name: 'Athletic Conditioning',
+      description: 'Kettlebells and sled pushes',
+      categories: ['Athletic Training', 'Beginner'],
+      categorySource: 'equinox'
+    });
+
+    expect(taxonomy.modality).toEqual([
+      { value: 'strength', confidence: 1 },
+      { value: 'cardio', confidence: 0.9 }
+    ]);
+    expect(taxonomy.style).toEqual([{ value: 'functional', confidence: 1 }]);
+    expect(taxonomy.level).toEqual({ value: 'beginner', confidence: 0.8 });
+    expect(taxonomy.equipment).toEqual([{ value: 'kettlebell', confidence: 0.5 }]);
+    expect(taxonomyTags(taxonomy, 0.8)).toEqual(['strength', 'cardio', 'functional', 'beginner']);
+  });
+
+  it('should apply category mappings from provider config', () => {
+    const { taxonomy } = classifyClass({
+      name: 'The Burn',
+      categories: ['The Burn'],
+      categoryMap: { 'the burn': ['pilates', 'reformer'] }
+    });
+
+    expect(taxonomyTags(taxonomy)).toEqual(['pilates', 'reformer']);
+  });
+
+  it('should derive intensity from modality, style and level', () => {
+    expect(classifyClass({ name: 'Yin Yoga' }).intensity).toBe(2);
+    expect(classifyClass({ name: 'Hot Power Flow', categories: ['Yoga'] }).intensity).toBe(7);
+    expect(classifyClass({ name: 'Spin', categories: ['Advanced'] }).intensity).toBe(8);
+    expect(classifyClass({ name: 'Beginner Barre' }).intensity).toBe(3);
+
+    // Level words alone keep their old 3 / 5 / 8 scale, and unknown classes stay in the middle with low confidence
+    expect(parseIntensity('Advanced')).toBe(8);
+    expect(parseIntensity('Beginner')).toBe(3);
+    expect(classifyClass({ name: 'Open Gym' })).toMatchObject({ intensity: 5, taxonomy: { intensityConfidence: 0.2 } });
+  });
+});
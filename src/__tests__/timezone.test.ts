@@ -0,0 +1,100 @@
+import {
+  formatLocalDateTime,
+  getTimeZoneOffset,
+  isValidTimeZone,
+  parseInTimeZone
+} from '../utils/timezone.js';
+import { BaseProvider } from '../providers/BaseProvider.js';
+import { ChromeManager } from '../core/ChromeManager.js';
+import { FitnessClass, ScrapeOptions, ScrapeResult } from '../models/FitnessClass.js';
+import { createFallbackKey } from '../utils/classIdentity.js';
+
+class TextScheduleProvider extends BaseProvider {
+  readonly name = 'text';
+  venueTimeZone?: string = 'America/Vancouver';
+
+  async scrapeClasses(options: ScrapeOptions = {}): Promise<ScrapeResult> {
+    const datetime = this.parseDateTime('January 6, 2025', '6:00 AM')!;
+    const fitnessClass: FitnessClass = {
+      name: 'Sunrise Flow',
+      description: 'Early class',
+      datetime,
+      location: { name: 'Kitsilano', address: '2 Beach Ave', lat: 49.27, long: -123.15, timezone: this.venueTimeZone },
+      trainer: 'Staff',
+      intensity: 4,
+      price: 0,
+      bookingUrl: 'https://example.com',
+      providerId: this.createProviderId(undefined, 'Kitsilano', datetime, 'Sunrise Flow'),
+      providerName: this.name,
+      capacity: 20,
+      tags: []
+    };
+    return this.createScrapeResult(this.filterAndValidate([fitnessClass], options));
+  }
+}
+
+describe('timezone utilities', () => {
+  it('should parse wall-clock times in the venue timezone regardless of the machine timezone', () => {
+    expect(parseInTimeZone('2025-01-06T06:00', 'America/Vancouver')?.toISOString()).toBe('2025-01-06T14:00:00.000Z');
+    expect(parseInTimeZone('January 6, 2025 6:00 PM', 'America/New_York')?.toISOString()).toBe('2025-01-06T23:00:00.000Z');
+    expect(parseInTimeZone('2025-07-06 06:00', 'America/Vancouver')?.toISOString()).toBe('2025-07-06T13:00:00.000Z');
+    expect(parseInTimeZone('2025-01-06', 'Asia/Makassar')?.toISOString()).toBe('2025-01-05T16:00:00.000Z');
+  });
+
+  it('should keep explicit offsets', () => {
+    expect(parseInTimeZone('2025-01-06T06:00:00Z', 'America/Vancouver')?.toISOString()).toBe('2025-01-06T06:00:00.000Z');
+    expect(parseInTimeZone('2025-01-06T06:00:00-05:00', 'America/Vancouver')?.toISOString()).toBe('2025-01-06T11:00:00.000Z');
+    expect(parseInTimeZone('not a date', 'America/Vancouver')).toBeNull();
+  });
+
+  it('should handle DST transitions', () => {
+    // 02:30 does not exist on 2025-03-09 in Vancouver; it resolves past the jump
+    expect(parseInTimeZone('2025-03-09T02:30', 'America/Vancouver')?.toISOString()).toBe('2025-03-09T10:30:00.000Z');
+    expect(getTimeZoneOffset(new Date('2025-03-09T09:59:00Z'), 'America/Vancouver')).toBe(-480);
+    expect(getTimeZoneOffset(new Date('2025-03-09T10:00:00Z'), 'America/Vancouver')).toBe(-420);
+    expect(formatLocalDateTime(new Date('2025-11-02T09:30:00Z'), 'America/Vancouver')).toBe('2025-11-02T01:30:00');
+  });
+
+  it('should validate timezones', () => {
+    expect(isValidTimeZone('America/Vancouver')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+
+  it('should re-read times parsed without a timezone in the venue timezone', async () => {
+    const provider = new TextScheduleProvider(new ChromeManager(), { enabled: true, baseUrl: 'https://example.com' });
+    const [fitnessClass] = (await provider.scrapeClasses()).classes;
+
+    expect(fitnessClass.location.timezone).toBe('America/Vancouver');
+    expect(fitnessClass.datetime.toISOString()).toBe('2025-01-06T14:00:00.000Z');
+    expect(fitnessClass.localDatetime).toBe('2025-01-06T06:00:00');
+    expect(fitnessClass.floatingTime).toBeUndefined();
+  });
+
+  it('should flag times it cannot place in a timezone instead of guessing one from the coordinates', async () => {
+    const provider = new TextScheduleProvider(new ChromeManager(), { enabled: true, baseUrl: 'https://example.com' });
+    provider.venueTimeZone = undefined;
+    const [fitnessClass] = (await provider.scrapeClasses()).classes;
+
+    expect(fitnessClass.location.timezone).toBeUndefined();
+    expect(fitnessClass.localDatetime).toBeUndefined();
+    expect(fitnessClass.floatingTime).toBe(true);
+    expect(fitnessClass.datetime.getTime()).toBe(new Date(2025, 0, 6, 6, 0).getTime());
+  });
+
+  it('should build fallback providerIds and filter dates from the start time in the venue timezone', async () => {
+    const provider = new TextScheduleProvider(new ChromeManager(), { enabled: true, baseUrl: 'https://example.com' });
+    const start = new Date('2025-01-06T14:00:00.000Z');
+    const result = await provider.scrapeClasses({
+      startDate: new Date('2025-01-06T13:30:00.000Z'),
+      endDate: new Date('2025-01-06T14:30:00.000Z')
+    });
+
+    expect(result.classes).toHaveLength(1);
+    expect(result.classes[0].providerId).toBe(`text-${createFallbackKey('Kitsilano', start, 'Sunrise Flow')}`);
+  });
+
+  it('should reject invalid configured timezones', () => {
+    expect(() => new TextScheduleProvider(new ChromeManager(), { enabled: true, baseUrl: 'https://example.com', timezone: 'Vancouver' }))
+      .toThrow(/Invalid timezone "Vancouver"/);
+  });
+});
@@ -0,0 +1,73 @@
+import { existsSync } from 'fs';
+import { join } from 'path';
+import puppeteer from 'puppeteer';
+import { TwentyFourHourFitnessProvider } from '../providers/TwentyFourHourFitnessProvider.js';
+import { ChromeManager } from '../core/ChromeManager.js';
+import { FixtureStore } from '../core/FixtureStore.js';
+import { Geocoder, StaticGeocoder, getGeocoders, setGeocoders } from '../utils/geocoding.js';
+
+// Chrome is looked up before the suite runs, so machines without it report these tests as skipped
+const describeWithChrome = existsSync(puppeteer.executablePath()) ? describe : describe.skip;
+
+// Replays recorded gym finder, gym and schedule pages in headless Chrome
+describeWithChrome('TwentyFourHourFitnessProvider (replayed fixtures)', () => {
+  const chromeManager = new ChromeManager({ headless: true });
+  const originalFetch = globalThis.fetch;
+  let originalGeocoders: Geocoder[];
+
+  beforeAll(async () => {
+    chromeManager.useFixtures(new FixtureStore(join(process.cwd(), 'src/__tests__/fixtures/24hourfitness'), 'replay'));
+    await chromeManager.initialize();
+
+    // The gym's address resolves from a known-venue fixture; anything else would need the network, which is disabled
+    originalGeocoders = getGeocoders();
+    setGeocoders([new StaticGeocoder({
+      '1732 Broadway, New York, NY 10019': { lat: 40.7651, long: -73.9822, timezone: 'America/New_York' }
+    })]);
+    globalThis.fetch = (async () => {
+      throw new Error('Network disabled in fixture tests');
+    }) as typeof fetch;
+  }, 60000);
+
+  afterAll(async () => {
+    globalThis.fetch = originalFetch;
+    setGeocoders(originalGeocoders);
+    await chromeManager.close();
+  });
+
+  it('should follow the gym finder to the schedule and extract classes', async () => {
+    const provider = new TwentyFourHourFitnessProvider(chromeManager, {
+      enabled: true,
+      baseUrl: 'https://www.24hourfitness.com'
+    });
+
+    const result = await provider.scrapeClasses({
+      location: 'New York, NY',
+      startDate: new Date('2025-01-06T05:00:00.000Z'),
+      endDate: new Date('2025-01-07T05:00:00.000Z')
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.classes.map(c => c.name)).toEqual(['Cycle Power', 'Yoga Stretch']);
+
+    const [cycle, stretch] = result.classes;
+    // 6:00 AM on the gym's clock in New York
+    expect(cycle.datetime).toEqual(new Date('2025-01-06T11:00:00.000Z'));
+    expect(cycle.localDatetime).toBe('2025-01-06T06:00:00');
+    expect(cycle.trainer).toBe('Chris Rowe');
+    expect(cycle.intensity).toBe(8);
+    expect(cycle.capacity).toBe(24);
+    expect(cycle.bookingUrl).toBe('https://www.24hourfitness.com/book/111');
+    expect(cycle.location).toEqual({
+      name: '24 Hour Fitness Broadway',
+      address: '1732 Broadway, New York, NY 10019',
+      lat: 40.7651,
+      long: -73.9822,
+      timezone: 'America/New_York'
+    });
+
+    expect(stretch.trainer).toBe('Instructor');
+    expect(stretch.intensity).toBe(4);
+    expect(stretch.description).toBe('Group fitness class');
+  }, 90000);
+});
@@ -0,0 +1,58 @@
+import { ChromeManager } from '../core/ChromeManager.js';
+import { DatabaseManager } from '../core/Database.js';
+import { formatValidationErrors, getValidationErrors } from '../utils/validation.js';
+import { TestProvider, makeClass } from '../testing/factories.js';
+
+describe('validation', () => {
+  it('should report every invalid field with its path', () => {
+    const errors = getValidationErrors(makeClass('studio-1', {
+      intensity: 12,
+      location: { name: 'Studio', address: '1 Main St', lat: 0, long: 0 },
+      photos: ['https://example.com/a.jpg', 'not a url'],
+      reviews: [{ rating: 6, date: new Date('2025-01-01') }],
+      pricingDetails: { packages: [{ name: '10 pack', price: 200, classes: 0 }] }
+    }));
+
+    expect(errors).toEqual([
+      { path: 'intensity', message: 'must be at most 10, got 12' },
+      { path: 'photos[1]', message: '"not a url" is not an http(s) URL' },
+      { path: 'pricingDetails.packages[0].classes', message: 'must be at least 1, got 0' },
+      { path: 'reviews[0].rating', message: 'must be at most 5, got 6' },
+      { path: 'location', message: 'is at 0,0 but not flagged unresolved' }
+    ]);
+    expect(formatValidationErrors(errors.slice(0, 2)))
+      .toBe('intensity: must be at most 10, got 12; photos[1]: "not a url" is not an http(s) URL');
+    expect(getValidationErrors(makeClass())).toEqual([]);
+  });
+
+  it('should skip cross-field checks on fields that already failed', () => {
+    expect(getValidationErrors(makeClass('studio-1', { datetime: 'soon' as any, endDatetime: new Date('2030-03-04T14:00:00.000Z') })))
+      .toEqual([{ path: 'datetime', message: 'is not a valid date' }]);
+    expect(getValidationErrors(makeClass('studio-1', { endDatetime: new Date('2030-03-04T14:00:00.000Z') })))
+      .toEqual([{ path: 'endDatetime', message: 'must be after datetime' }]);
+  });
+
+  it('should summarize rejected classes in the scrape result and store the summary with the run', () => {
+    const provider = new TestProvider(new ChromeManager(), { enabled: true, baseUrl: 'https://example.com' });
+    const result = provider.finish([
+      makeClass(),
+      makeClass('studio-2', { reviews: [{ rating: 0, date: new Date() }, { rating: 9, date: new Date() }] }),
+      makeClass('studio-3', { name: 'No Trainer', trainer: '', reviews: [{ rating: 7, date: new Date() }] })
+    ]);
+
+    expect(result.classes).toHaveLength(1);
+    expect(result.validation).toMatchObject({
+      checked: 3,
+      rejected: 2,
+      errorsByPath: { 'reviews[].rating': 2, trainer: 1 }
+    });
+    expect(result.validation!.samples.map(s => s.name)).toEqual(['Power Yoga', 'No Trainer']);
+    expect(provider.finish([]).validation).toMatchObject({ checked: 0, rejected: 0 });
+
+    const db = new DatabaseManager(':memory:');
+    const runId = db.createScrapeRun('schedule');
+    db.completeScrapeRun(runId, true, 1, 0, undefined, result.validation);
+    expect(db.getRecentScrapeRuns(1)[0]).toMatchObject({ provider: 'schedule', classesFound: 1, validation: result.validation });
+    db.close();
+  });
+});
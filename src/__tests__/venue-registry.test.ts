@@ -0,0 +1,85 @@
+import { DatabaseManager } from '../core/Database.js';
+import { VenueRegistry, nameSimilarity } from '../core/VenueRegistry.js';
+import { Location } from '../models/FitnessClass.js';
+import { KNOWN_VENUES } from '../providers/knownVenues.js';
+import { makeClass } from '../testing/factories.js';
+
+describe('VenueRegistry', () => {
+  let db: DatabaseManager;
+  let registry: VenueRegistry;
+
+  const tribeca: Location = { name: "Barry's Bootcamp Tribeca", address: '125 Chambers Street, New York, NY 10007', lat: 40.7149, long: -74.0089 };
+
+  beforeEach(() => {
+    db = new DatabaseManager(':memory:');
+    registry = new VenueRegistry(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should score names that differ only in spelling as similar', () => {
+    expect(nameSimilarity("Barry's Bootcamp", 'Barrys Boot Camp')).toBe(1);
+    expect(nameSimilarity('Equinox West Georgia - Studio 1', 'Equinox West Georgia')).toBeGreaterThan(0.6);
+    expect(nameSimilarity('SoulCycle Tribeca', 'Orangetheory Fitness Tribeca')).toBeLessThan(0.6);
+  });
+
+  it('should match spellings of the same studio to one venue', () => {
+    const venueId = registry.resolve(tribeca).venueId;
+
+    // Nearby with a similar name, and the same street address spelled differently
+    expect(registry.resolve({ name: 'Barrys Bootcamp - Tribeca', address: '125 Chambers St', lat: 40.7150, long: -74.0090 }).venueId).toBe(venueId);
+    expect(registry.resolve({ name: "Barry's Tribeca", address: '125 chambers st., new york ny 10007', lat: 0, long: 0, unresolved: true }).venueId).toBe(venueId);
+
+    // A different studio next door, and the same chain in another neighborhood
+    expect(registry.resolve({ name: 'SoulCycle Tribeca', address: '103 Warren Street, New York, NY', lat: 40.7152, long: -74.0101 }).venueId).not.toBe(venueId);
+    expect(registry.resolve({ name: "Barry's Bootcamp Tribeca", address: '1 Main St, Brooklyn, NY', lat: 40.7033, long: -73.9881 }).venueId).not.toBe(venueId);
+
+    expect(db.getAllVenues()).toHaveLength(3);
+    expect(db.getVenueAliases(venueId!)).toHaveLength(3);
+  });
+
+  it('should place unresolved locations at the coordinates of their known venue', () => {
+    registry.seed(KNOWN_VENUES);
+
+    const location = registry.resolve({ name: 'Equinox West Georgia St', address: 'Vancouver, BC', lat: 0, long: 0, unresolved: true, venueId: 'equinox-west-georgia' });
+    expect(location).toEqual({
+      name: 'Equinox West Georgia St',
+      address: 'Vancouver, BC',
+      lat: 49.2826,
+      long: -123.1207,
+      timezone: 'America/Vancouver',
+      venueId: 'equinox-west-georgia'
+    });
+
+    // A name-only match names the venue but lends it no position
+    const fuzzy = registry.resolve({ name: 'Equinox West Georgia', address: 'Vancouver, BC', lat: 0, long: 0, unresolved: true });
+    expect(fuzzy).toEqual({ name: 'Equinox West Georgia', address: 'Vancouver, BC', lat: 0, long: 0, unresolved: true, venueId: 'equinox-west-georgia' });
+  });
+
+  it('should keep branches of the same chain in different cities apart', () => {
+    const dallas = registry.resolve({ name: '24 Hour Fitness', address: '500 Elm St, Dallas, TX', lat: 32.7810, long: -96.8003, timezone: 'America/Chicago' });
+    const seattle = registry.resolve({ name: '24 Hour Fitness', address: '100 Main St, Seattle, WA', lat: 0, long: 0, unresolved: true });
+
+    expect(seattle.venueId).not.toBe(dallas.venueId);
+    expect(seattle).toMatchObject({ lat: 0, long: 0, unresolved: true });
+    expect(seattle.timezone).toBeUndefined();
+    expect(db.getAllVenues()).toHaveLength(2);
+  });
+
+  it('should store venue IDs on classes and move them when venues are merged', () => {
+    const first = registry.resolve(tribeca);
+    const duplicate = registry.resolve({ name: 'Tribeca Studio', address: 'Chambers St, New York', lat: 40.7149, long: -74.0089 });
+    expect(duplicate.venueId).not.toBe(first.venueId);
+
+    const runId = db.createScrapeRun('studio');
+    const { id } = db.upsertScrapedClass(runId, makeClass('a', { location: duplicate }));
+    db.markClassesAsUploaded([id]);
+
+    expect(db.mergeVenues(duplicate.venueId!, first.venueId!)).toBe(1);
+    expect(db.getVenue(duplicate.venueId!)).toBeNull();
+    expect(db.getUnuploadedClasses().map(c => c.location.venueId)).toEqual([first.venueId]);
+    expect(new VenueRegistry(db).resolve(duplicate).venueId).toBe(first.venueId);
+  });
+});
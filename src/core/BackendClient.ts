@@ -1,11 +1,18 @@
-import { FitnessClass } from '../models/FitnessClass.js';
+import { createHash } from 'crypto';
+import { FitnessClass, Instructor } from '../models/FitnessClass.js';
 import { logger } from '../utils/logger.js';
+import { getClassKey } from '../utils/classIdentity.js';
 
 export interface BackendConfig {
   baseUrl: string;
   apiKey?: string;
   timeout?: number;
   batchSize?: number;
+  maxAttempts?: number; // Tries per request, including the first
+  retryBaseDelayMs?: number; // Longest backoff before the second try, doubled for each later one
+  retryMaxDelayMs?: number; // Cap on backoff; a longer Retry-After ends the retries
+  retryableStatuses?: number[];
+  checkBatchSize?: number; // Class keys per fingerprint check
 }
 
 export interface UploadResult {
@@ -13,6 +20,79 @@ export interface UploadResult {
   uploaded: number;
   failed: number;
   errors: string[];
+  items?: UploadItemResult[]; // Outcome per class, in the order given to uploadClasses
+}
+
+/**
+ * What happened to one uploaded class. 'rejected' is the backend refusing the class itself, which sending it
+ * again will not change; 'failed' means the backend did not say, e.g. because the request did not get through.
+ */
+export interface UploadItemResult {
+  classKey: string;
+  classId?: number; // Local scraped_classes row, for classes loaded from the database
+  status: 'accepted' | 'rejected' | 'failed';
+  error?: string;
+}
+
+/**
+ * One change in a changeset. Create and update carry the whole class with its fingerprint; an update also says which
+ * fingerprint it replaces. Delete removes the class, because it left its provider's schedule or duplicates another one.
+ */
+export interface SyncOperation {
+  op: 'create' | 'update' | 'delete';
+  classKey: string;
+  classId?: number; // Local scraped_classes row, echoed in the results but not sent
+  class?: FitnessClass;
+  fingerprint?: string;
+  previousFingerprint?: string;
+  reason?: 'removed_from_schedule' | 'duplicate';
+}
+
+export interface ChangesetResult {
+  success: boolean;
+  stale: boolean; // The backend has moved past the cursor the changeset was based on and applied nothing
+  cursor?: string; // Backend cursor after applying the changeset
+  items: UploadItemResult[]; // Outcome per operation, in order
+  errors: string[];
+}
+
+export interface FingerprintCheck {
+  fingerprints: Map<string, string>; // Fingerprint of the backend's copy by class key; keys it has no copy of are absent
+  cursor?: string; // Backend cursor the fingerprints were read at
+}
+
+/**
+ * A non-2xx response, with its status
+ */
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const DEFAULT_RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+/**
+ * Seconds or an HTTP date, as milliseconds from now
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const ms = /^\d+$/.test(value.trim()) ? parseInt(value, 10) * 1000 : new Date(value).getTime() - Date.now();
+  return isNaN(ms) ? undefined : Math.max(ms, 0);
+}
+
+/**
+ * Same classes with the same content give the same key, so a retried request is recognisable,
+ * while a later upload carrying newer data for those classes gets a new one
+ */
+function idempotencyKey(scope: string, classKeys: string[], payload: string): string {
+  const hash = createHash('sha256').update(scope).update('\n');
+  for (const key of [...classKeys].sort()) {
+    hash.update(key).update('\n');
+  }
+  return hash.update(payload).digest('hex');
 }
 
 export class BackendClient {
@@ -20,23 +100,34 @@ export class BackendClient {
   private apiKey?: string;
   private timeout: number;
   private batchSize: number;
+  private maxAttempts: number;
+  private retryBaseDelayMs: number;
+  private retryMaxDelayMs: number;
+  private retryableStatuses: number[];
+  private checkBatchSize: number;
 
   constructor(config: BackendConfig) {
     this.baseUrl = config.baseUrl.replace(/\/$/, ''); // Remove trailing slash
     this.apiKey = config.apiKey;
     this.timeout = config.timeout ?? 30000;
     this.batchSize = config.batchSize ?? 50;
+    this.maxAttempts = config.maxAttempts ?? 4;
+    this.retryBaseDelayMs = config.retryBaseDelayMs ?? 1000;
+    this.retryMaxDelayMs = config.retryMaxDelayMs ?? 30000;
+    this.retryableStatuses = config.retryableStatuses ?? DEFAULT_RETRYABLE_STATUSES;
+    this.checkBatchSize = config.checkBatchSize ?? 500;
   }
 
   /**
-   * Upload fitness classes to the backend API
+   * Upload fitness classes to the backend API, each batch with the instructor records its classes reference
    */
-  async uploadClasses(classes: FitnessClass[]): Promise<UploadResult> {
+  async uploadClasses(classes: Array<FitnessClass & { id?: number }>, instructors: Instructor[] = []): Promise<UploadResult> {
     const result: UploadResult = {
       success: true,
       uploaded: 0,
       failed: 0,
-      errors: []
+      errors: [],
+      items: []
     };
 
     if (classes.length === 0) {
@@ -55,10 +146,12 @@ export class BackendClient {
       logger.info(`Processing batch ${batchNum}/${totalBatches} (${batch.length} classes)`);
 
       try {
-        const batchResult = await this.uploadBatch(batch);
+        const instructorIds = new Set(batch.map(c => c.instructorId));
+        const batchResult = await this.uploadBatch(batch, instructors.filter(i => instructorIds.has(i.id)));
         result.uploaded += batchResult.uploaded;
         result.failed += batchResult.failed;
         result.errors.push(...batchResult.errors);
+        result.items!.push(...batchResult.items!);
 
         if (!batchResult.success) {
           result.success = false;
@@ -74,6 +167,7 @@ export class BackendClient {
         result.errors.push(errorMsg);
         result.failed += batch.length;
         result.success = false;
+        result.items!.push(...batch.map(c => ({ classKey: getClassKey(c), classId: c.id, status: 'failed' as const, error: errorMsg })));
       }
     }
 
@@ -84,59 +178,194 @@ export class BackendClient {
   /**
    * Upload a single batch of classes
    */
-  private async uploadBatch(classes: FitnessClass[]): Promise<UploadResult> {
+  private async uploadBatch(classes: Array<FitnessClass & { id?: number }>, instructors: Instructor[]): Promise<UploadResult> {
     const result: UploadResult = {
       success: true,
       uploaded: 0,
       failed: 0,
       errors: []
     };
-
-    const url = `${this.baseUrl}/api/v1/classes`;
+    const classKeys = classes.map(c => getClassKey(c));
 
     try {
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json'
-      };
+      // classKey lets the backend dedupe on the class identity rather than on providerId
+      const body = { classes: classes.map((c, i) => ({ ...c, classKey: classKeys[i] })), instructors };
+      const responseData = await this.post('/api/v1/classes', body, classKeys);
+      result.items = this.parseUploadItems(classes.map((c, i) => ({ classKey: classKeys[i], classId: c.id })), responseData);
+    } catch (error) {
+      const errorMsg = `Upload batch failed: ${error}`;
+      logger.error(errorMsg);
+      result.errors.push(errorMsg);
+      result.items = classes.map((c, i) => ({ classKey: classKeys[i], classId: c.id, status: 'failed' as const, error: errorMsg }));
+    }
 
-      if (this.apiKey) {
-        headers['Authorization'] = `Bearer ${this.apiKey}`;
-      }
+    result.uploaded = result.items.filter(item => item.status === 'accepted').length;
+    result.failed = classes.length - result.uploaded;
+    result.success = result.failed === 0;
 
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const rejected = result.items.filter(item => item.status === 'rejected');
+    result.errors.push(...rejected.map(item => `Rejected ${item.classKey}: ${item.error}`));
+    if (result.uploaded > 0 || rejected.length > 0) {
+      logger.info(`Batch uploaded: ${result.uploaded} accepted, ${rejected.length} rejected, ${result.failed - rejected.length} unconfirmed`);
+    }
 
-      const response = await fetch(url, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({ classes }),
-        signal: controller.signal
-      });
+    return result;
+  }
 
-      clearTimeout(timeoutId);
+  /**
+   * Map the backend's answer back to the classes sent
+   *
+   * The backend returns { results: [{ classKey, status: 'accepted' | 'rejected', error? }] } with one item per class.
+   * A class it did not report on is 'failed', so it is sent again. Backends predating per-class results only return
+   * { uploaded: number }, which identifies the classes only when it covers all of them.
+   */
+  private parseUploadItems(sent: Array<{ classKey: string; classId?: number }>, responseData: any): UploadItemResult[] {
+    if (!Array.isArray(responseData.results)) {
+      const uploaded = responseData.uploaded ?? sent.length;
+      const error = uploaded === sent.length
+        ? undefined
+        : `Backend reported ${uploaded} of ${sent.length} classes uploaded without saying which`;
+      return sent.map(({ classKey, classId }) => ({ classKey, classId, status: error ? 'failed' : 'accepted', error }));
+    }
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`HTTP ${response.status}: ${errorText}`);
+    const reported = new Map<string, any>();
+    for (const item of responseData.results) {
+      if (item && typeof item.classKey === 'string') {
+        reported.set(item.classKey, item);
       }
+    }
 
-      const responseData = await response.json() as any;
+    return sent.map(({ classKey, classId }): UploadItemResult => {
+      const item = reported.get(classKey);
+      const base = { classKey, classId };
+      if (item?.status === 'accepted') {
+        return { ...base, status: 'accepted' };
+      }
+      if (item?.status === 'rejected') {
+        return { ...base, status: 'rejected', error: item.error ? String(item.error) : 'Rejected without a reason' };
+      }
+      return { ...base, status: 'failed', error: item ? `Unknown status ${JSON.stringify(item.status)}` : 'Missing from the backend response' };
+    });
+  }
 
-      // Assume backend returns { success: true, uploaded: number }
-      result.uploaded = responseData.uploaded ?? classes.length;
-      logger.info(`Batch uploaded successfully: ${result.uploaded} classes`);
+  /**
+   * Send one changeset to the backend
+   *
+   * With a baseCursor the backend applies the changeset only if nothing changed its data since it returned that
+   * cursor, and otherwise answers 409 with the result marked stale. Without one it applies the changeset as is.
+   */
+  async sendChangeset(operations: SyncOperation[], instructors: Instructor[] = [], baseCursor?: string): Promise<ChangesetResult> {
+    const result: ChangesetResult = { success: true, stale: false, items: [], errors: [] };
+    if (operations.length === 0) {
+      return result;
+    }
 
+    const sent = operations.map(({ classKey, classId }) => ({ classKey, classId }));
+    try {
+      const body = { baseCursor, operations: operations.map(({ classId, ...operation }) => operation), instructors };
+      const responseData = await this.post('/api/v1/sync/changesets', body, sent.map(s => s.classKey));
+      result.cursor = typeof responseData.cursor === 'string' ? responseData.cursor : undefined;
+      result.items = this.parseUploadItems(sent, responseData);
     } catch (error) {
-      const errorMsg = `Upload batch failed: ${error}`;
-      logger.error(errorMsg);
-      result.success = false;
-      result.failed = classes.length;
+      result.stale = error instanceof HttpError && error.status === 409;
+      const errorMsg = result.stale ? `Backend changed since cursor ${baseCursor}` : `Changeset failed: ${error}`;
+      if (result.stale) {
+        logger.warn(errorMsg);
+      } else {
+        logger.error(errorMsg);
+      }
       result.errors.push(errorMsg);
+      result.items = sent.map(s => ({ ...s, status: 'failed' as const, error: errorMsg }));
     }
 
+    const rejected = result.items.filter(item => item.status === 'rejected');
+    result.errors.push(...rejected.map(item => `Rejected ${item.classKey}: ${item.error}`));
+    result.success = result.items.every(item => item.status === 'accepted');
     return result;
   }
 
+  /**
+   * Ask the backend which of the given classes it holds, and the fingerprint of each copy, in batches of checkBatchSize
+   */
+  async checkClasses(classKeys: string[]): Promise<FingerprintCheck> {
+    const check: FingerprintCheck = { fingerprints: new Map() };
+
+    for (let i = 0; i < classKeys.length; i += this.checkBatchSize) {
+      const batch = classKeys.slice(i, i + this.checkBatchSize);
+      const responseData = await this.post('/api/v1/sync/fingerprints', { classKeys: batch }, batch);
+      // The earliest cursor is kept: a change made between batches makes the next changeset stale rather than lost
+      if (check.cursor === undefined && typeof responseData.cursor === 'string') {
+        check.cursor = responseData.cursor;
+      }
+      for (const [classKey, fingerprint] of Object.entries(responseData.fingerprints ?? {})) {
+        if (typeof fingerprint === 'string') {
+          check.fingerprints.set(classKey, fingerprint);
+        }
+      }
+    }
+
+    return check;
+  }
+
+  /**
+   * POST a JSON body and return the parsed response
+   *
+   * Timeouts, network errors and retryable statuses are retried with exponential backoff and full jitter,
+   * or after the server's Retry-After. Every try carries the same Idempotency-Key, derived from the class keys
+   * and the body, so the backend can drop a retry of a request it committed before the response was lost.
+   */
+  private async post(path: string, body: object, classKeys: string[]): Promise<any> {
+    const url = `${this.baseUrl}${path}`;
+    const payload = JSON.stringify(body);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Idempotency-Key': idempotencyKey(path, classKeys, payload)
+    };
+
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      let failure: { message: string; retryable: boolean; retryAfterMs?: number; status?: number };
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+      try {
+        const response = await fetch(url, { method: 'POST', headers, body: payload, signal: controller.signal });
+        if (response.ok) {
+          // A 2xx means the request was accepted, even when the body is not JSON
+          const text = await response.text();
+          try {
+            return JSON.parse(text);
+          } catch {
+            return {};
+          }
+        }
+        failure = {
+          message: `HTTP ${response.status}: ${await response.text()}`,
+          retryable: this.retryableStatuses.includes(response.status),
+          retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+          status: response.status
+        };
+      } catch (error) {
+        // The request may have reached the backend before the connection failed; the idempotency key covers that
+        failure = { message: error instanceof Error ? error.message : String(error), retryable: true };
+      } finally {
+        clearTimeout(timeoutId);
+      }
+
+      const delay = failure.retryAfterMs ?? Math.random() * Math.min(this.retryMaxDelayMs, this.retryBaseDelayMs * 2 ** (attempt - 1));
+      if (!failure.retryable || attempt >= this.maxAttempts || delay > this.retryMaxDelayMs) {
+        const message = attempt > 1 ? `${failure.message} (after ${attempt} attempts)` : failure.message;
+        throw failure.status !== undefined ? new HttpError(failure.status, message) : new Error(message);
+      }
+
+      logger.warn(`POST ${path} failed (attempt ${attempt}/${this.maxAttempts}): ${failure.message}; retrying in ${Math.round(delay)}ms`);
+      await this.delay(delay);
+    }
+  }
+
   /**
    * Upload a single class (for individual uploads)
    */
@@ -202,41 +431,6 @@ export class BackendClient {
     }
   }
 
-  /**
-   * Check if a class already exists in the backend (to avoid duplicates)
-   */
-  async classExists(providerId: string, datetime: Date): Promise<boolean> {
-    try {
-      const url = `${this.baseUrl}/api/v1/classes/check`;
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json'
-      };
-
-      if (this.apiKey) {
-        headers['Authorization'] = `Bearer ${this.apiKey}`;
-      }
-
-      const response = await fetch(url, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({
-          providerId,
-          datetime: datetime.toISOString()
-        })
-      });
-
-      if (!response.ok) {
-        return false;
-      }
-
-      const data = await response.json() as any;
-      return data.exists === true;
-    } catch (error) {
-      logger.error('Error checking class existence:', error);
-      return false;
-    }
-  }
-
   /**
    * Delay helper function
    */
@@ -259,7 +453,12 @@ export class BackendClient {
       baseUrl: this.baseUrl,
       apiKey: this.apiKey,
       timeout: this.timeout,
-      batchSize: this.batchSize
+      batchSize: this.batchSize,
+      maxAttempts: this.maxAttempts,
+      retryBaseDelayMs: this.retryBaseDelayMs,
+      retryMaxDelayMs: this.retryMaxDelayMs,
+      retryableStatuses: this.retryableStatuses,
+      checkBatchSize: this.checkBatchSize
     };
   }
 }
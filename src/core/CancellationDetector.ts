@@ -0,0 +1,98 @@
+import { DatabaseManager, ScrapedClass } from './Database.js';
+import { ScrapeOptions, ScrapeResult } from '../models/FitnessClass.js';
+import { logger } from '../utils/logger.js';
+
+export interface CancellationOptions {
+  maxRemovalRatio?: number; // Skip when more than this share of stored classes vanished at once
+  confirmAfterRuns?: number; // Consecutive scrapes a class must be missing before it is cancelled
+}
+
+export interface CancellationResult {
+  checked: number; // Stored classes in the scraped window
+  missing: number; // Of those, classes absent from this scrape
+  cancelled: ScrapedClass[];
+  skippedReason?: string;
+}
+
+/**
+ * Compares a scrape with the classes stored for the same provider, locations and date window,
+ * and cancels stored classes that are no longer on the schedule
+ *
+ * Safeguards against mass-cancelling a schedule:
+ * - only complete scrapes are compared (failed, erroring, empty or maxResults-truncated runs are skipped)
+ * - only locations present in the scrape and the window it covered are considered
+ * - nothing is cancelled when too large a share of the stored classes vanished at once
+ * - a class must be missing from several consecutive scrapes when confirmAfterRuns > 1
+ */
+export class CancellationDetector {
+  private db: DatabaseManager;
+  private maxRemovalRatio: number;
+  private confirmAfterRuns: number;
+
+  constructor(db: DatabaseManager, options: CancellationOptions = {}) {
+    this.db = db;
+    this.maxRemovalRatio = options.maxRemovalRatio ?? 0.5;
+    this.confirmAfterRuns = options.confirmAfterRuns ?? 1;
+  }
+
+  /**
+   * Detect removed classes after a scrape's classes have been upserted under scrapeRunId
+   */
+  detect(scrapeRunId: number, result: ScrapeResult, options: ScrapeOptions = {}): CancellationResult {
+    const skipped = (reason: string): CancellationResult => {
+      logger.info(`[${result.provider}] Skipping cancellation check: ${reason}`);
+      return { checked: 0, missing: 0, cancelled: [], skippedReason: reason };
+    };
+
+    if (!result.success) {
+      return skipped('scrape failed');
+    }
+    if (result.errors.length > 0) {
+      return skipped(`scrape reported ${result.errors.length} errors and may be partial`);
+    }
+    if (result.classes.length === 0) {
+      return skipped('no classes were scraped');
+    }
+    if (options.maxResults) {
+      return skipped('results were truncated by maxResults');
+    }
+
+    // Compare only the window and locations this scrape actually covered, and never the past
+    const times = result.classes.map(c => c.datetime.getTime());
+    const now = Date.now();
+    const start = new Date(Math.max(now, options.startDate?.getTime() ?? Math.min(...times)));
+    const end = options.endDate ?? new Date(Math.max(...times));
+    if (start > end) {
+      return skipped('the scraped window is entirely in the past');
+    }
+
+    const providerName = result.classes[0].providerName;
+    const locationNames = Array.from(new Set(result.classes.map(c => c.location.name)));
+
+    const stored = this.db.getActiveClassesInWindow(providerName, start, end, locationNames);
+    const missing = this.db.getActiveClassesInWindow(providerName, start, end, locationNames, scrapeRunId);
+
+    if (missing.length === 0) {
+      return { checked: stored.length, missing: 0, cancelled: [] };
+    }
+
+    const removalRatio = missing.length / stored.length;
+    if (removalRatio > this.maxRemovalRatio) {
+      logger.warn(
+        `[${result.provider}] ${missing.length} of ${stored.length} stored classes are missing ` +
+        `(more than ${Math.round(this.maxRemovalRatio * 100)}%), not cancelling any`
+      );
+      return { checked: stored.length, missing: missing.length, cancelled: [], skippedReason: 'too many classes missing' };
+    }
+
+    const missedCounts = this.db.incrementMissedScrapes(missing.map(c => c.id!));
+    const cancelled = missing.filter(c => (missedCounts.get(c.id!) ?? 0) >= this.confirmAfterRuns);
+    this.db.markClassesCancelled(cancelled.map(c => c.id!));
+
+    logger.info(
+      `[${result.provider}] ${missing.length} of ${stored.length} stored classes missing, ${cancelled.length} cancelled`
+    );
+
+    return { checked: stored.length, missing: missing.length, cancelled };
+  }
+}
@@ -1,5 +1,7 @@
-import puppeteer, { Browser, Page, PuppeteerLaunchOptions } from 'puppeteer';
+import puppeteer, { Browser, HTTPRequest, HTTPResponse, Page, PuppeteerLaunchOptions } from 'puppeteer';
 import { logger } from '../utils/logger.js';
+import { ResponseCapture, UrlPattern } from './ResponseCapture.js';
+import type { FixtureStore } from './FixtureStore.js';
 
 export interface ChromeOptions {
   headless?: boolean;
@@ -11,10 +13,15 @@ export interface ChromeOptions {
   timeout?: number;
 }
 
+// Resource types saved when recording fixtures; images, fonts and media are blocked anyway
+const RECORDED_RESOURCE_TYPES = ['document', 'script', 'stylesheet', 'xhr', 'fetch'];
+
 export class ChromeManager {
   private browser: Browser | null = null;
   private pages: Page[] = [];
   private options: ChromeOptions;
+  private fixtures: FixtureStore | null = null;
+  private pendingRecordings: Set<Promise<void>> = new Set();
 
   constructor(options: ChromeOptions = {}) {
     this.options = {
@@ -79,11 +86,20 @@ export class ChromeManager {
       // Block images, fonts, and media to speed up scraping
       if (['image', 'font', 'media'].includes(resourceType)) {
         request.abort();
+      } else if (this.fixtures?.isReplaying()) {
+        this.replayRequest(request);
       } else {
         request.continue();
       }
     });
 
+    if (this.fixtures?.isRecording()) {
+      page.on('response', (response) => {
+        const recording = this.recordResponse(response).finally(() => this.pendingRecordings.delete(recording));
+        this.pendingRecordings.add(recording);
+      });
+    }
+
     this.pages.push(page);
     logger.info(`New page created. Total pages: ${this.pages.length}`);
 
@@ -92,6 +108,7 @@ export class ChromeManager {
 
   async closePage(page: Page): Promise<void> {
     try {
+      await Promise.all(Array.from(this.pendingRecordings));
       await page.close();
       this.pages = this.pages.filter(p => p !== page);
       logger.info(`Page closed. Remaining pages: ${this.pages.length}`);
@@ -106,6 +123,8 @@ export class ChromeManager {
     }
 
     try {
+      await Promise.all(Array.from(this.pendingRecordings));
+
       // Close all pages first
       for (const page of this.pages) {
         await page.close();
@@ -121,6 +140,14 @@ export class ChromeManager {
     }
   }
 
+  /**
+   * Record page loads to, or replay them from, a fixture directory
+   * Set before creating pages; existing pages keep their current behaviour
+   */
+  useFixtures(fixtures: FixtureStore | null): void {
+    this.fixtures = fixtures;
+  }
+
   isInitialized(): boolean {
     return this.browser !== null;
   }
@@ -216,6 +243,14 @@ export class ChromeManager {
     }
   }
 
+  /**
+   * Capture the JSON bodies of responses whose URLs match the given patterns
+   * Call before navigating so responses fired during page load are included
+   */
+  captureResponses(page: Page, patterns: UrlPattern[]): ResponseCapture {
+    return new ResponseCapture(page, patterns);
+  }
+
   /**
    * Take a screenshot (useful for debugging)
    */
@@ -228,6 +263,64 @@ export class ChromeManager {
     }
   }
 
+  /**
+   * Answer an intercepted request from recorded fixtures, failing it when none exists
+   */
+  private replayRequest(request: HTTPRequest): void {
+    const fixture = this.fixtures!.find(request.method(), request.url(), request.postData());
+
+    if (!fixture) {
+      logger.warn(`No fixture recorded for ${request.method()} ${request.url()}`);
+      request.abort('internetdisconnected');
+      return;
+    }
+
+    request.respond({
+      status: fixture.status,
+      headers: fixture.headers,
+      contentType: fixture.headers['content-type'],
+      body: fixture.body
+    });
+  }
+
+  /**
+   * Save a page response as a fixture
+   */
+  private async recordResponse(response: HTTPResponse): Promise<void> {
+    const request = response.request();
+    if (!RECORDED_RESOURCE_TYPES.includes(request.resourceType())) {
+      return;
+    }
+
+    const status = response.status();
+    const responseHeaders = response.headers();
+    const headers: Record<string, string> = { 'content-type': responseHeaders['content-type'] ?? '' };
+    let body = '';
+
+    if (status >= 300 && status < 400) {
+      // Redirect bodies are unavailable; keep the target so replay follows it
+      if (responseHeaders['location']) {
+        headers['location'] = responseHeaders['location'];
+      }
+    } else {
+      try {
+        body = await response.text();
+      } catch (error) {
+        logger.debug(`Could not read body of ${response.url()} for fixture`);
+        return;
+      }
+    }
+
+    this.fixtures!.save({
+      method: request.method(),
+      url: response.url(),
+      requestBody: request.postData(),
+      status,
+      headers,
+      body
+    });
+  }
+
   /**
    * Delay helper function
    */
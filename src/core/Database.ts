@@ -1,8 +1,11 @@
 import Database from 'better-sqlite3';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
-import { FitnessClass } from '../models/FitnessClass.js';
+import { BookingOption, FitnessClass, Instructor, ValidationSummary } from '../models/FitnessClass.js';
+import { Migration, MigrationStatus, Migrator } from './Migrator.js';
 import { logger } from '../utils/logger.js';
+import { createFallbackKey, getClassKey } from '../utils/classIdentity.js';
+import { GeocodeResult } from '../utils/geocoding.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -17,6 +20,7 @@ export interface ScrapeRun {
   classesFound: number;
   classesUploaded: number;
   errors?: string;
+  validation?: ValidationSummary; // Why classes were rejected, when the provider reported it
 }
 
 export interface ScrapedClass extends FitnessClass {
@@ -24,6 +28,144 @@ export interface ScrapedClass extends FitnessClass {
   scrapeRunId: number;
   uploadedToBackend: boolean;
   createdAt?: string;
+  classKey?: string;
+  firstSeen?: string;
+  lastSeen?: string;
+  lastChangedAt?: string;
+  scheduleStatus?: 'active' | 'cancelled';
+  cancelledAt?: string;
+  missedScrapes?: number;
+  canonicalClassId?: number; // Set when this class duplicates another provider's listing of the same class
+  rejectedAt?: string; // Set while the backend's last answer for this class was a rejection
+  rejectionError?: string;
+  syncedFingerprint?: string; // Fingerprint of this class as the backend last accepted it; unset while the backend has no copy
+}
+
+export interface UpsertResult {
+  id: number;
+  status: 'inserted' | 'updated' | 'unchanged';
+  changedFields: string[];
+}
+
+export interface ClassChange {
+  id?: number;
+  classId: number;
+  scrapeRunId: number;
+  changedFields: string[];
+  previousValues: Record<string, any>;
+  changedAt: string;
+}
+
+export interface AvailabilitySnapshot {
+  id?: number;
+  classId: number;
+  scrapeRunId: number;
+  observedAt: string;
+  spotsLeft?: number;
+  capacity?: number;
+  bookingStatus?: 'open' | 'closed' | 'full' | 'waitlist';
+  hoursBeforeStart: number;
+}
+
+export interface ClassFillSummary {
+  classId: number;
+  name: string;
+  datetime: Date;
+  snapshots: number;
+  firstObservedAt: string;
+  initialSpotsLeft?: number;
+  latestSpotsLeft?: number;
+  soldOut: boolean;
+  soldOutAt?: string;
+  soldOutHoursBeforeStart?: number;
+}
+
+export interface SelloutStats {
+  providerName: string;
+  name: string;
+  locationName: string;
+  classesObserved: number;
+  classesSoldOut: number;
+  selloutRate: number;
+  medianHoursBeforeSellout?: number;
+}
+
+// A snapshot counts as sold out when no spots are left or only a waitlist is open
+const SOLD_OUT_CONDITION = "(spots_left = 0 OR booking_status IN ('full', 'waitlist'))";
+
+// FitnessClass fields compared on upsert, with the columns that store them.
+// last_availability_check is refreshed on every scrape, so it is not tracked.
+const TRACKED_FIELDS: Array<[string, string[]]> = [
+  ['name', ['name']],
+  ['datetime', ['datetime']],
+  ['endDatetime', ['end_datetime']],
+  ['durationMinutes', ['duration_minutes']],
+  ['description', ['description']],
+  ['location', ['location_name', 'location_address', 'location_lat', 'location_long', 'location_timezone', 'location_unresolved', 'venue_id']],
+  ['trainer', ['trainer']],
+  ['instructorId', ['instructor_id']],
+  ['intensity', ['intensity']],
+  ['price', ['price']],
+  ['pricingDetails', ['pricing_details']],
+  ['bookingUrl', ['booking_url']],
+  ['capacity', ['capacity']],
+  ['tags', ['tags']],
+  ['taxonomy', ['taxonomy']],
+  ['photos', ['photos']],
+  ['amenities', ['amenities']],
+  ['realTimeAvailability', ['real_time_availability']],
+  ['bookingStatus', ['booking_status']],
+  ['reviews', ['reviews']]
+];
+
+export interface Venue {
+  id: string;
+  name: string;
+  address: string;
+  lat?: number; // Undefined until some provider or geocoder places the venue
+  long?: number;
+  timezone?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface GeocodeCacheStats {
+  entries: number;
+  found: number;
+  notFound: number; // Negative entries for addresses the geocoder could not resolve
+  expired: number;
+  totalHits: number;
+}
+
+export type OutboxAction = 'upsert' | 'cancel' | 'retract';
+
+/**
+ * Something the backend has to hear about a class: its current state, its cancellation,
+ * or (retract) that it is now a booking option of another provider's class
+ */
+export interface OutboxEntry {
+  id: number;
+  classId: number;
+  action: OutboxAction;
+  status: 'pending' | 'failed'; // failed entries ran out of attempts and wait for `upload --retry-failed`
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt: string;
+  createdAt: string;
+}
+
+export interface OutboxStats {
+  pending: number;
+  retrying: number; // Pending entries that failed at least once
+  failed: number;
+  nextAttemptAt?: string;
+  lastError?: string;
+}
+
+export interface SyncStats {
+  cursor?: string; // Backend cursor after the last changeset it applied
+  cursorUpdatedAt?: string;
+  synced: number; // Classes the backend holds a copy of
 }
 
 export interface Provider {
@@ -38,153 +180,32 @@ export interface Provider {
 
 export class DatabaseManager {
   private db: Database.Database;
+  private migrator: Migrator;
 
-  constructor(dbPath?: string) {
+  constructor(dbPath?: string, options: { migrate?: boolean } = {}) {
     const path = dbPath || join(projectRoot, 'numina-scrapers.db');
     this.db = new Database(path);
     this.db.pragma('journal_mode = WAL');
-    this.initializeSchema();
+    this.migrator = new Migrator(this.db);
+    if (options.migrate !== false) {
+      this.migrator.migrate();
+    }
     logger.info(`Database initialized at ${path}`);
   }
 
-  private initializeSchema(): void {
-    // Create providers table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS providers (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        name TEXT UNIQUE NOT NULL,
-        enabled BOOLEAN DEFAULT 1,
-        last_scrape DATETIME,
-        total_runs INTEGER DEFAULT 0,
-        successful_runs INTEGER DEFAULT 0,
-        total_classes_found INTEGER DEFAULT 0,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
-
-    // Create scrape_runs table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS scrape_runs (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        provider TEXT NOT NULL,
-        start_time DATETIME NOT NULL,
-        end_time DATETIME,
-        status TEXT CHECK(status IN ('running', 'completed', 'failed')) DEFAULT 'running',
-        classes_found INTEGER DEFAULT 0,
-        classes_uploaded INTEGER DEFAULT 0,
-        errors TEXT,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
-
-    // Create scraped_classes table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS scraped_classes (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        scrape_run_id INTEGER NOT NULL,
-        name TEXT NOT NULL,
-        description TEXT,
-        datetime DATETIME NOT NULL,
-        location_name TEXT NOT NULL,
-        location_address TEXT NOT NULL,
-        location_lat REAL NOT NULL,
-        location_long REAL NOT NULL,
-        trainer TEXT,
-        intensity INTEGER CHECK(intensity BETWEEN 1 AND 10),
-        price REAL,
-        booking_url TEXT,
-        provider_id TEXT NOT NULL,
-        provider_name TEXT NOT NULL,
-        capacity INTEGER,
-        tags TEXT,
-        uploaded_to_backend BOOLEAN DEFAULT 0,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        photos TEXT,
-        trainer_info TEXT,
-        amenities TEXT,
-        real_time_availability INTEGER,
-        booking_status TEXT CHECK(booking_status IN ('open', 'closed', 'full', 'waitlist')),
-        last_availability_check DATETIME,
-        pricing_details TEXT,
-        reviews TEXT,
-        FOREIGN KEY (scrape_run_id) REFERENCES scrape_runs(id)
-      )
-    `);
-
-    // Create indexes for better query performance
-    this.db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_scrape_runs_provider ON scrape_runs(provider);
-      CREATE INDEX IF NOT EXISTS idx_scrape_runs_start_time ON scrape_runs(start_time);
-      CREATE INDEX IF NOT EXISTS idx_scraped_classes_scrape_run ON scraped_classes(scrape_run_id);
-      CREATE INDEX IF NOT EXISTS idx_scraped_classes_datetime ON scraped_classes(datetime);
-      CREATE INDEX IF NOT EXISTS idx_scraped_classes_provider ON scraped_classes(provider_name);
-      CREATE INDEX IF NOT EXISTS idx_scraped_classes_uploaded ON scraped_classes(uploaded_to_backend);
-      CREATE INDEX IF NOT EXISTS idx_scraped_classes_booking_status ON scraped_classes(booking_status);
-    `);
-
-    // Run migrations for enhanced data fields
-    this.runMigrations();
+  /**
+   * Apply pending schema migrations up to targetVersion (default: the latest)
+   */
+  migrate(targetVersion?: number): Migration[] {
+    return this.migrator.migrate(targetVersion);
   }
 
-  private runMigrations(): void {
-    // Check if we need to add the enhanced data columns to existing tables
-    const tableInfo = this.db.prepare("PRAGMA table_info(scraped_classes)").all() as any[];
-    const columnNames = tableInfo.map(col => col.name);
-
-    // Add photos column if it doesn't exist
-    if (!columnNames.includes('photos')) {
-      this.db.exec('ALTER TABLE scraped_classes ADD COLUMN photos TEXT');
-      logger.info('Added photos column to scraped_classes table');
-    }
-
-    // Add trainer_info column if it doesn't exist
-    if (!columnNames.includes('trainer_info')) {
-      this.db.exec('ALTER TABLE scraped_classes ADD COLUMN trainer_info TEXT');
-      logger.info('Added trainer_info column to scraped_classes table');
-    }
-
-    // Add amenities column if it doesn't exist
-    if (!columnNames.includes('amenities')) {
-      this.db.exec('ALTER TABLE scraped_classes ADD COLUMN amenities TEXT');
-      logger.info('Added amenities column to scraped_classes table');
-    }
-
-    // Add real_time_availability column if it doesn't exist
-    if (!columnNames.includes('real_time_availability')) {
-      this.db.exec('ALTER TABLE scraped_classes ADD COLUMN real_time_availability INTEGER');
-      logger.info('Added real_time_availability column to scraped_classes table');
-    }
-
-    // Add booking_status column if it doesn't exist
-    if (!columnNames.includes('booking_status')) {
-      this.db.exec("ALTER TABLE scraped_classes ADD COLUMN booking_status TEXT CHECK(booking_status IN ('open', 'closed', 'full', 'waitlist'))");
-      logger.info('Added booking_status column to scraped_classes table');
-    }
-
-    // Add last_availability_check column if it doesn't exist
-    if (!columnNames.includes('last_availability_check')) {
-      this.db.exec('ALTER TABLE scraped_classes ADD COLUMN last_availability_check DATETIME');
-      logger.info('Added last_availability_check column to scraped_classes table');
-    }
-
-    // Add pricing_details column if it doesn't exist
-    if (!columnNames.includes('pricing_details')) {
-      this.db.exec('ALTER TABLE scraped_classes ADD COLUMN pricing_details TEXT');
-      logger.info('Added pricing_details column to scraped_classes table');
-    }
-
-    // Add reviews column if it doesn't exist
-    if (!columnNames.includes('reviews')) {
-      this.db.exec('ALTER TABLE scraped_classes ADD COLUMN reviews TEXT');
-      logger.info('Added reviews column to scraped_classes table');
-    }
+  getMigrationStatus(): MigrationStatus[] {
+    return this.migrator.getStatus();
+  }
 
-    // Add index for booking_status if it doesn't exist
-    try {
-      this.db.exec('CREATE INDEX IF NOT EXISTS idx_scraped_classes_booking_status ON scraped_classes(booking_status)');
-    } catch (error) {
-      // Index might already exist, ignore error
-    }
+  getSchemaVersion(): number {
+    return this.migrator.getCurrentVersion();
   }
 
   // Provider operations
@@ -290,82 +311,742 @@ export class DatabaseManager {
     stmt.run(...values);
   }
 
-  completeScrapeRun(id: number, success: boolean, classesFound: number, classesUploaded: number, errors?: string): void {
+  completeScrapeRun(
+    id: number,
+    success: boolean,
+    classesFound: number,
+    classesUploaded: number,
+    errors?: string,
+    validation?: ValidationSummary
+  ): void {
     const stmt = this.db.prepare(`
       UPDATE scrape_runs
       SET end_time = CURRENT_TIMESTAMP,
           status = ?,
           classes_found = ?,
           classes_uploaded = ?,
-          errors = ?
+          errors = ?,
+          validation_summary = ?
       WHERE id = ?
     `);
-    stmt.run(success ? 'completed' : 'failed', classesFound, classesUploaded, errors || null, id);
+    stmt.run(success ? 'completed' : 'failed', classesFound, classesUploaded, errors || null, validation ? JSON.stringify(validation) : null, id);
   }
 
   getScrapeRun(id: number): ScrapeRun | null {
-    const stmt = this.db.prepare('SELECT * FROM scrape_runs WHERE id = ?');
-    return stmt.get(id) as ScrapeRun | null;
+    const row = this.db.prepare('SELECT * FROM scrape_runs WHERE id = ?').get(id);
+    return row ? this.rowToScrapeRun(row) : null;
   }
 
   getRecentScrapeRuns(limit: number = 10): ScrapeRun[] {
-    const stmt = this.db.prepare('SELECT * FROM scrape_runs ORDER BY start_time DESC LIMIT ?');
-    return stmt.all(limit) as ScrapeRun[];
+    const rows = this.db.prepare('SELECT * FROM scrape_runs ORDER BY start_time DESC, id DESC LIMIT ?').all(limit) as any[];
+    return rows.map(row => this.rowToScrapeRun(row));
+  }
+
+  private rowToScrapeRun(row: any): ScrapeRun {
+    return {
+      id: row.id,
+      provider: row.provider,
+      startTime: row.start_time,
+      endTime: row.end_time ?? undefined,
+      status: row.status,
+      classesFound: row.classes_found,
+      classesUploaded: row.classes_uploaded,
+      errors: row.errors || undefined,
+      validation: row.validation_summary ? JSON.parse(row.validation_summary) : undefined
+    };
   }
 
   // Scraped class operations
+
+  /**
+   * Stable key identifying a class across scrapes: its provider plus native ID or fallback key
+   */
+  getClassKey(fitnessClass: FitnessClass): string {
+    return getClassKey(fitnessClass);
+  }
+
+  /**
+   * Insert a class and queue its upload
+   */
   insertScrapedClass(scrapeRunId: number, fitnessClass: FitnessClass): number {
+    const row = {
+      ...this.classToRow(fitnessClass),
+      scrape_run_id: scrapeRunId,
+      class_key: this.getClassKey(fitnessClass),
+      uploaded_to_backend: 0
+    };
+    const columns = Object.keys(row);
+
     const stmt = this.db.prepare(`
-      INSERT INTO scraped_classes (
-        scrape_run_id, name, description, datetime, location_name, location_address,
-        location_lat, location_long, trainer, intensity, price, booking_url,
-        provider_id, provider_name, capacity, tags, uploaded_to_backend,
-        photos, trainer_info, amenities, real_time_availability, booking_status,
-        last_availability_check, pricing_details, reviews
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO scraped_classes (${columns.join(', ')}, first_seen, last_seen)
+      VALUES (${columns.map(() => '?').join(', ')}, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
     `);
 
-    const result = stmt.run(
+    return this.db.transaction(() => {
+      const id = stmt.run(...Object.values(row)).lastInsertRowid as number;
+      this.enqueue([id], 'upsert');
+      return id;
+    })();
+  }
+
+  /**
+   * Insert a class, or update the stored copy when any tracked field changed
+   * Changed classes are recorded in class_changes and queued in the upload outbox;
+   * unchanged classes only have last_seen refreshed
+   */
+  upsertScrapedClass(scrapeRunId: number, fitnessClass: FitnessClass): UpsertResult {
+    return this.db.transaction((): UpsertResult => {
+      const classKey = this.getClassKey(fitnessClass);
+      let existing = this.db.prepare('SELECT * FROM scraped_classes WHERE class_key = ?').get(classKey) as any;
+
+      // A class first stored without a native ID is adopted when its provider starts reporting one
+      if (!existing && fitnessClass.nativeId) {
+        const legacy = this.db.prepare(`
+          SELECT * FROM scraped_classes
+          WHERE provider_name = ? AND native_id IS NULL AND fallback_key = ?
+        `).get(fitnessClass.providerName, this.getFallbackKey(fitnessClass)) as any;
+
+        if (legacy) {
+          this.db.prepare('UPDATE scraped_classes SET class_key = ?, native_id = ?, provider_id = ? WHERE id = ?')
+            .run(classKey, fitnessClass.nativeId, fitnessClass.providerId, legacy.id);
+          existing = { ...legacy, class_key: classKey, native_id: fitnessClass.nativeId, provider_id: fitnessClass.providerId };
+        }
+      }
+
+      if (!existing) {
+        const id = this.insertScrapedClass(scrapeRunId, fitnessClass);
+        this.recordAvailabilitySnapshot(id, scrapeRunId, fitnessClass);
+        return { id, status: 'inserted', changedFields: [] };
+      }
+
+      this.recordAvailabilitySnapshot(existing.id, scrapeRunId, fitnessClass);
+
+      const row = this.classToRow(fitnessClass);
+      const changedFields: string[] = [];
+      const previousValues: Record<string, any> = {};
+
+      for (const [field, columns] of TRACKED_FIELDS) {
+        if (columns.some(column => (existing[column] ?? null) !== (row[column] ?? null))) {
+          changedFields.push(field);
+          for (const column of columns) {
+            previousValues[column] = existing[column];
+          }
+        }
+      }
+
+      // A class cancelled earlier that is back on the schedule is reinstated
+      if (existing.schedule_status === 'cancelled') {
+        changedFields.push('scheduleStatus');
+        previousValues.schedule_status = existing.schedule_status;
+      }
+
+      if (changedFields.length === 0) {
+        this.db.prepare(`
+          UPDATE scraped_classes
+          SET scrape_run_id = ?, last_seen = CURRENT_TIMESTAMP, last_availability_check = ?, missed_scrapes = 0
+          WHERE id = ?
+        `).run(scrapeRunId, row.last_availability_check, existing.id);
+        return { id: existing.id, status: 'unchanged', changedFields };
+      }
+
+      const columns = Object.keys(row);
+      this.db.prepare(`
+        UPDATE scraped_classes
+        SET ${columns.map(column => `${column} = ?`).join(', ')},
+            scrape_run_id = ?,
+            uploaded_to_backend = 0,
+            last_seen = CURRENT_TIMESTAMP,
+            last_changed_at = CURRENT_TIMESTAMP,
+            schedule_status = 'active',
+            cancelled_at = NULL,
+            missed_scrapes = 0,
+            cancellation_notified = 0
+        WHERE id = ?
+      `).run(...Object.values(row), scrapeRunId, existing.id);
+
+      this.db.prepare(`
+        INSERT INTO class_changes (class_id, scrape_run_id, changed_fields, previous_values)
+        VALUES (?, ?, ?, ?)
+      `).run(existing.id, scrapeRunId, JSON.stringify(changedFields), JSON.stringify(previousValues));
+      this.enqueue([existing.id], 'upsert');
+
+      return { id: existing.id, status: 'updated', changedFields };
+    })();
+  }
+
+  getClassChanges(classId: number): ClassChange[] {
+    const stmt = this.db.prepare('SELECT * FROM class_changes WHERE class_id = ? ORDER BY id');
+    const rows = stmt.all(classId) as any[];
+    return rows.map(row => ({
+      id: row.id,
+      classId: row.class_id,
+      scrapeRunId: row.scrape_run_id,
+      changedFields: JSON.parse(row.changed_fields),
+      previousValues: JSON.parse(row.previous_values),
+      changedAt: row.changed_at
+    }));
+  }
+
+  // Availability history operations
+
+  /**
+   * Record the spots left and booking status seen for a class on this run
+   * Classes whose provider reports neither are skipped
+   */
+  recordAvailabilitySnapshot(classId: number, scrapeRunId: number, fitnessClass: FitnessClass): void {
+    if (fitnessClass.realTimeAvailability === undefined && !fitnessClass.bookingStatus) {
+      return;
+    }
+
+    const observedAt = fitnessClass.lastAvailabilityCheck || new Date();
+    const hoursBeforeStart = (fitnessClass.datetime.getTime() - observedAt.getTime()) / (60 * 60 * 1000);
+
+    const stmt = this.db.prepare(`
+      INSERT INTO class_availability_snapshots (
+        class_id, scrape_run_id, observed_at, spots_left, capacity, booking_status, hours_before_start
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      classId,
       scrapeRunId,
-      fitnessClass.name,
-      fitnessClass.description,
-      fitnessClass.datetime.toISOString(),
-      fitnessClass.location.name,
-      fitnessClass.location.address,
-      fitnessClass.location.lat,
-      fitnessClass.location.long,
-      fitnessClass.trainer,
-      fitnessClass.intensity,
-      fitnessClass.price,
-      fitnessClass.bookingUrl,
-      fitnessClass.providerId,
-      fitnessClass.providerName,
-      fitnessClass.capacity,
-      JSON.stringify(fitnessClass.tags),
-      fitnessClass.photos ? JSON.stringify(fitnessClass.photos) : null,
-      fitnessClass.trainerInfo ? JSON.stringify(fitnessClass.trainerInfo) : null,
-      fitnessClass.amenities ? JSON.stringify(fitnessClass.amenities) : null,
-      fitnessClass.realTimeAvailability !== undefined ? fitnessClass.realTimeAvailability : null,
+      observedAt.toISOString(),
+      fitnessClass.realTimeAvailability ?? null,
+      fitnessClass.capacity ?? null,
       fitnessClass.bookingStatus || null,
-      fitnessClass.lastAvailabilityCheck ? fitnessClass.lastAvailabilityCheck.toISOString() : null,
-      fitnessClass.pricingDetails ? JSON.stringify(fitnessClass.pricingDetails) : null,
-      fitnessClass.reviews ? JSON.stringify(fitnessClass.reviews) : null
+      hoursBeforeStart
     );
+  }
 
-    return result.lastInsertRowid as number;
+  getAvailabilityHistory(classId: number): AvailabilitySnapshot[] {
+    const stmt = this.db.prepare('SELECT * FROM class_availability_snapshots WHERE class_id = ? ORDER BY observed_at');
+    const rows = stmt.all(classId) as any[];
+    return rows.map(row => ({
+      id: row.id,
+      classId: row.class_id,
+      scrapeRunId: row.scrape_run_id,
+      observedAt: row.observed_at,
+      spotsLeft: row.spots_left ?? undefined,
+      capacity: row.capacity ?? undefined,
+      bookingStatus: row.booking_status || undefined,
+      hoursBeforeStart: row.hours_before_start
+    }));
+  }
+
+  /**
+   * Summarize how a single class filled up across its snapshots
+   */
+  getClassFillSummary(classId: number): ClassFillSummary | null {
+    const classRow = this.db.prepare('SELECT id, name, datetime FROM scraped_classes WHERE id = ?').get(classId) as any;
+    const history = this.getAvailabilityHistory(classId);
+    if (!classRow || history.length === 0) {
+      return null;
+    }
+
+    const soldOut = history.find(s => s.spotsLeft === 0 || s.bookingStatus === 'full' || s.bookingStatus === 'waitlist');
+
+    return {
+      classId,
+      name: classRow.name,
+      datetime: new Date(classRow.datetime),
+      snapshots: history.length,
+      firstObservedAt: history[0].observedAt,
+      initialSpotsLeft: history[0].spotsLeft,
+      latestSpotsLeft: history[history.length - 1].spotsLeft,
+      soldOut: soldOut !== undefined,
+      soldOutAt: soldOut?.observedAt,
+      soldOutHoursBeforeStart: soldOut?.hoursBeforeStart
+    };
+  }
+
+  /**
+   * How often, and how far ahead, each recurring class (same provider, name and location) sells out
+   * Only classes that have already started are counted, so every class had its full chance to sell out
+   */
+  getSelloutStats(options: { providerName?: string; name?: string; minClasses?: number } = {}): SelloutStats[] {
+    const conditions = ["c.datetime <= strftime('%Y-%m-%dT%H:%M:%fZ', 'now')"];
+    const params: any[] = [];
+
+    if (options.providerName) {
+      conditions.push('c.provider_name = ?');
+      params.push(options.providerName);
+    }
+    if (options.name) {
+      conditions.push('c.name LIKE ?');
+      params.push(`%${options.name}%`);
+    }
+
+    // First sold-out observation per class (NULL when it never sold out)
+    const rows = this.db.prepare(`
+      SELECT c.provider_name, c.name, c.location_name,
+             (SELECT MAX(s.hours_before_start)
+                FROM class_availability_snapshots s
+               WHERE s.class_id = c.id AND ${SOLD_OUT_CONDITION}) AS sold_out_hours
+      FROM scraped_classes c
+      WHERE ${conditions.join(' AND ')}
+        AND EXISTS (SELECT 1 FROM class_availability_snapshots s WHERE s.class_id = c.id)
+      ORDER BY c.provider_name, c.name, c.location_name
+    `).all(...params) as any[];
+
+    const groups = new Map<string, { providerName: string; name: string; locationName: string; hours: Array<number | null> }>();
+    for (const row of rows) {
+      const key = `${row.provider_name}|${row.name}|${row.location_name}`;
+      if (!groups.has(key)) {
+        groups.set(key, { providerName: row.provider_name, name: row.name, locationName: row.location_name, hours: [] });
+      }
+      groups.get(key)!.hours.push(row.sold_out_hours);
+    }
+
+    const minClasses = options.minClasses ?? 1;
+    return Array.from(groups.values())
+      .filter(group => group.hours.length >= minClasses)
+      .map(group => {
+        const soldOutHours = group.hours.filter((h): h is number => h !== null).sort((a, b) => a - b);
+        const middle = Math.floor(soldOutHours.length / 2);
+        const median = soldOutHours.length === 0
+          ? undefined
+          : soldOutHours.length % 2 === 1
+            ? soldOutHours[middle]
+            : (soldOutHours[middle - 1] + soldOutHours[middle]) / 2;
+
+        return {
+          providerName: group.providerName,
+          name: group.name,
+          locationName: group.locationName,
+          classesObserved: group.hours.length,
+          classesSoldOut: soldOutHours.length,
+          selloutRate: soldOutHours.length / group.hours.length,
+          medianHoursBeforeSellout: median
+        };
+      });
+  }
+
+  // Cancellation operations
+
+  /**
+   * Active classes of a provider in a time window and set of locations
+   * Classes seen by the given scrape run can be excluded, leaving the ones that vanished
+   */
+  getActiveClassesInWindow(
+    providerName: string,
+    start: Date,
+    end: Date,
+    locationNames: string[],
+    excludeScrapeRunId?: number
+  ): ScrapedClass[] {
+    if (locationNames.length === 0) {
+      return [];
+    }
+
+    const placeholders = locationNames.map(() => '?').join(',');
+    const params: any[] = [providerName, start.toISOString(), end.toISOString(), ...locationNames];
+    let query = `
+      SELECT * FROM scraped_classes
+      WHERE provider_name = ?
+        AND datetime >= ? AND datetime <= ?
+        AND location_name IN (${placeholders})
+        AND schedule_status = 'active'
+    `;
+
+    if (excludeScrapeRunId !== undefined) {
+      query += ' AND scrape_run_id != ?';
+      params.push(excludeScrapeRunId);
+    }
+
+    const rows = this.db.prepare(`${query} ORDER BY datetime`).all(...params) as any[];
+    return rows.map(row => this.rowToScrapedClass(row));
+  }
+
+  /**
+   * Count one more scrape in which each class was missing, and return the new counts by class ID
+   */
+  incrementMissedScrapes(classIds: number[]): Map<number, number> {
+    const counts = new Map<number, number>();
+    if (classIds.length === 0) return counts;
+
+    const update = this.db.prepare('UPDATE scraped_classes SET missed_scrapes = missed_scrapes + 1 WHERE id = ?');
+    const select = this.db.prepare('SELECT missed_scrapes FROM scraped_classes WHERE id = ?');
+
+    this.db.transaction(() => {
+      for (const id of classIds) {
+        update.run(id);
+        counts.set(id, (select.get(id) as { missed_scrapes: number }).missed_scrapes);
+      }
+    })();
+
+    return counts;
+  }
+
+  /**
+   * Cancel classes and queue the cancellations for the backend
+   */
+  markClassesCancelled(classIds: number[]): void {
+    if (classIds.length === 0) return;
+    const placeholders = classIds.map(() => '?').join(',');
+    const stmt = this.db.prepare(`
+      UPDATE scraped_classes
+      SET schedule_status = 'cancelled', cancelled_at = CURRENT_TIMESTAMP, cancellation_notified = 0
+      WHERE id IN (${placeholders})
+    `);
+    this.db.transaction(() => {
+      stmt.run(...classIds);
+      this.enqueue(classIds, 'cancel');
+    })();
+  }
+
+  /**
+   * Cancelled classes the backend has not been told about yet
+   */
+  getUnnotifiedCancellations(limit?: number): ScrapedClass[] {
+    const query = limit
+      ? "SELECT * FROM scraped_classes WHERE schedule_status = 'cancelled' AND cancellation_notified = 0 LIMIT ?"
+      : "SELECT * FROM scraped_classes WHERE schedule_status = 'cancelled' AND cancellation_notified = 0";
+
+    const stmt = this.db.prepare(query);
+    const rows = limit ? stmt.all(limit) : stmt.all();
+
+    return (rows as any[]).map(row => this.rowToScrapedClass(row));
+  }
+
+  markCancellationsNotified(classIds: number[]): void {
+    if (classIds.length === 0) return;
+    const placeholders = classIds.map(() => '?').join(',');
+    const stmt = this.db.prepare(`UPDATE scraped_classes SET cancellation_notified = 1 WHERE id IN (${placeholders})`);
+    stmt.run(...classIds);
+  }
+
+  // Venue operations
+
+  getVenue(id: string): Venue | null {
+    const row = this.db.prepare('SELECT * FROM venues WHERE id = ?').get(id);
+    return row ? this.rowToVenue(row) : null;
+  }
+
+  getAllVenues(): Venue[] {
+    const rows = this.db.prepare('SELECT * FROM venues ORDER BY name').all() as any[];
+    return rows.map(row => this.rowToVenue(row));
+  }
+
+  insertVenue(venue: Venue): void {
+    this.db.prepare(`
+      INSERT INTO venues (id, name, address, lat, long, timezone, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+    `).run(venue.id, venue.name, venue.address, venue.lat ?? null, venue.long ?? null, venue.timezone ?? null);
+  }
+
+  /**
+   * Fill in a venue's coordinates or timezone; fields already set are kept
+   */
+  fillVenueDetails(id: string, details: { lat?: number; long?: number; timezone?: string }): void {
+    this.db.prepare(`
+      UPDATE venues SET
+        lat = COALESCE(lat, ?),
+        long = COALESCE(long, ?),
+        timezone = COALESCE(timezone, ?),
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(details.lat ?? null, details.long ?? null, details.timezone ?? null, id);
+  }
+
+  findVenueIdByAlias(aliasKey: string): string | null {
+    const row = this.db.prepare('SELECT venue_id FROM venue_aliases WHERE alias_key = ?').get(aliasKey) as any;
+    return row ? row.venue_id : null;
+  }
+
+  addVenueAlias(aliasKey: string, venueId: string): void {
+    this.db.prepare('INSERT OR IGNORE INTO venue_aliases (alias_key, venue_id) VALUES (?, ?)').run(aliasKey, venueId);
+  }
+
+  getVenueAliases(venueId: string): string[] {
+    const rows = this.db.prepare('SELECT alias_key FROM venue_aliases WHERE venue_id = ? ORDER BY alias_key').all(venueId) as any[];
+    return rows.map(row => row.alias_key);
+  }
+
+  /**
+   * Number of stored classes per venue ID
+   */
+  getVenueClassCounts(): Map<string, number> {
+    const rows = this.db.prepare(`
+      SELECT venue_id, COUNT(*) AS classes FROM scraped_classes WHERE venue_id IS NOT NULL GROUP BY venue_id
+    `).all() as any[];
+    return new Map(rows.map(row => [row.venue_id, row.classes]));
+  }
+
+  /**
+   * Fold one venue into another: its ID, aliases and classes move to the kept venue, then it is deleted
+   * Moved classes are queued for re-upload so the backend sees the new venue ID
+   */
+  mergeVenues(fromId: string, intoId: string): number {
+    let moved = 0;
+    this.db.transaction(() => {
+      this.db.prepare('UPDATE venue_aliases SET venue_id = ? WHERE venue_id = ?').run(intoId, fromId);
+      this.addVenueAlias(`id:${fromId}`, intoId); // Known venues and stale locations may still carry the old ID
+      const movedIds = (this.db.prepare('SELECT id FROM scraped_classes WHERE venue_id = ?').all(fromId) as any[]).map(row => row.id);
+      moved = this.db.prepare(`
+        UPDATE scraped_classes SET venue_id = ?, uploaded_to_backend = 0 WHERE venue_id = ?
+      `).run(intoId, fromId).changes;
+      this.enqueue(movedIds, 'upsert');
+      this.db.prepare('DELETE FROM venues WHERE id = ?').run(fromId);
+    })();
+    return moved;
+  }
+
+  private rowToVenue(row: any): Venue {
+    return {
+      id: row.id,
+      name: row.name,
+      address: row.address,
+      lat: row.lat ?? undefined,
+      long: row.long ?? undefined,
+      timezone: row.timezone || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  // Instructor operations
+
+  getInstructor(id: string): Instructor | null {
+    const row = this.db.prepare('SELECT * FROM instructors WHERE id = ?').get(id);
+    return row ? this.rowToInstructor(row) : null;
+  }
+
+  getInstructorsByIds(ids: string[]): Instructor[] {
+    if (ids.length === 0) return [];
+    const placeholders = ids.map(() => '?').join(',');
+    const rows = this.db.prepare(`SELECT * FROM instructors WHERE id IN (${placeholders}) ORDER BY id`).all(...ids) as any[];
+    return rows.map(row => this.rowToInstructor(row));
+  }
+
+  getAllInstructors(providerName?: string): Instructor[] {
+    const rows = providerName
+      ? this.db.prepare('SELECT * FROM instructors WHERE provider_name = ? ORDER BY name').all(providerName)
+      : this.db.prepare('SELECT * FROM instructors ORDER BY provider_name, name').all();
+    return (rows as any[]).map(row => this.rowToInstructor(row));
+  }
+
+  /**
+   * Insert or replace an instructor's profile; callers merge it with the stored one first
+   */
+  saveInstructor(instructor: Instructor): void {
+    this.db.prepare(`
+      INSERT INTO instructors (id, provider_name, name, bio, photo_url, certifications, years_experience, social_links, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+      ON CONFLICT(id) DO UPDATE SET
+        name = excluded.name,
+        bio = excluded.bio,
+        photo_url = excluded.photo_url,
+        certifications = excluded.certifications,
+        years_experience = excluded.years_experience,
+        social_links = excluded.social_links,
+        updated_at = CURRENT_TIMESTAMP
+    `).run(
+      instructor.id,
+      instructor.providerName,
+      instructor.name,
+      instructor.bio ?? null,
+      instructor.photoUrl ?? null,
+      instructor.certifications?.length ? JSON.stringify(instructor.certifications) : null,
+      instructor.yearsExperience ?? null,
+      instructor.socialLinks ? JSON.stringify(instructor.socialLinks) : null
+    );
+  }
+
+  /**
+   * Number of stored classes per instructor ID
+   */
+  getInstructorClassCounts(): Map<string, number> {
+    const rows = this.db.prepare(`
+      SELECT instructor_id, COUNT(*) AS classes FROM scraped_classes WHERE instructor_id IS NOT NULL GROUP BY instructor_id
+    `).all() as any[];
+    return new Map(rows.map(row => [row.instructor_id, row.classes]));
+  }
+
+  private rowToInstructor(row: any): Instructor {
+    return {
+      id: row.id,
+      providerName: row.provider_name,
+      name: row.name,
+      bio: row.bio || undefined,
+      photoUrl: row.photo_url || undefined,
+      certifications: row.certifications ? JSON.parse(row.certifications) : undefined,
+      yearsExperience: row.years_experience ?? undefined,
+      socialLinks: row.social_links ? JSON.parse(row.social_links) : undefined,
+      updatedAt: row.updated_at
+    };
+  }
+
+  // Geocode cache operations
+
+  /**
+   * Cached geocoding result for a normalized address, or undefined when absent or expired
+   * A cached miss is returned as { result: null }
+   */
+  getCachedGeocode(addressKey: string): { result: GeocodeResult | null } | undefined {
+    const row = this.db.prepare('SELECT * FROM geocode_cache WHERE address_key = ? AND expires_at > ?')
+      .get(addressKey, new Date().toISOString()) as any;
+    if (!row) {
+      return undefined;
+    }
+
+    this.db.prepare('UPDATE geocode_cache SET hit_count = hit_count + 1 WHERE address_key = ?').run(addressKey);
+
+    return {
+      result: row.found
+        ? {
+            lat: row.lat,
+            long: row.long,
+            formattedAddress: row.formatted_address,
+            timezone: row.timezone || undefined
+          }
+        : null
+    };
+  }
+
+  cacheGeocode(addressKey: string, address: string, result: GeocodeResult | null, expiresAt: Date): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO geocode_cache (
+        address_key, address, found, lat, long, formatted_address, timezone, hit_count, created_at, expires_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?, ?)
+      ON CONFLICT(address_key) DO UPDATE SET
+        address = excluded.address,
+        found = excluded.found,
+        lat = excluded.lat,
+        long = excluded.long,
+        formatted_address = excluded.formatted_address,
+        timezone = excluded.timezone,
+        hit_count = 0,
+        created_at = excluded.created_at,
+        expires_at = excluded.expires_at
+    `);
+    stmt.run(
+      addressKey,
+      address,
+      result ? 1 : 0,
+      result?.lat ?? null,
+      result?.long ?? null,
+      result?.formattedAddress ?? null,
+      result?.timezone ?? null,
+      new Date().toISOString(),
+      expiresAt.toISOString()
+    );
+  }
+
+  getGeocodeCacheStats(): GeocodeCacheStats {
+    const row = this.db.prepare(`
+      SELECT
+        COUNT(*) AS entries,
+        COALESCE(SUM(CASE WHEN found = 1 THEN 1 ELSE 0 END), 0) AS found,
+        COALESCE(SUM(CASE WHEN found = 0 THEN 1 ELSE 0 END), 0) AS not_found,
+        COALESCE(SUM(CASE WHEN expires_at <= ? THEN 1 ELSE 0 END), 0) AS expired,
+        COALESCE(SUM(hit_count), 0) AS total_hits
+      FROM geocode_cache
+    `).get(new Date().toISOString()) as any;
+
+    return {
+      entries: row.entries,
+      found: row.found,
+      notFound: row.not_found,
+      expired: row.expired,
+      totalHits: row.total_hits
+    };
+  }
+
+  /**
+   * Delete expired geocode cache entries, returning how many were removed
+   */
+  pruneGeocodeCache(): number {
+    return this.db.prepare('DELETE FROM geocode_cache WHERE expires_at <= ?').run(new Date().toISOString()).changes;
+  }
+
+  private getFallbackKey(fitnessClass: FitnessClass): string {
+    return createFallbackKey(fitnessClass.location.name, fitnessClass.datetime, fitnessClass.name);
+  }
+
+  /**
+   * Column values for a class, shared by inserts and upserts
+   */
+  private classToRow(fitnessClass: FitnessClass): Record<string, any> {
+    return {
+      name: fitnessClass.name,
+      description: fitnessClass.description,
+      datetime: fitnessClass.datetime.toISOString(),
+      location_name: fitnessClass.location.name,
+      location_address: fitnessClass.location.address,
+      location_lat: fitnessClass.location.lat,
+      location_long: fitnessClass.location.long,
+      location_timezone: fitnessClass.location.timezone ?? null,
+      location_unresolved: fitnessClass.location.unresolved ? 1 : 0,
+      venue_id: fitnessClass.location.venueId ?? null,
+      local_datetime: fitnessClass.localDatetime ?? null,
+      floating_time: fitnessClass.floatingTime ? 1 : 0,
+      end_datetime: fitnessClass.endDatetime ? fitnessClass.endDatetime.toISOString() : null,
+      duration_minutes: fitnessClass.durationMinutes ?? null,
+      trainer: fitnessClass.trainer,
+      intensity: fitnessClass.intensity,
+      price: fitnessClass.price,
+      booking_url: fitnessClass.bookingUrl,
+      provider_id: fitnessClass.providerId,
+      provider_name: fitnessClass.providerName,
+      native_id: fitnessClass.nativeId ?? null,
+      fallback_key: this.getFallbackKey(fitnessClass),
+      capacity: fitnessClass.capacity,
+      tags: JSON.stringify(fitnessClass.tags),
+      taxonomy: fitnessClass.taxonomy ? JSON.stringify(fitnessClass.taxonomy) : null,
+      photos: fitnessClass.photos ? JSON.stringify(fitnessClass.photos) : null,
+      trainer_info: null, // Profiles live in the instructors table; older rows may still hold one here
+      instructor_id: fitnessClass.instructorId ?? null,
+      amenities: fitnessClass.amenities ? JSON.stringify(fitnessClass.amenities) : null,
+      real_time_availability: fitnessClass.realTimeAvailability !== undefined ? fitnessClass.realTimeAvailability : null,
+      booking_status: fitnessClass.bookingStatus || null,
+      last_availability_check: fitnessClass.lastAvailabilityCheck ? fitnessClass.lastAvailabilityCheck.toISOString() : null,
+      pricing_details: fitnessClass.pricingDetails ? JSON.stringify(fitnessClass.pricingDetails) : null,
+      reviews: fitnessClass.reviews ? JSON.stringify(fitnessClass.reviews) : null
+    };
   }
 
   markClassesAsUploaded(classIds: number[]): void {
     if (classIds.length === 0) return;
     const placeholders = classIds.map(() => '?').join(',');
-    const stmt = this.db.prepare(`UPDATE scraped_classes SET uploaded_to_backend = 1 WHERE id IN (${placeholders})`);
+    const stmt = this.db.prepare(`
+      UPDATE scraped_classes SET uploaded_to_backend = 1, rejected_at = NULL, rejection_error = NULL WHERE id IN (${placeholders})
+    `);
     stmt.run(...classIds);
   }
 
+  /**
+   * Record the backend refusing classes, with its reason, for review
+   */
+  markClassesRejected(rejections: Array<{ id: number; error: string }>): void {
+    if (rejections.length === 0) return;
+    const stmt = this.db.prepare('UPDATE scraped_classes SET rejected_at = ?, rejection_error = ? WHERE id = ?');
+    const now = new Date().toISOString();
+    this.db.transaction(() => {
+      for (const rejection of rejections) {
+        stmt.run(now, rejection.error, rejection.id);
+      }
+    })();
+  }
+
+  /**
+   * Classes whose latest upload the backend rejected, most recent first
+   */
+  getRejectedClasses(limit?: number): ScrapedClass[] {
+    const query = 'SELECT * FROM scraped_classes WHERE rejected_at IS NOT NULL ORDER BY rejected_at DESC, id';
+    const rows = (limit ? this.db.prepare(`${query} LIMIT ?`).all(limit) : this.db.prepare(query).all()) as any[];
+    return rows.map(row => this.rowToScrapedClass(row));
+  }
+
+  getRejectedClassCount(): number {
+    return (this.db.prepare('SELECT COUNT(*) AS count FROM scraped_classes WHERE rejected_at IS NOT NULL').get() as any).count;
+  }
+
+  /**
+   * Active classes waiting for upload; duplicates of another provider's class are uploaded as its booking options instead
+   */
   getUnuploadedClasses(limit?: number): ScrapedClass[] {
     const query = limit
-      ? 'SELECT * FROM scraped_classes WHERE uploaded_to_backend = 0 LIMIT ?'
-      : 'SELECT * FROM scraped_classes WHERE uploaded_to_backend = 0';
+      ? "SELECT * FROM scraped_classes WHERE uploaded_to_backend = 0 AND schedule_status = 'active' AND canonical_class_id IS NULL LIMIT ?"
+      : "SELECT * FROM scraped_classes WHERE uploaded_to_backend = 0 AND schedule_status = 'active' AND canonical_class_id IS NULL";
 
     const stmt = this.db.prepare(query);
     const rows = limit ? stmt.all(limit) : stmt.all();
@@ -373,6 +1054,246 @@ export class DatabaseManager {
     return (rows as any[]).map(row => this.rowToScrapedClass(row));
   }
 
+  /**
+   * Queue classes for upload again, e.g. after their booking options changed
+   */
+  markClassesForReupload(classIds: number[]): void {
+    if (classIds.length === 0) return;
+    const placeholders = classIds.map(() => '?').join(',');
+    const stmt = this.db.prepare(`UPDATE scraped_classes SET uploaded_to_backend = 0 WHERE id IN (${placeholders})`);
+    this.db.transaction(() => {
+      stmt.run(...classIds);
+      this.enqueue(classIds, 'upsert');
+    })();
+  }
+
+  getClassesByIds(classIds: number[]): ScrapedClass[] {
+    if (classIds.length === 0) return [];
+    const placeholders = classIds.map(() => '?').join(',');
+    const rows = this.db.prepare(`SELECT * FROM scraped_classes WHERE id IN (${placeholders}) ORDER BY id`).all(...classIds) as any[];
+    return rows.map(row => this.rowToScrapedClass(row));
+  }
+
+  // Upload outbox operations
+
+  /**
+   * Queue outbox entries for classes; see enqueue
+   */
+  enqueueUploads(classIds: number[], action: OutboxAction): void {
+    this.db.transaction(() => this.enqueue(classIds, action))();
+  }
+
+  /**
+   * Take up to `limit` due entries, oldest first, and hide them from other uploaders for leaseMs
+   * An uploader that crashes mid-delivery leaves its entries to be retried once the lease runs out
+   */
+  claimOutboxEntries(limit: number, leaseMs: number): OutboxEntry[] {
+    return this.db.transaction(() => {
+      const now = new Date();
+      const rows = this.db.prepare(`
+        SELECT * FROM upload_outbox
+        WHERE status = 'pending' AND next_attempt_at <= ?
+        ORDER BY id
+        LIMIT ?
+      `).all(now.toISOString(), limit) as any[];
+
+      const leasedUntil = new Date(now.getTime() + leaseMs).toISOString();
+      const claim = this.db.prepare('UPDATE upload_outbox SET attempts = attempts + 1, next_attempt_at = ? WHERE id = ?');
+      for (const row of rows) {
+        claim.run(leasedUntil, row.id);
+      }
+      return rows.map(row => this.rowToOutboxEntry({ ...row, attempts: row.attempts + 1, next_attempt_at: leasedUntil }));
+    })();
+  }
+
+  /**
+   * Remove delivered entries; entries re-queued since they were claimed have new IDs and stay
+   */
+  completeOutboxEntries(entryIds: number[]): void {
+    if (entryIds.length === 0) return;
+    const placeholders = entryIds.map(() => '?').join(',');
+    this.db.prepare(`DELETE FROM upload_outbox WHERE id IN (${placeholders})`).run(...entryIds);
+  }
+
+  /**
+   * Record a failed delivery: retry each entry at its retryAt, or stop retrying it when retryAt is null
+   */
+  failOutboxEntries(entries: Array<{ id: number; retryAt: Date | null }>, error: string): void {
+    const update = this.db.prepare(`
+      UPDATE upload_outbox SET last_error = ?, next_attempt_at = COALESCE(?, next_attempt_at), status = ? WHERE id = ?
+    `);
+    this.db.transaction(() => {
+      for (const { id, retryAt } of entries) {
+        update.run(error, retryAt?.toISOString() ?? null, retryAt ? 'pending' : 'failed', id);
+      }
+    })();
+  }
+
+  /**
+   * Give entries that ran out of attempts a fresh set, starting now
+   */
+  retryFailedOutboxEntries(): number {
+    return this.db.prepare(`
+      UPDATE upload_outbox SET status = 'pending', attempts = 0, next_attempt_at = ? WHERE status = 'failed'
+    `).run(new Date().toISOString()).changes;
+  }
+
+  getOutboxEntries(status?: OutboxEntry['status']): OutboxEntry[] {
+    const rows = status
+      ? this.db.prepare('SELECT * FROM upload_outbox WHERE status = ? ORDER BY id').all(status)
+      : this.db.prepare('SELECT * FROM upload_outbox ORDER BY id').all();
+    return (rows as any[]).map(row => this.rowToOutboxEntry(row));
+  }
+
+  getOutboxStats(): OutboxStats {
+    const counts = this.db.prepare(`
+      SELECT
+        SUM(status = 'pending') AS pending,
+        SUM(status = 'pending' AND attempts > 0) AS retrying,
+        SUM(status = 'failed') AS failed,
+        MIN(CASE WHEN status = 'pending' THEN next_attempt_at END) AS next_attempt_at
+      FROM upload_outbox
+    `).get() as any;
+    const lastError = this.db.prepare(`
+      SELECT last_error FROM upload_outbox WHERE last_error IS NOT NULL ORDER BY next_attempt_at DESC LIMIT 1
+    `).get() as any;
+
+    return {
+      pending: counts.pending ?? 0,
+      retrying: counts.retrying ?? 0,
+      failed: counts.failed ?? 0,
+      nextAttemptAt: counts.next_attempt_at ?? undefined,
+      lastError: lastError?.last_error
+    };
+  }
+
+  /**
+   * A new entry replaces any queued entry with the same class and action, so the backend gets each
+   * class's latest state once; different actions stay queued in the order they happened
+   */
+  private enqueue(classIds: number[], action: OutboxAction): void {
+    const now = new Date().toISOString();
+    const insert = this.db.prepare(`
+      INSERT OR REPLACE INTO upload_outbox (class_id, action, next_attempt_at, created_at) VALUES (?, ?, ?, ?)
+    `);
+    for (const classId of classIds) {
+      insert.run(classId, action, now, now);
+    }
+  }
+
+  private rowToOutboxEntry(row: any): OutboxEntry {
+    return {
+      id: row.id,
+      classId: row.class_id,
+      action: row.action,
+      status: row.status,
+      attempts: row.attempts,
+      lastError: row.last_error ?? undefined,
+      nextAttemptAt: row.next_attempt_at,
+      createdAt: row.created_at
+    };
+  }
+
+  // Delta sync operations
+
+  /**
+   * Record what the backend now holds for each class: the fingerprint it accepted, or null after a delete
+   */
+  markClassesSynced(synced: Array<{ id: number; fingerprint: string | null }>): void {
+    if (synced.length === 0) return;
+    const stmt = this.db.prepare('UPDATE scraped_classes SET synced_fingerprint = ? WHERE id = ?');
+    this.db.transaction(() => {
+      for (const entry of synced) {
+        stmt.run(entry.fingerprint, entry.id);
+      }
+    })();
+  }
+
+  /**
+   * Classes the backend should hold or may still hold: active non-duplicates, anything it accepted before,
+   * and upcoming cancelled or duplicate classes, which a backend restored from a backup could have again
+   */
+  getSyncCandidates(): ScrapedClass[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM scraped_classes
+      WHERE (schedule_status = 'active' AND canonical_class_id IS NULL) OR synced_fingerprint IS NOT NULL OR datetime >= ?
+      ORDER BY id
+    `).all(new Date().toISOString()) as any[];
+    return rows.map(row => this.rowToScrapedClass(row));
+  }
+
+  getSyncCursor(): string | undefined {
+    const row = this.db.prepare("SELECT value FROM sync_state WHERE name = 'cursor'").get() as any;
+    return row?.value;
+  }
+
+  setSyncCursor(cursor: string): void {
+    this.db.prepare(`
+      INSERT INTO sync_state (name, value, updated_at) VALUES ('cursor', ?, ?)
+      ON CONFLICT(name) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+    `).run(cursor, new Date().toISOString());
+  }
+
+  getSyncStats(): SyncStats {
+    const cursor = this.db.prepare("SELECT value, updated_at FROM sync_state WHERE name = 'cursor'").get() as any;
+    const synced = this.db.prepare('SELECT COUNT(*) AS count FROM scraped_classes WHERE synced_fingerprint IS NOT NULL').get() as any;
+    return { cursor: cursor?.value, cursorUpdatedAt: cursor?.updated_at, synced: synced.count };
+  }
+
+  // Cross-provider duplicate operations
+
+  /**
+   * Active classes from other providers starting within the given window, candidates for the same class
+   */
+  getOtherProviderClassesBetween(providerName: string, start: Date, end: Date): ScrapedClass[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM scraped_classes
+      WHERE provider_name != ? AND schedule_status = 'active' AND datetime BETWEEN ? AND ?
+      ORDER BY id
+    `).all(providerName, start.toISOString(), end.toISOString()) as any[];
+    return rows.map(row => this.rowToScrapedClass(row));
+  }
+
+  /**
+   * Link a class to the canonical class it duplicates, or pass null to make it standalone again
+   */
+  setCanonicalClass(classId: number, canonicalClassId: number | null): void {
+    this.db.prepare('UPDATE scraped_classes SET canonical_class_id = ? WHERE id = ?').run(canonicalClassId, classId);
+  }
+
+  getDuplicatesOf(canonicalClassId: number): ScrapedClass[] {
+    const rows = this.db.prepare('SELECT * FROM scraped_classes WHERE canonical_class_id = ? ORDER BY id').all(canonicalClassId) as any[];
+    return rows.map(row => this.rowToScrapedClass(row));
+  }
+
+  /**
+   * Booking options from the active duplicates of each canonical class, keyed by canonical class ID
+   */
+  getBookingOptions(canonicalClassIds: number[]): Map<number, BookingOption[]> {
+    const options = new Map<number, BookingOption[]>();
+    if (canonicalClassIds.length === 0) return options;
+
+    const placeholders = canonicalClassIds.map(() => '?').join(',');
+    const rows = this.db.prepare(`
+      SELECT * FROM scraped_classes
+      WHERE canonical_class_id IN (${placeholders}) AND schedule_status = 'active'
+      ORDER BY id
+    `).all(...canonicalClassIds) as any[];
+
+    for (const row of rows) {
+      const option: BookingOption = {
+        providerName: row.provider_name,
+        providerId: row.provider_id,
+        bookingUrl: row.booking_url,
+        price: row.price ?? undefined,
+        realTimeAvailability: row.real_time_availability ?? undefined,
+        bookingStatus: row.booking_status || undefined
+      };
+      options.set(row.canonical_class_id, [...(options.get(row.canonical_class_id) || []), option]);
+    }
+    return options;
+  }
+
   getClassesByRunId(scrapeRunId: number): ScrapedClass[] {
     const stmt = this.db.prepare('SELECT * FROM scraped_classes WHERE scrape_run_id = ?');
     const rows = stmt.all(scrapeRunId) as any[];
@@ -390,21 +1311,42 @@ export class DatabaseManager {
         name: row.location_name,
         address: row.location_address,
         lat: row.location_lat,
-        long: row.location_long
+        long: row.location_long,
+        timezone: row.location_timezone || undefined,
+        unresolved: row.location_unresolved ? true : undefined,
+        venueId: row.venue_id || undefined
       },
+      localDatetime: row.local_datetime || undefined,
+      floatingTime: row.floating_time ? true : undefined,
+      endDatetime: row.end_datetime ? new Date(row.end_datetime) : undefined,
+      durationMinutes: row.duration_minutes ?? undefined,
       trainer: row.trainer,
       intensity: row.intensity,
       price: row.price,
       bookingUrl: row.booking_url,
       providerId: row.provider_id,
       providerName: row.provider_name,
+      nativeId: row.native_id || undefined,
       capacity: row.capacity,
       tags: JSON.parse(row.tags),
+      taxonomy: row.taxonomy ? JSON.parse(row.taxonomy) : undefined,
       uploadedToBackend: Boolean(row.uploaded_to_backend),
       createdAt: row.created_at,
+      classKey: row.class_key,
+      firstSeen: row.first_seen,
+      lastSeen: row.last_seen,
+      lastChangedAt: row.last_changed_at || undefined,
+      scheduleStatus: row.schedule_status || 'active',
+      cancelledAt: row.cancelled_at || undefined,
+      missedScrapes: row.missed_scrapes ?? 0,
+      canonicalClassId: row.canonical_class_id ?? undefined,
+      rejectedAt: row.rejected_at || undefined,
+      rejectionError: row.rejection_error || undefined,
+      syncedFingerprint: row.synced_fingerprint ?? undefined,
       // Enhanced fields
       photos: row.photos ? JSON.parse(row.photos) : undefined,
       trainerInfo: row.trainer_info ? JSON.parse(row.trainer_info) : undefined,
+      instructorId: row.instructor_id || undefined,
       amenities: row.amenities ? JSON.parse(row.amenities) : undefined,
       realTimeAvailability: row.real_time_availability !== null ? row.real_time_availability : undefined,
       bookingStatus: row.booking_status || undefined,
@@ -414,17 +1356,6 @@ export class DatabaseManager {
     };
   }
 
-  // Check for duplicate classes
-  isDuplicateClass(providerId: string, datetime: Date): boolean {
-    const stmt = this.db.prepare(`
-      SELECT COUNT(*) as count
-      FROM scraped_classes
-      WHERE provider_id = ? AND datetime = ?
-    `);
-    const result = stmt.get(providerId, datetime.toISOString()) as { count: number };
-    return result.count > 0;
-  }
-
   close(): void {
     this.db.close();
     logger.info('Database connection closed');
@@ -0,0 +1,182 @@
+import { DatabaseManager, ScrapedClass } from './Database.js';
+import { isPlaceholderInstructor } from './InstructorRegistry.js';
+import { distanceMeters, nameSimilarity } from './VenueRegistry.js';
+import { logger } from '../utils/logger.js';
+
+export interface DedupeOptions {
+  startToleranceMinutes?: number; // Start times further apart than this are different classes
+  maxDistanceMeters?: number; // Used when the venues were not resolved to the same venue ID
+  minNameSimilarity?: number; // 0-1 similarity of normalized class names
+  providerPriority?: string[]; // Providers whose listing becomes the canonical record, best first
+  aggregators?: string[]; // Resellers of other studios' classes, ranked below the studios themselves
+}
+
+export interface DedupeResult {
+  duplicates: number; // Classes linked to another provider's canonical class
+  requeued: number[]; // Canonical and unlinked classes queued for upload again
+  retracted: ScrapedClass[]; // Classes the backend already has standalone that are now duplicates, queued for retraction
+}
+
+/**
+ * Finds the same class listed by several providers (a studio's own site and an aggregator, say)
+ * and links the listings to one canonical class, so the backend gets one class with several booking options
+ *
+ * Two listings are the same class when they are at the same venue (the same venue ID or close together),
+ * start within the tolerance, have similar names and compatible instructors.
+ * Only one listing per provider can join a group; the canonical class is picked by provider priority.
+ */
+export class DuplicateDetector {
+  private db: DatabaseManager;
+  private startToleranceMs: number;
+  private maxDistanceMeters: number;
+  private minNameSimilarity: number;
+  private providerPriority: string[];
+  private aggregators: Set<string>;
+
+  constructor(db: DatabaseManager, options: DedupeOptions = {}) {
+    this.db = db;
+    this.startToleranceMs = (options.startToleranceMinutes ?? 10) * 60 * 1000;
+    this.maxDistanceMeters = options.maxDistanceMeters ?? 150;
+    this.minNameSimilarity = options.minNameSimilarity ?? 0.6;
+    this.providerPriority = options.providerPriority ?? [];
+    this.aggregators = new Set(options.aggregators ?? ['classpass']);
+  }
+
+  /**
+   * Regroup the given classes, typically those just upserted by a scrape, with other providers' listings
+   */
+  detect(classIds: number[]): DedupeResult {
+    const result: DedupeResult = { duplicates: 0, requeued: [], retracted: [] };
+    const requeue = new Set<number>();
+    const grouped = new Set<number>();
+
+    for (const fitnessClass of this.db.getClassesByIds(classIds)) {
+      if (fitnessClass.scheduleStatus !== 'active' || grouped.has(fitnessClass.id!)) {
+        continue;
+      }
+
+      const group = [fitnessClass, ...this.findMatches(fitnessClass)];
+      const groupIds = new Set(group.map(c => c.id!));
+      const canonical = group.reduce((best, c) => this.compare(c, best) < 0 ? c : best);
+      let changed = false;
+
+      for (const member of group) {
+        grouped.add(member.id!);
+        const target = member.id === canonical.id ? null : canonical.id!;
+        if ((member.canonicalClassId ?? null) !== target) {
+          this.unlinkFrom(member.canonicalClassId, groupIds, requeue);
+          this.db.setCanonicalClass(member.id!, target);
+          changed = true;
+
+          if (target === null) {
+            requeue.add(member.id!);
+          } else if (member.uploadedToBackend && member.canonicalClassId === undefined) {
+            result.retracted.push(member);
+          }
+        }
+
+        // Listings that duplicated this member but no longer belong to the group stand on their own again
+        for (const stale of this.db.getDuplicatesOf(member.id!)) {
+          if (!groupIds.has(stale.id!)) {
+            this.db.setCanonicalClass(stale.id!, null);
+            requeue.add(stale.id!);
+            changed = true;
+          }
+        }
+      }
+
+      if (changed && group.length > 1) {
+        requeue.add(canonical.id!);
+        logger.debug(
+          `Linked ${group.length - 1} duplicates of ${canonical.providerName} class ${canonical.name} ` +
+          `(${canonical.providerId}): ${group.filter(c => c !== canonical).map(c => c.providerName).join(', ')}`
+        );
+      }
+      result.duplicates += group.length - 1;
+    }
+
+    result.requeued = Array.from(requeue);
+    this.db.markClassesForReupload(result.requeued);
+    this.db.enqueueUploads(result.retracted.map(c => c.id!), 'retract');
+
+    if (result.duplicates > 0) {
+      logger.info(`Found ${result.duplicates} classes duplicated across providers, ${result.requeued.length} requeued`);
+    }
+    return result;
+  }
+
+  /**
+   * The best matching listing from each other provider
+   */
+  private findMatches(fitnessClass: ScrapedClass): ScrapedClass[] {
+    const time = fitnessClass.datetime.getTime();
+    const candidates = this.db.getOtherProviderClassesBetween(
+      fitnessClass.providerName,
+      new Date(time - this.startToleranceMs),
+      new Date(time + this.startToleranceMs)
+    );
+
+    const best = new Map<string, { match: ScrapedClass; score: number }>();
+    for (const candidate of candidates) {
+      if (!this.isSameClass(fitnessClass, candidate)) {
+        continue;
+      }
+      // Prefer the closest start time, then the closest name
+      const score = nameSimilarity(fitnessClass.name, candidate.name) -
+        Math.abs(candidate.datetime.getTime() - time) / this.startToleranceMs;
+      const current = best.get(candidate.providerName);
+      if (!current || score > current.score) {
+        best.set(candidate.providerName, { match: candidate, score });
+      }
+    }
+    return Array.from(best.values()).map(b => b.match);
+  }
+
+  private isSameClass(a: ScrapedClass, b: ScrapedClass): boolean {
+    if (Math.abs(a.datetime.getTime() - b.datetime.getTime()) > this.startToleranceMs) {
+      return false;
+    }
+
+    const sameVenue = a.location.venueId && a.location.venueId === b.location.venueId
+      ? true
+      : !a.location.unresolved && !b.location.unresolved &&
+        distanceMeters(a.location.lat, a.location.long, b.location.lat, b.location.long) <= this.maxDistanceMeters;
+
+    return sameVenue &&
+      nameSimilarity(a.name, b.name) >= this.minNameSimilarity &&
+      this.isSameTrainer(a.trainer, b.trainer);
+  }
+
+  /**
+   * Providers abbreviate instructors ("Maya C.", "Maya") or leave them out, so only clearly different names conflict
+   */
+  private isSameTrainer(a: string, b: string): boolean {
+    if (isPlaceholderInstructor(a) || isPlaceholderInstructor(b)) {
+      return true;
+    }
+    const first = a.trim().toLowerCase();
+    const second = b.trim().toLowerCase();
+    return first.split(/\s+/)[0] === second.split(/\s+/)[0] || nameSimilarity(first, second) >= 0.8;
+  }
+
+  /**
+   * Negative when a should be canonical over b: listed priority first, then studios before aggregators, then the oldest
+   */
+  private compare(a: ScrapedClass, b: ScrapedClass): number {
+    const rank = (c: ScrapedClass) => {
+      const index = this.providerPriority.indexOf(c.providerName);
+      if (index >= 0) return index;
+      return this.providerPriority.length + (this.aggregators.has(c.providerName) ? 1 : 0);
+    };
+    return rank(a) - rank(b) || a.id! - b.id!;
+  }
+
+  /**
+   * A class leaving its previous group changes that group's booking options
+   */
+  private unlinkFrom(previousCanonicalId: number | undefined, groupIds: Set<number>, requeue: Set<number>): void {
+    if (previousCanonicalId !== undefined && !groupIds.has(previousCanonicalId)) {
+      requeue.add(previousCanonicalId);
+    }
+  }
+}
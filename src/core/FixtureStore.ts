@@ -0,0 +1,117 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { logger } from '../utils/logger.js';
+
+export type FixtureMode = 'record' | 'replay';
+
+/**
+ * One recorded request and its response
+ */
+export interface Fixture {
+  method: string;
+  url: string;
+  requestBody?: string;
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Directory of recorded page loads and API responses
+ * In record mode every response is written to the directory; in replay mode requests are
+ * answered from it so providers can be tested deterministically without a network
+ */
+export class FixtureStore {
+  private dir: string;
+  private mode: FixtureMode;
+  private fixtures: Fixture[] | null = null;
+
+  constructor(dir: string, mode: FixtureMode) {
+    this.dir = dir;
+    this.mode = mode;
+
+    if (mode === 'replay' && !existsSync(dir)) {
+      throw new Error(`Fixture directory not found: ${dir}`);
+    }
+  }
+
+  isRecording(): boolean {
+    return this.mode === 'record';
+  }
+
+  isReplaying(): boolean {
+    return this.mode === 'replay';
+  }
+
+  getDirectory(): string {
+    return this.dir;
+  }
+
+  /**
+   * Find the recorded response for a request
+   */
+  find(method: string, url: string, requestBody?: string): Fixture | undefined {
+    return this.load().find(fixture =>
+      fixture.method === method.toUpperCase() &&
+      fixture.url === url &&
+      (fixture.requestBody ?? '') === (requestBody ?? '')
+    );
+  }
+
+  /**
+   * Write a fixture to the directory, replacing any earlier recording of the same request
+   */
+  save(fixture: Fixture): void {
+    if (!existsSync(this.dir)) {
+      mkdirSync(this.dir, { recursive: true });
+    }
+
+    const entry = { ...fixture, method: fixture.method.toUpperCase() };
+    const filepath = join(this.dir, this.getFilename(entry));
+    writeFileSync(filepath, JSON.stringify(entry, null, 2));
+    logger.debug(`Recorded fixture ${entry.method} ${entry.url} -> ${filepath}`);
+
+    if (this.fixtures) {
+      this.fixtures = this.fixtures.filter(f => !this.isSameRequest(f, entry));
+      this.fixtures.push(entry);
+    }
+  }
+
+  private load(): Fixture[] {
+    if (this.fixtures) {
+      return this.fixtures;
+    }
+
+    this.fixtures = existsSync(this.dir)
+      ? readdirSync(this.dir)
+          .filter(file => file.endsWith('.json'))
+          .sort()
+          .map(file => JSON.parse(readFileSync(join(this.dir, file), 'utf-8')) as Fixture)
+      : [];
+
+    logger.debug(`Loaded ${this.fixtures.length} fixtures from ${this.dir}`);
+    return this.fixtures;
+  }
+
+  private isSameRequest(a: Fixture, b: Fixture): boolean {
+    return a.method === b.method && a.url === b.url && (a.requestBody ?? '') === (b.requestBody ?? '');
+  }
+
+  /**
+   * Readable, stable filename: method, host and path, plus a hash of the full request
+   */
+  private getFilename(fixture: Fixture): string {
+    const { hostname, pathname } = new URL(fixture.url);
+    const slug = `${hostname}${pathname}`
+      .replace(/[^a-zA-Z0-9]+/g, '-')
+      .replace(/^-|-$/g, '')
+      .substring(0, 80);
+    const hash = createHash('sha1')
+      .update(`${fixture.method} ${fixture.url} ${fixture.requestBody ?? ''}`)
+      .digest('hex')
+      .substring(0, 8);
+
+    return `${fixture.method.toLowerCase()}-${slug}-${hash}.json`;
+  }
+}
@@ -0,0 +1,278 @@
+import { logger } from '../utils/logger.js';
+import type { FixtureStore } from './FixtureStore.js';
+
+export interface HttpClientOptions {
+  userAgent?: string;
+  headers?: Record<string, string>;
+  timeout?: number;
+  maxRetries?: number;
+}
+
+export interface HttpRequestOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string | object;
+  timeout?: number;
+  maxRetries?: number;
+}
+
+export interface HttpResponse {
+  url: string;
+  status: number;
+  headers: Headers;
+  body: string;
+}
+
+/**
+ * Node HTTP client for API-based providers that do not need a browser
+ * Carries cookies between requests, applies default headers and retries transient failures
+ */
+export class HttpClient {
+  private options: Required<Omit<HttpClientOptions, 'headers'>> & { headers: Record<string, string> };
+  // Cookies keyed by domain, then by cookie name
+  private cookies: Map<string, Map<string, string>> = new Map();
+  private fixtures: FixtureStore | null = null;
+
+  constructor(options: HttpClientOptions = {}) {
+    this.options = {
+      userAgent: options.userAgent ?? 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
+      headers: options.headers ?? {},
+      timeout: options.timeout ?? 30000,
+      maxRetries: options.maxRetries ?? 3
+    };
+  }
+
+  /**
+   * Make a request with retry logic, returning the raw response body
+   */
+  async request(url: string, options: HttpRequestOptions = {}): Promise<HttpResponse> {
+    if (this.fixtures?.isReplaying()) {
+      return this.replay(url, options);
+    }
+
+    const maxRetries = options.maxRetries ?? this.options.maxRetries;
+    let lastError: Error | null = null;
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      try {
+        const response = await this.send(url, options);
+
+        if (this.isRetryableStatus(response.status) && attempt < maxRetries) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+
+        return response;
+      } catch (error) {
+        lastError = error as Error;
+        logger.warn(`Request to ${url} failed (attempt ${attempt}/${maxRetries}): ${lastError.message}`);
+
+        if (attempt < maxRetries) {
+          // Wait before retrying (exponential backoff)
+          const delay = Math.min(1000 * Math.pow(2, attempt - 1), 5000);
+          await this.delay(delay);
+        }
+      }
+    }
+
+    throw new Error(`Request to ${url} failed after ${maxRetries} attempts: ${lastError?.message}`);
+  }
+
+  /**
+   * GET a URL and parse the JSON response
+   */
+  async getJson<T = any>(url: string, options: HttpRequestOptions = {}): Promise<T> {
+    const response = await this.request(url, {
+      ...options,
+      method: 'GET',
+      headers: { 'Accept': 'application/json', ...options.headers }
+    });
+    return this.parseJson<T>(response);
+  }
+
+  /**
+   * POST a JSON body and parse the JSON response
+   */
+  async postJson<T = any>(url: string, body: object, options: HttpRequestOptions = {}): Promise<T> {
+    const response = await this.request(url, {
+      ...options,
+      method: 'POST',
+      headers: { 'Accept': 'application/json', 'Content-Type': 'application/json', ...options.headers },
+      body
+    });
+    return this.parseJson<T>(response);
+  }
+
+  /**
+   * GET a URL as text (e.g. an HTML page that sets session cookies)
+   */
+  async getText(url: string, options: HttpRequestOptions = {}): Promise<string> {
+    const response = await this.request(url, { ...options, method: 'GET' });
+    if (response.status >= 400) {
+      throw new Error(`HTTP ${response.status}: ${response.body.slice(0, 200)}`);
+    }
+    return response.body;
+  }
+
+  /**
+   * Set a cookie for a URL's domain
+   */
+  setCookie(url: string, name: string, value: string): void {
+    const domain = new URL(url).hostname;
+    if (!this.cookies.has(domain)) {
+      this.cookies.set(domain, new Map());
+    }
+    this.cookies.get(domain)!.set(name, value);
+  }
+
+  /**
+   * Build the Cookie header for a URL from every matching domain
+   */
+  getCookieHeader(url: string): string | undefined {
+    const hostname = new URL(url).hostname;
+    const pairs: string[] = [];
+
+    for (const [domain, cookies] of this.cookies) {
+      if (hostname === domain || hostname.endsWith(`.${domain}`)) {
+        for (const [name, value] of cookies) {
+          pairs.push(`${name}=${value}`);
+        }
+      }
+    }
+
+    return pairs.length > 0 ? pairs.join('; ') : undefined;
+  }
+
+  clearCookies(): void {
+    this.cookies.clear();
+  }
+
+  /**
+   * Record responses to, or replay them from, a fixture directory
+   */
+  useFixtures(fixtures: FixtureStore | null): void {
+    this.fixtures = fixtures;
+  }
+
+  private async send(url: string, options: HttpRequestOptions): Promise<HttpResponse> {
+    const headers: Record<string, string> = {
+      'User-Agent': this.options.userAgent,
+      ...this.options.headers,
+      ...options.headers
+    };
+
+    const cookieHeader = this.getCookieHeader(url);
+    if (cookieHeader) {
+      headers['Cookie'] = cookieHeader;
+    }
+
+    const body = this.serializeBody(options);
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), options.timeout ?? this.options.timeout);
+
+    try {
+      const response = await fetch(url, {
+        method: options.method ?? 'GET',
+        headers,
+        body,
+        signal: controller.signal
+      });
+
+      this.storeCookies(url, response.headers);
+
+      const result: HttpResponse = {
+        url: response.url || url,
+        status: response.status,
+        headers: response.headers,
+        body: await response.text()
+      };
+
+      if (this.fixtures?.isRecording()) {
+        this.fixtures.save({
+          method: options.method ?? 'GET',
+          url,
+          requestBody: body,
+          status: result.status,
+          headers: { 'content-type': response.headers.get('content-type') ?? '' },
+          body: result.body
+        });
+      }
+
+      return result;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Answer a request from recorded fixtures instead of the network
+   */
+  private replay(url: string, options: HttpRequestOptions): HttpResponse {
+    const method = options.method ?? 'GET';
+    const fixture = this.fixtures!.find(method, url, this.serializeBody(options));
+
+    if (!fixture) {
+      throw new Error(`No fixture recorded for ${method} ${url} in ${this.fixtures!.getDirectory()}`);
+    }
+
+    return {
+      url,
+      status: fixture.status,
+      headers: new Headers(fixture.headers),
+      body: fixture.body
+    };
+  }
+
+  private serializeBody(options: HttpRequestOptions): string | undefined {
+    return options.body === undefined || typeof options.body === 'string'
+      ? options.body
+      : JSON.stringify(options.body);
+  }
+
+  /**
+   * Remember Set-Cookie headers, honouring the Domain attribute when present
+   */
+  private storeCookies(url: string, headers: Headers): void {
+    const setCookies = typeof headers.getSetCookie === 'function' ? headers.getSetCookie() : [];
+
+    for (const setCookie of setCookies) {
+      const [pair, ...attributes] = setCookie.split(';');
+      const separator = pair.indexOf('=');
+      if (separator <= 0) continue;
+
+      const name = pair.slice(0, separator).trim();
+      const value = pair.slice(separator + 1).trim();
+      const domainAttr = attributes
+        .map(attr => attr.trim())
+        .find(attr => attr.toLowerCase().startsWith('domain='));
+      const domain = domainAttr ? domainAttr.slice('domain='.length).replace(/^\./, '') : new URL(url).hostname;
+
+      if (!this.cookies.has(domain)) {
+        this.cookies.set(domain, new Map());
+      }
+      this.cookies.get(domain)!.set(name, value);
+    }
+  }
+
+  private parseJson<T>(response: HttpResponse): T {
+    if (response.status >= 400) {
+      throw new Error(`HTTP ${response.status}: ${response.body.slice(0, 200)}`);
+    }
+    try {
+      return JSON.parse(response.body) as T;
+    } catch (error) {
+      throw new Error(`Invalid JSON from ${response.url}: ${response.body.slice(0, 200)}`);
+    }
+  }
+
+  private isRetryableStatus(status: number): boolean {
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  /**
+   * Delay helper function
+   */
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,81 @@
+import { DatabaseManager } from './Database.js';
+import { FitnessClass, Instructor, TrainerInfo } from '../models/FitnessClass.js';
+import { normalizeClassName } from '../utils/classIdentity.js';
+
+// Names providers use when no instructor is assigned
+const PLACEHOLDER_INSTRUCTORS = new Set(['', 'staff', 'instructor', 'tba', 'tbd', 'various', 'team']);
+
+/**
+ * Whether a trainer name is a placeholder rather than a person
+ */
+export function isPlaceholderInstructor(name: string): boolean {
+  return PLACEHOLDER_INSTRUCTORS.has(normalizeClassName(name));
+}
+
+/**
+ * Keeps one instructor profile per provider and normalized name in the instructors table,
+ * merging the details each class card or instructor listing contributes
+ *
+ * Merging never loses information: the longest bio and the most recent photo are kept,
+ * certifications and social links are combined, and years of experience only grows
+ */
+export class InstructorRegistry {
+  private db: DatabaseManager;
+
+  constructor(db: DatabaseManager) {
+    this.db = db;
+  }
+
+  /**
+   * Merge a class's trainer into the instructors table and return the instructor ID, or undefined for placeholders
+   */
+  resolve(fitnessClass: FitnessClass): string | undefined {
+    const profile = fitnessClass.trainerInfo?.name ? fitnessClass.trainerInfo : { name: fitnessClass.trainer };
+    return this.addProfile(fitnessClass.providerName, profile);
+  }
+
+  /**
+   * Merge a profile from a provider that lists instructors apart from their classes
+   */
+  addProfile(providerName: string, profile: TrainerInfo): string | undefined {
+    const name = profile.name?.trim();
+    if (!name || isPlaceholderInstructor(name)) {
+      return undefined;
+    }
+
+    const id = instructorId(providerName, name);
+    const existing = this.db.getInstructor(id);
+    const merged = mergeProfiles(existing ?? { id, providerName, name }, profile);
+
+    // Most classes repeat a profile that is already stored
+    if (!existing || JSON.stringify({ ...existing, updatedAt: undefined }) !== JSON.stringify(merged)) {
+      this.db.saveInstructor(merged);
+    }
+
+    return id;
+  }
+}
+
+/**
+ * Instructor ID: the provider plus the normalized name, e.g. "equinox:maya chen"
+ */
+export function instructorId(providerName: string, name: string): string {
+  return `${providerName}:${normalizeClassName(name)}`;
+}
+
+function mergeProfiles(existing: Instructor, profile: TrainerInfo): Instructor {
+  const certifications = Array.from(new Set([...(existing.certifications ?? []), ...(profile.certifications ?? [])]));
+  const years = [existing.yearsExperience, profile.yearsExperience].filter((y): y is number => y !== undefined);
+  const socialLinks = { ...existing.socialLinks, ...profile.socialLinks };
+
+  return {
+    id: existing.id,
+    providerName: existing.providerName,
+    name: existing.name,
+    bio: (profile.bio?.length ?? 0) > (existing.bio?.length ?? 0) ? profile.bio : existing.bio,
+    photoUrl: profile.photoUrl || existing.photoUrl,
+    certifications: certifications.length > 0 ? certifications : undefined,
+    yearsExperience: years.length > 0 ? Math.max(...years) : undefined,
+    socialLinks: Object.keys(socialLinks).length > 0 ? socialLinks : undefined
+  };
+}
@@ -0,0 +1,127 @@
+import Database from 'better-sqlite3';
+import { MIGRATIONS } from './migrations/index.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * One schema change. `up` runs inside a transaction together with the row recording it in schema_migrations,
+ * so a migration that throws leaves the database at the previous version.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: Database.Database): void;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt?: string; // Unset while pending
+  unknown?: boolean; // Applied by a newer build whose migration this build does not have
+}
+
+/**
+ * Applies numbered migrations in order and records each in the schema_migrations table
+ */
+export class Migrator {
+  private db: Database.Database;
+  private migrations: Migration[];
+
+  constructor(db: Database.Database, migrations: Migration[] = MIGRATIONS) {
+    const sorted = [...migrations].sort((a, b) => a.version - b.version);
+    sorted.forEach((migration, index) => {
+      if (index > 0 && migration.version === sorted[index - 1].version) {
+        throw new Error(`Duplicate migration version ${migration.version}: ${sorted[index - 1].name}, ${migration.name}`);
+      }
+    });
+
+    this.db = db;
+    this.migrations = sorted;
+  }
+
+  /**
+   * Highest applied version, 0 for a database that has never been migrated
+   */
+  getCurrentVersion(): number {
+    if (!this.hasTable('schema_migrations')) {
+      return 0;
+    }
+    const row = this.db.prepare('SELECT MAX(version) AS version FROM schema_migrations').get() as any;
+    return row.version ?? 0;
+  }
+
+  getLatestVersion(): number {
+    return this.migrations.length > 0 ? this.migrations[this.migrations.length - 1].version : 0;
+  }
+
+  getPending(): Migration[] {
+    const applied = this.getApplied();
+    return this.migrations.filter(m => !applied.has(m.version));
+  }
+
+  /**
+   * Every known migration with the time it was applied, plus any applied migrations this build does not know
+   */
+  getStatus(): MigrationStatus[] {
+    const applied = this.getApplied();
+    const status: MigrationStatus[] = this.migrations.map(m => ({
+      version: m.version,
+      name: m.name,
+      appliedAt: applied.get(m.version)?.appliedAt
+    }));
+
+    for (const [version, row] of applied) {
+      if (!this.migrations.some(m => m.version === version)) {
+        status.push({ version, name: row.name, appliedAt: row.appliedAt, unknown: true });
+      }
+    }
+    return status.sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Apply pending migrations up to targetVersion (default: all of them), each in its own transaction
+   */
+  migrate(targetVersion: number = this.getLatestVersion()): Migration[] {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at DATETIME NOT NULL
+      )
+    `);
+
+    const unknown = this.getStatus().filter(s => s.unknown);
+    if (unknown.length > 0) {
+      throw new Error(
+        `Database has migrations this version does not know (${unknown.map(s => `${s.version} ${s.name}`).join(', ')}); ` +
+        'upgrade numina-scrapers before using it'
+      );
+    }
+
+    const pending = this.getPending().filter(m => m.version <= targetVersion);
+    if (pending.length > 0 && this.getCurrentVersion() === 0 && this.hasTable('scraped_classes')) {
+      logger.info('Adopting a database created before schema versioning');
+    }
+
+    const record = this.db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)');
+    for (const migration of pending) {
+      this.db.transaction(() => {
+        migration.up(this.db);
+        record.run(migration.version, migration.name, new Date().toISOString());
+      })();
+      logger.info(`Applied migration ${migration.version} ${migration.name}`);
+    }
+    return pending;
+  }
+
+  private getApplied(): Map<number, { name: string; appliedAt: string }> {
+    if (!this.hasTable('schema_migrations')) {
+      return new Map();
+    }
+    const rows = this.db.prepare('SELECT version, name, applied_at FROM schema_migrations').all() as any[];
+    return new Map(rows.map(row => [row.version, { name: row.name, appliedAt: row.applied_at }]));
+  }
+
+  private hasTable(name: string): boolean {
+    return this.db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(name) !== undefined;
+  }
+}
@@ -0,0 +1,362 @@
+import { DatabaseManager, OutboxEntry, ScrapedClass } from './Database.js';
+import { BackendClient, ChangesetResult, SyncOperation } from './BackendClient.js';
+import { BookingOption, FitnessClass } from '../models/FitnessClass.js';
+import { getClassFingerprint, getClassKey } from '../utils/classIdentity.js';
+import { logger } from '../utils/logger.js';
+
+export interface OutboxOptions {
+  batchSize?: number; // Entries delivered per changeset
+  maxAttempts?: number; // Entries failing this often are set aside until `upload --retry-failed`
+  retryDelayMs?: number; // Wait after the first failure, doubled after each further one
+  maxRetryDelayMs?: number;
+  leaseMs?: number; // How long a claimed entry is hidden from other uploaders
+}
+
+export interface DeliveryResult {
+  uploaded: number; // Classes created or updated
+  rejected: number; // Classes the backend refused; they are not retried
+  cancelled: number; // Cancellations sent
+  retracted: number; // Duplicates retracted
+  unchanged: number; // Classes queued for upload that the backend already holds as they are
+  skipped: number; // Entries with nothing left to send, e.g. uploads of classes cancelled since
+  failed: number; // Entries that will be retried or were set aside
+}
+
+export interface ReconcileResult {
+  checked: number; // Classes compared with the backend
+  queued: number; // Classes whose backend copy differed, queued for delivery
+}
+
+// An operation in a changeset with the outbox entries it delivers
+interface Change {
+  operation: SyncOperation;
+  entries: OutboxEntry[];
+}
+
+/**
+ * The class as the backend sees it, without the scraper's own bookkeeping
+ */
+function toSyncClass(fitnessClass: ScrapedClass, bookingOptions?: BookingOption[]): FitnessClass {
+  const {
+    id, scrapeRunId, uploadedToBackend, createdAt, classKey, firstSeen, lastSeen, lastChangedAt, scheduleStatus,
+    cancelledAt, missedScrapes, canonicalClassId, rejectedAt, rejectionError, syncedFingerprint, ...content
+  } = fitnessClass;
+  return bookingOptions ? { ...content, bookingOptions } : content;
+}
+
+/**
+ * Delivers the upload outbox to the backend as changesets
+ *
+ * Every command that talks to the backend goes through deliver(), which drains the due entries in batches. Each batch
+ * becomes one changeset of create, update and delete operations; uploads of classes whose fingerprint matches what the
+ * backend last accepted are dropped. An entry is removed from the outbox once the backend accepted or rejected its
+ * class; otherwise it is retried with exponential backoff. Rejected classes keep the backend's error for review.
+ *
+ * Changesets are based on the cursor the backend returned for the previous one. When the backend has moved on,
+ * reconcile() compares fingerprints with it and queues whatever differs before the batch is sent again.
+ * Calls made while a delivery is running wait for it to finish.
+ */
+export class OutboxUploader {
+  private db: DatabaseManager;
+  private backendClient: BackendClient;
+  private batchSize: number;
+  private maxAttempts: number;
+  private retryDelayMs: number;
+  private maxRetryDelayMs: number;
+  private leaseMs: number;
+  private delivering: Promise<unknown> = Promise.resolve();
+
+  constructor(db: DatabaseManager, backendClient: BackendClient, options: OutboxOptions = {}) {
+    this.db = db;
+    this.backendClient = backendClient;
+    this.batchSize = options.batchSize ?? 50;
+    this.maxAttempts = options.maxAttempts ?? 8;
+    this.retryDelayMs = options.retryDelayMs ?? 60 * 1000;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? 6 * 60 * 60 * 1000;
+    this.leaseMs = options.leaseMs ?? 10 * 60 * 1000;
+  }
+
+  /**
+   * Deliver due entries, at most `limit` of them
+   */
+  deliver(limit?: number): Promise<DeliveryResult> {
+    return this.serialize(() => this.deliverDue(limit ?? Infinity));
+  }
+
+  /**
+   * Compare the backend's copy of every class it should or may hold with the local state, and queue the differences
+   */
+  reconcile(): Promise<ReconcileResult> {
+    return this.serialize(() => this.compareWithBackend());
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.delivering.then(task);
+    this.delivering = run.catch(() => undefined);
+    return run;
+  }
+
+  private async deliverDue(limit: number): Promise<DeliveryResult> {
+    const result: DeliveryResult = { uploaded: 0, rejected: 0, cancelled: 0, retracted: 0, unchanged: 0, skipped: 0, failed: 0 };
+    let claimed = 0;
+    let reconciled = false;
+
+    while (claimed < limit) {
+      const entries = this.db.claimOutboxEntries(Math.min(this.batchSize, limit - claimed), this.leaseMs);
+      if (entries.length === 0) {
+        break;
+      }
+      claimed += entries.length;
+
+      const classes = new Map(this.db.getClassesByIds(entries.map(e => e.classId)).map(c => [c.id!, c]));
+      const orphaned = entries.filter(e => !classes.has(e.classId));
+      this.db.completeOutboxEntries(orphaned.map(e => e.id));
+      result.skipped += orphaned.length;
+
+      const changes = [
+        ...this.buildDeletes(entries.filter(e => e.action !== 'upsert' && classes.has(e.classId)), classes),
+        ...this.buildUploads(entries.filter(e => e.action === 'upsert' && classes.has(e.classId)), classes, result)
+      ];
+      if (changes.length === 0) {
+        continue;
+      }
+
+      const uploads = changes.map(c => c.operation.class).filter((c): c is FitnessClass => c !== undefined);
+      const instructorIds = Array.from(new Set(uploads.map(c => c.instructorId).filter((id): id is string => !!id)));
+      const response = await this.backendClient.sendChangeset(
+        changes.map(c => c.operation),
+        this.db.getInstructorsByIds(instructorIds),
+        this.db.getSyncCursor()
+      );
+
+      if (response.stale && !reconciled) {
+        // Put the batch back, then send it again on top of the backend's current state
+        const batch = changes.flatMap(c => c.entries);
+        this.db.failOutboxEntries(batch.map(e => ({ id: e.id, retryAt: new Date() })), response.errors.join('; '));
+        claimed -= batch.length;
+        reconciled = true;
+        try {
+          await this.compareWithBackend();
+        } catch (error) {
+          logger.error(`Reconciling with the backend failed: ${error}`);
+          break;
+        }
+        continue;
+      }
+
+      if (response.cursor) {
+        this.db.setSyncCursor(response.cursor);
+      }
+      this.applyResults(changes, response, result);
+    }
+
+    if (claimed > 0) {
+      logger.info(
+        `Outbox delivered: ${result.uploaded} uploaded, ${result.cancelled} cancelled, ${result.retracted} retracted` +
+        (result.rejected > 0 ? `, ${result.rejected} rejected` : '') +
+        (result.unchanged > 0 ? `, ${result.unchanged} already current` : '') +
+        (result.skipped > 0 ? `, ${result.skipped} no longer needed` : '') +
+        (result.failed > 0 ? `, ${result.failed} failed` : '')
+      );
+    }
+    return result;
+  }
+
+  /**
+   * One delete per class for cancellation and retraction entries
+   */
+  private buildDeletes(entries: OutboxEntry[], classes: Map<number, ScrapedClass>): Change[] {
+    const changes = new Map<number, Change>();
+    for (const entry of entries) {
+      const fitnessClass = classes.get(entry.classId)!;
+      const change: Change = changes.get(entry.classId) ?? {
+        operation: {
+          op: 'delete',
+          classKey: getClassKey(fitnessClass),
+          classId: fitnessClass.id,
+          reason: entry.action === 'cancel' ? 'removed_from_schedule' : 'duplicate'
+        },
+        entries: []
+      };
+      change.entries.push(entry);
+      changes.set(entry.classId, change);
+    }
+    return Array.from(changes.values());
+  }
+
+  /**
+   * Creates and updates for upsert entries, carrying the other providers' listings of each class.
+   * A duplicate's change is delivered by uploading its canonical class again.
+   */
+  private buildUploads(entries: OutboxEntry[], classes: Map<number, ScrapedClass>, result: DeliveryResult): Change[] {
+    if (entries.length === 0) {
+      return [];
+    }
+
+    const canonicalIds = entries
+      .map(e => classes.get(e.classId)!.canonicalClassId)
+      .filter((id): id is number => id !== undefined && !classes.has(id));
+    for (const canonical of this.db.getClassesByIds(canonicalIds)) {
+      classes.set(canonical.id!, canonical);
+    }
+
+    const targets = new Map<number, { target: ScrapedClass; entries: OutboxEntry[] }>();
+    const skipped: OutboxEntry[] = [];
+    for (const entry of entries) {
+      const fitnessClass = classes.get(entry.classId)!;
+      const target = fitnessClass.canonicalClassId !== undefined ? classes.get(fitnessClass.canonicalClassId) : fitnessClass;
+      if (target && target.scheduleStatus === 'active') {
+        const upload = targets.get(target.id!) ?? { target, entries: [] };
+        upload.entries.push(entry);
+        targets.set(target.id!, upload);
+      } else {
+        skipped.push(entry);
+      }
+    }
+    this.db.completeOutboxEntries(skipped.map(e => e.id));
+    result.skipped += skipped.length;
+
+    const options = this.db.getBookingOptions(Array.from(targets.keys()));
+    const changes: Change[] = [];
+    const unchanged: Array<{ target: ScrapedClass; entries: OutboxEntry[] }> = [];
+    for (const upload of targets.values()) {
+      const { target } = upload;
+      const syncClass = toSyncClass(target, options.get(target.id!));
+      const fingerprint = getClassFingerprint(syncClass);
+      if (fingerprint === target.syncedFingerprint) {
+        unchanged.push(upload);
+        continue;
+      }
+      changes.push({
+        operation: {
+          op: target.syncedFingerprint ? 'update' : 'create',
+          classKey: getClassKey(target),
+          classId: target.id,
+          class: syncClass,
+          fingerprint,
+          previousFingerprint: target.syncedFingerprint
+        },
+        entries: upload.entries
+      });
+    }
+
+    this.db.completeOutboxEntries(unchanged.flatMap(u => u.entries).map(e => e.id));
+    this.db.markClassesAsUploaded(unchanged.map(u => u.target.id!));
+    result.unchanged += unchanged.length;
+    return changes;
+  }
+
+  /**
+   * Complete the entries of accepted and rejected operations, record what the backend now holds,
+   * and schedule the rest for another attempt
+   */
+  private applyResults(changes: Change[], response: ChangesetResult, result: DeliveryResult): void {
+    const done: OutboxEntry[] = [];
+    const synced: Array<{ id: number; fingerprint: string | null }> = [];
+    const uploadedIds: number[] = [];
+    const notifiedIds: number[] = [];
+    const rejections: Array<{ id: number; error: string }> = [];
+    const failedByError = new Map<string, OutboxEntry[]>();
+
+    changes.forEach(({ operation, entries }, index) => {
+      const item = response.items[index];
+      const classId = operation.classId!;
+      if (item.status === 'failed') {
+        const error = item.error ?? 'No result from the backend';
+        failedByError.set(error, [...(failedByError.get(error) ?? []), ...entries]);
+        return;
+      }
+
+      done.push(...entries);
+      if (item.status === 'rejected') {
+        rejections.push({ id: classId, error: item.error ?? 'Rejected without a reason' });
+      } else if (operation.op === 'delete') {
+        synced.push({ id: classId, fingerprint: null });
+        for (const entry of entries) {
+          if (entry.action === 'cancel') {
+            notifiedIds.push(classId);
+            result.cancelled++;
+          } else {
+            result.retracted++;
+          }
+        }
+      } else {
+        synced.push({ id: classId, fingerprint: operation.fingerprint! });
+        uploadedIds.push(classId);
+      }
+    });
+
+    this.db.completeOutboxEntries(done.map(e => e.id));
+    this.db.markClassesSynced(synced);
+    this.db.markClassesAsUploaded(uploadedIds);
+    this.db.markCancellationsNotified(notifiedIds);
+    this.db.markClassesRejected(rejections);
+    for (const rejection of rejections) {
+      logger.warn(`Backend rejected class ${rejection.id}: ${rejection.error}`);
+    }
+    for (const [error, entries] of failedByError) {
+      this.fail(entries, error, result);
+    }
+
+    result.uploaded += uploadedIds.length;
+    result.rejected += rejections.length;
+  }
+
+  /**
+   * Classes the backend should hold are queued for upload when its copy is missing or differs from the current state;
+   * classes it should not hold are queued for cancellation or retraction when it still has them
+   */
+  private async compareWithBackend(): Promise<ReconcileResult> {
+    const candidates = this.db.getSyncCandidates();
+    const check = await this.backendClient.checkClasses(candidates.map(c => getClassKey(c)));
+    const options = this.db.getBookingOptions(candidates.map(c => c.id!));
+
+    const synced: Array<{ id: number; fingerprint: string | null }> = [];
+    const uploads: number[] = [];
+    const cancels: number[] = [];
+    const retracts: number[] = [];
+    for (const fitnessClass of candidates) {
+      const remote = check.fingerprints.get(getClassKey(fitnessClass));
+      if (remote !== fitnessClass.syncedFingerprint) {
+        synced.push({ id: fitnessClass.id!, fingerprint: remote ?? null });
+      }
+
+      if (fitnessClass.scheduleStatus === 'active' && fitnessClass.canonicalClassId === undefined) {
+        if (remote !== getClassFingerprint(toSyncClass(fitnessClass, options.get(fitnessClass.id!)))) {
+          uploads.push(fitnessClass.id!);
+        }
+      } else if (remote !== undefined) {
+        (fitnessClass.scheduleStatus === 'cancelled' ? cancels : retracts).push(fitnessClass.id!);
+      }
+    }
+
+    this.db.markClassesSynced(synced);
+    this.db.markClassesForReupload(uploads);
+    this.db.enqueueUploads(cancels, 'cancel');
+    this.db.enqueueUploads(retracts, 'retract');
+    if (check.cursor) {
+      this.db.setSyncCursor(check.cursor);
+    }
+
+    const queued = uploads.length + cancels.length + retracts.length;
+    logger.info(`Reconciled ${candidates.length} classes with the backend: ${queued} queued` +
+      (queued > 0 ? ` (${uploads.length} uploads, ${cancels.length} cancellations, ${retracts.length} retractions)` : ''));
+    return { checked: candidates.length, queued };
+  }
+
+  private fail(entries: OutboxEntry[], error: string, result: DeliveryResult): void {
+    const now = Date.now();
+    this.db.failOutboxEntries(entries.map(entry => ({
+      id: entry.id,
+      retryAt: entry.attempts >= this.maxAttempts
+        ? null
+        : new Date(now + Math.min(this.retryDelayMs * 2 ** (entry.attempts - 1), this.maxRetryDelayMs))
+    })), error);
+
+    const abandoned = entries.filter(e => e.attempts >= this.maxAttempts).length;
+    if (abandoned > 0) {
+      logger.error(`Gave up on ${abandoned} outbox entries after ${this.maxAttempts} attempts: ${error}`);
+    }
+    result.failed += entries.length;
+  }
+}
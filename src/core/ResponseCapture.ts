@@ -0,0 +1,135 @@
+import type { HTTPResponse, Page } from 'puppeteer';
+import { logger } from '../utils/logger.js';
+
+/**
+ * A URL pattern: substrings match anywhere in the URL, regular expressions are tested against it
+ */
+export type UrlPattern = string | RegExp;
+
+export interface CapturedResponse {
+  url: string;
+  method: string;
+  status: number;
+  requestBody?: string;
+  data: any;
+}
+
+interface ResponseWaiter {
+  pattern?: UrlPattern;
+  resolve: (response: CapturedResponse) => void;
+}
+
+/**
+ * Collects the parsed JSON bodies of page responses whose URLs match registered patterns
+ * Lets providers read a site's own API calls instead of scraping the rendered DOM
+ */
+export class ResponseCapture {
+  private page: Page;
+  private patterns: UrlPattern[];
+  private responses: CapturedResponse[] = [];
+  private pending: Set<Promise<void>> = new Set();
+  private waiters: ResponseWaiter[] = [];
+  private handler: (response: HTTPResponse) => void;
+
+  constructor(page: Page, patterns: UrlPattern[]) {
+    this.page = page;
+    this.patterns = patterns;
+    this.handler = (response) => {
+      if (!this.patterns.some(pattern => ResponseCapture.matches(response.url(), pattern))) {
+        return;
+      }
+
+      const parsing = this.record(response).finally(() => this.pending.delete(parsing));
+      this.pending.add(parsing);
+    };
+
+    page.on('response', this.handler);
+  }
+
+  /**
+   * Check whether a URL matches a pattern
+   */
+  static matches(url: string, pattern: UrlPattern): boolean {
+    return typeof pattern === 'string' ? url.includes(pattern) : pattern.test(url);
+  }
+
+  /**
+   * Get every captured response so far, optionally narrowed to one pattern
+   * Waits for responses whose bodies are still being read
+   */
+  async getResponses(pattern?: UrlPattern): Promise<CapturedResponse[]> {
+    await Promise.all(Array.from(this.pending));
+    return pattern
+      ? this.responses.filter(response => ResponseCapture.matches(response.url, pattern))
+      : [...this.responses];
+  }
+
+  /**
+   * Wait for the first response matching a pattern (or any registered pattern)
+   */
+  waitForResponse(pattern?: UrlPattern, timeout: number = 30000): Promise<CapturedResponse> {
+    // Responses still being read resolve the waiter when recorded
+    const existing = this.responses.find(response => !pattern || ResponseCapture.matches(response.url, pattern));
+    if (existing) {
+      return Promise.resolve(existing);
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: ResponseWaiter = {
+        pattern,
+        resolve: (response) => {
+          clearTimeout(timeoutId);
+          resolve(response);
+        }
+      };
+
+      const timeoutId = setTimeout(() => {
+        this.waiters = this.waiters.filter(w => w !== waiter);
+        reject(new Error(`Timed out after ${timeout}ms waiting for a response matching ${pattern ?? this.patterns.join(', ')}`));
+      }, timeout);
+
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Stop listening for responses
+   */
+  stop(): void {
+    this.page.off('response', this.handler);
+  }
+
+  private async record(response: HTTPResponse): Promise<void> {
+    const request = response.request();
+    const status = response.status();
+
+    // Redirects and CORS preflights have no body worth reading
+    if (request.method() === 'OPTIONS' || (status >= 300 && status < 400)) {
+      return;
+    }
+
+    let data: any;
+    try {
+      data = JSON.parse(await response.text());
+    } catch (error) {
+      logger.debug(`Skipping non-JSON response from ${response.url()}`);
+      return;
+    }
+
+    const captured: CapturedResponse = {
+      url: response.url(),
+      method: request.method(),
+      status,
+      requestBody: request.postData(),
+      data
+    };
+    this.responses.push(captured);
+    logger.debug(`Captured ${captured.method} ${captured.url} (${status})`);
+
+    const matched = this.waiters.filter(waiter => !waiter.pattern || ResponseCapture.matches(captured.url, waiter.pattern));
+    this.waiters = this.waiters.filter(waiter => !matched.includes(waiter));
+    for (const waiter of matched) {
+      waiter.resolve(captured);
+    }
+  }
+}
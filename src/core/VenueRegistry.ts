@@ -0,0 +1,243 @@
+import { createHash } from 'crypto';
+import { DatabaseManager, Venue } from './Database.js';
+import { Location } from '../models/FitnessClass.js';
+import { KnownVenue } from '../providers/knownVenues.js';
+import { normalizeAddress } from '../utils/geocoding.js';
+import { logger } from '../utils/logger.js';
+
+export interface VenueRegistryOptions {
+  maxDistanceMeters?: number; // Venues further apart than this are never matched on name alone
+  minNameSimilarity?: number; // 0-1 similarity of normalized names needed for a fuzzy match
+}
+
+/**
+ * Resolves the location of every scraped class to a canonical venue in the venues table,
+ * so the same studio keeps one venue ID across spellings, runs and providers
+ *
+ * Resolution order:
+ * - a venueId the provider already knows (see knownVenues), following merges
+ * - an exact alias: a name and address spelling seen before
+ * - a fuzzy match on name similarity plus distance or the same street address; different street addresses never match
+ * - otherwise a new venue
+ * Every spelling that resolves is stored as an alias, so the fuzzy match runs once per spelling
+ */
+export class VenueRegistry {
+  private db: DatabaseManager;
+  private maxDistanceMeters: number;
+  private minNameSimilarity: number;
+  private venues: Venue[] | null = null; // Candidates for fuzzy matching, loaded on first use
+
+  constructor(db: DatabaseManager, options: VenueRegistryOptions = {}) {
+    this.db = db;
+    this.maxDistanceMeters = options.maxDistanceMeters ?? 150;
+    this.minNameSimilarity = options.minNameSimilarity ?? 0.6;
+  }
+
+  /**
+   * Add venues whose details are known up front; venues already stored are left as they are
+   */
+  seed(knownVenues: KnownVenue[]): void {
+    for (const known of knownVenues) {
+      if (!this.db.getVenue(known.id)) {
+        this.insert({ id: known.id, name: known.name, address: known.address, lat: known.lat, long: known.long, timezone: known.timezone });
+      }
+      this.db.addVenueAlias(this.aliasKey(known.name, known.address), known.id);
+    }
+  }
+
+  /**
+   * The class location with its venueId set, and coordinates or timezone filled from the venue when missing
+   * Only venues found by venueId or alias lend their details; a fuzzy match could be another branch of the same chain
+   */
+  resolve(location: Location): Location {
+    const { venue, fuzzy } = this.match(location);
+
+    const resolved: Location = { ...location, venueId: venue.id };
+    if (fuzzy) {
+      return resolved;
+    }
+    if (location.unresolved && venue.lat !== undefined && venue.long !== undefined) {
+      resolved.lat = venue.lat;
+      resolved.long = venue.long;
+      delete resolved.unresolved;
+    }
+    if (!resolved.timezone && venue.timezone) {
+      resolved.timezone = venue.timezone;
+    }
+    return resolved;
+  }
+
+  /**
+   * Find the venue a location refers to, creating it when nothing matches
+   */
+  findOrCreate(location: Location): Venue {
+    return this.match(location).venue;
+  }
+
+  private match(location: Location): { venue: Venue; fuzzy: boolean } {
+    const aliasKey = this.aliasKey(location.name, location.address);
+
+    let venue: Venue | null = null;
+    if (location.venueId) {
+      const mergedInto = this.db.findVenueIdByAlias(`id:${location.venueId}`);
+      venue = this.db.getVenue(mergedInto ?? location.venueId) ??
+        this.insert({ ...this.venueDetails(location), id: location.venueId });
+    }
+
+    if (!venue) {
+      const aliasedId = this.db.findVenueIdByAlias(aliasKey);
+      venue = aliasedId ? this.db.getVenue(aliasedId) : null;
+    }
+
+    let fuzzy = false;
+    if (!venue) {
+      venue = this.findSimilar(location);
+      fuzzy = venue !== null;
+      if (venue) {
+        logger.debug(`Matched venue "${location.name}" (${location.address}) to ${venue.id} "${venue.name}"`);
+      }
+    }
+
+    if (!venue) {
+      venue = this.insert({ ...this.venueDetails(location), id: this.createVenueId(location) });
+      logger.info(`Registered new venue ${venue.id}: ${venue.name}`);
+    }
+
+    this.db.addVenueAlias(aliasKey, venue.id);
+
+    // Venues created before anyone could place them pick up the first coordinates and timezone seen
+    const details = this.venueDetails(location);
+    if ((venue.lat === undefined && details.lat !== undefined) || (!venue.timezone && details.timezone)) {
+      this.db.fillVenueDetails(venue.id, details);
+      venue = this.db.getVenue(venue.id)!;
+      this.venues = null;
+    }
+
+    return { venue, fuzzy };
+  }
+
+  /**
+   * Best fuzzy match among stored venues, or null when none is close enough
+   */
+  private findSimilar(location: Location): Venue | null {
+    if (!this.venues) {
+      this.venues = this.db.getAllVenues();
+    }
+
+    const addressKey = normalizeAddress(location.address);
+    const hasStreetAddress = /\d/.test(addressKey);
+    const street = streetKey(location.address);
+
+    let best: { venue: Venue; similarity: number } | null = null;
+    for (const venue of this.venues) {
+      const similarity = nameSimilarity(location.name, venue.name);
+      const sameAddress = hasStreetAddress && normalizeAddress(venue.address) === addressKey;
+      const distance = !location.unresolved && venue.lat !== undefined && venue.long !== undefined
+        ? distanceMeters(location.lat, location.long, venue.lat, venue.long)
+        : undefined;
+
+      const venueStreet = streetKey(venue.address);
+      const otherStreet = street !== undefined && venueStreet !== undefined && venueStreet !== street;
+
+      // Same street address, or close by with a similar name; far apart or on another street is never the same venue
+      const matches = otherStreet || (distance !== undefined && distance > this.maxDistanceMeters)
+        ? false
+        : sameAddress
+          ? similarity >= this.minNameSimilarity / 2
+          : distance !== undefined
+            ? similarity >= this.minNameSimilarity
+            : similarity >= 0.9;
+
+      if (matches && (!best || similarity > best.similarity)) {
+        best = { venue, similarity };
+      }
+    }
+
+    return best?.venue ?? null;
+  }
+
+  private insert(venue: Venue): Venue {
+    this.db.insertVenue(venue);
+    this.venues = null;
+    return this.db.getVenue(venue.id)!;
+  }
+
+  private venueDetails(location: Location): Omit<Venue, 'id'> {
+    return {
+      name: location.name,
+      address: location.address,
+      lat: location.unresolved ? undefined : location.lat,
+      long: location.unresolved ? undefined : location.long,
+      timezone: location.timezone
+    };
+  }
+
+  private aliasKey(name: string, address: string): string {
+    return `${normalizeAddress(name)}|${normalizeAddress(address)}`;
+  }
+
+  /**
+   * Readable, deterministic ID for a new venue: its slugified name plus a hash of the first spelling seen
+   */
+  private createVenueId(location: Location): string {
+    const slug = normalizeAddress(location.name).replace(/ /g, '-').slice(0, 40) || 'venue';
+    const hash = createHash('sha1').update(this.aliasKey(location.name, location.address)).digest('hex').slice(0, 8);
+    return `${slug}-${hash}`;
+  }
+}
+
+/**
+ * Normalized street line of an address ("125 Chambers Street, New York" -> "125 chambers st"),
+ * or undefined when the address has no house number to compare
+ */
+function streetKey(address: string): string | undefined {
+  const street = normalizeAddress(address.split(',')[0]);
+  return /\d/.test(street) ? street : undefined;
+}
+
+/**
+ * Similarity of two venue names from 0 to 1 (Dice coefficient over character bigrams),
+ * ignoring case, accents, punctuation and spacing, so "Barry's Bootcamp" and "Barrys Boot Camp" score 1
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const bigrams = (text: string): string[] => {
+    const compact = normalizeAddress(text).replace(/ /g, '');
+    const result: string[] = [];
+    for (let i = 0; i < compact.length - 1; i++) {
+      result.push(compact.slice(i, i + 2));
+    }
+    return result;
+  };
+
+  const first = bigrams(a);
+  const second = bigrams(b);
+  if (first.length === 0 || second.length === 0) {
+    return normalizeAddress(a) === normalizeAddress(b) ? 1 : 0;
+  }
+
+  const counts = new Map<string, number>();
+  for (const bigram of first) {
+    counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+  }
+  let shared = 0;
+  for (const bigram of second) {
+    const count = counts.get(bigram) ?? 0;
+    if (count > 0) {
+      shared++;
+      counts.set(bigram, count - 1);
+    }
+  }
+  return (2 * shared) / (first.length + second.length);
+}
+
+/**
+ * Great-circle distance between two coordinates in meters
+ */
+export function distanceMeters(lat1: number, long1: number, lat2: number, long2: number): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLong = toRadians(long2 - long1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLong / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.sqrt(a));
+}
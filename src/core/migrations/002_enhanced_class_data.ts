@@ -0,0 +1,23 @@
+import type { Migration } from '../Migrator.js';
+import { addMissingColumns } from './helpers.js';
+
+/**
+ * Photos, instructor details, amenities, live availability, pricing and reviews
+ */
+export const migration: Migration = {
+  version: 2,
+  name: 'enhanced_class_data',
+  up(db) {
+    addMissingColumns(db, 'scraped_classes', [
+      ['photos', 'TEXT'],
+      ['trainer_info', 'TEXT'],
+      ['amenities', 'TEXT'],
+      ['real_time_availability', 'INTEGER'],
+      ['booking_status', "TEXT CHECK(booking_status IN ('open', 'closed', 'full', 'waitlist'))"],
+      ['last_availability_check', 'DATETIME'],
+      ['pricing_details', 'TEXT'],
+      ['reviews', 'TEXT']
+    ]);
+    db.exec('CREATE INDEX IF NOT EXISTS idx_scraped_classes_booking_status ON scraped_classes(booking_status)');
+  }
+};
@@ -0,0 +1,33 @@
+import type { Migration } from '../Migrator.js';
+import { addMissingColumns } from './helpers.js';
+
+/**
+ * Upsert bookkeeping on scraped classes and the class_changes history
+ */
+export const migration: Migration = {
+  version: 3,
+  name: 'class_changes',
+  up(db) {
+    addMissingColumns(db, 'scraped_classes', [
+      ['class_key', 'TEXT'],
+      ['first_seen', 'DATETIME'],
+      ['last_seen', 'DATETIME'],
+      ['last_changed_at', 'DATETIME']
+    ]);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS class_changes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        class_id INTEGER NOT NULL,
+        scrape_run_id INTEGER NOT NULL,
+        changed_fields TEXT NOT NULL,
+        previous_values TEXT NOT NULL,
+        changed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (class_id) REFERENCES scraped_classes(id),
+        FOREIGN KEY (scrape_run_id) REFERENCES scrape_runs(id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_class_changes_class ON class_changes(class_id);
+      CREATE INDEX IF NOT EXISTS idx_class_changes_scrape_run ON class_changes(scrape_run_id);
+    `);
+  }
+};
@@ -0,0 +1,27 @@
+import type { Migration } from '../Migrator.js';
+
+/**
+ * One row per class per observation of its spots left
+ */
+export const migration: Migration = {
+  version: 4,
+  name: 'availability_snapshots',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS class_availability_snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        class_id INTEGER NOT NULL,
+        scrape_run_id INTEGER NOT NULL,
+        observed_at DATETIME NOT NULL,
+        spots_left INTEGER,
+        capacity INTEGER,
+        booking_status TEXT,
+        hours_before_start REAL NOT NULL,
+        FOREIGN KEY (class_id) REFERENCES scraped_classes(id),
+        FOREIGN KEY (scrape_run_id) REFERENCES scrape_runs(id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_availability_snapshots_class ON class_availability_snapshots(class_id);
+    `);
+  }
+};
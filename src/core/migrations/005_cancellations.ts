@@ -0,0 +1,18 @@
+import type { Migration } from '../Migrator.js';
+import { addMissingColumns } from './helpers.js';
+
+/**
+ * Classes that vanished from their schedule
+ */
+export const migration: Migration = {
+  version: 5,
+  name: 'cancellations',
+  up(db) {
+    addMissingColumns(db, 'scraped_classes', [
+      ['schedule_status', "TEXT CHECK(schedule_status IN ('active', 'cancelled')) DEFAULT 'active'"],
+      ['cancelled_at', 'DATETIME'],
+      ['missed_scrapes', 'INTEGER DEFAULT 0'],
+      ['cancellation_notified', 'BOOLEAN DEFAULT 0']
+    ]);
+  }
+};
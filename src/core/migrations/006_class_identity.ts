@@ -0,0 +1,57 @@
+import type { Migration } from '../Migrator.js';
+import { addMissingColumns } from './helpers.js';
+import { createFallbackKey } from '../../utils/classIdentity.js';
+import { logger } from '../../utils/logger.js';
+
+/**
+ * Provider-native IDs and fallback keys, with class_key made unique
+ */
+export const migration: Migration = {
+  version: 6,
+  name: 'class_identity',
+  up(db) {
+    addMissingColumns(db, 'scraped_classes', [
+      ['native_id', 'TEXT'],
+      ['fallback_key', 'TEXT']
+    ]);
+
+    // Re-key rows stored before class identities on their fallback key, keeping the newest row per key
+    // Providers with native IDs adopt these rows the next time they see them (see upsertScrapedClass)
+    const unkeyed = db.prepare(
+      'SELECT id, provider_name, location_name, datetime, name FROM scraped_classes WHERE fallback_key IS NULL'
+    ).all() as any[];
+    if (unkeyed.length > 0) {
+      db.exec('DROP INDEX IF EXISTS idx_scraped_classes_class_key');
+      const update = db.prepare(`
+        UPDATE scraped_classes
+        SET class_key = ?, fallback_key = ?,
+            first_seen = COALESCE(first_seen, created_at),
+            last_seen = COALESCE(last_seen, created_at)
+        WHERE id = ?
+      `);
+      for (const row of unkeyed) {
+        const fallbackKey = createFallbackKey(row.location_name, new Date(row.datetime), row.name);
+        update.run(`${row.provider_name}:key:${fallbackKey}`, fallbackKey, row.id);
+      }
+      // Change history and availability snapshots of the duplicates move to the row that is kept
+      for (const table of ['class_changes', 'class_availability_snapshots']) {
+        db.exec(`
+          UPDATE ${table}
+          SET class_id = (
+            SELECT MAX(kept.id) FROM scraped_classes kept
+            WHERE kept.class_key = (SELECT class_key FROM scraped_classes WHERE id = ${table}.class_id)
+          )
+          WHERE class_id IN (SELECT id FROM scraped_classes)
+            AND class_id NOT IN (SELECT MAX(id) FROM scraped_classes GROUP BY class_key)
+        `);
+      }
+      const removed = db.prepare(`
+        DELETE FROM scraped_classes
+        WHERE id NOT IN (SELECT MAX(id) FROM scraped_classes GROUP BY class_key)
+      `).run();
+      logger.info(`Backfilled class keys for ${unkeyed.length} classes (${removed.changes} duplicates removed)`);
+    }
+
+    db.exec('CREATE UNIQUE INDEX IF NOT EXISTS idx_scraped_classes_class_key ON scraped_classes(class_key)');
+  }
+};
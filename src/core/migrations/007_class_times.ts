@@ -0,0 +1,18 @@
+import type { Migration } from '../Migrator.js';
+import { addMissingColumns } from './helpers.js';
+
+/**
+ * Venue timezone, local wall-clock start, end time and duration
+ */
+export const migration: Migration = {
+  version: 7,
+  name: 'class_times',
+  up(db) {
+    addMissingColumns(db, 'scraped_classes', [
+      ['location_timezone', 'TEXT'],
+      ['local_datetime', 'TEXT'],
+      ['end_datetime', 'DATETIME'],
+      ['duration_minutes', 'INTEGER']
+    ]);
+  }
+};
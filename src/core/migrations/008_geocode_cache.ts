@@ -0,0 +1,28 @@
+import type { Migration } from '../Migrator.js';
+import { addMissingColumns } from './helpers.js';
+
+/**
+ * Cached geocoder results, and a flag on classes whose venue could not be placed
+ */
+export const migration: Migration = {
+  version: 8,
+  name: 'geocode_cache',
+  up(db) {
+    // found = 0 caches a miss
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS geocode_cache (
+        address_key TEXT PRIMARY KEY,
+        address TEXT NOT NULL,
+        found BOOLEAN NOT NULL,
+        lat REAL,
+        long REAL,
+        formatted_address TEXT,
+        timezone TEXT,
+        hit_count INTEGER DEFAULT 0,
+        created_at DATETIME NOT NULL,
+        expires_at DATETIME NOT NULL
+      )
+    `);
+    addMissingColumns(db, 'scraped_classes', [['location_unresolved', 'BOOLEAN DEFAULT 0']]);
+  }
+};
@@ -0,0 +1,35 @@
+import type { Migration } from '../Migrator.js';
+import { addMissingColumns } from './helpers.js';
+
+/**
+ * Canonical venues and every spelling resolved to them
+ */
+export const migration: Migration = {
+  version: 9,
+  name: 'venues',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS venues (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        address TEXT NOT NULL,
+        lat REAL,
+        long REAL,
+        timezone TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS venue_aliases (
+        alias_key TEXT PRIMARY KEY,
+        venue_id TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (venue_id) REFERENCES venues(id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_venue_aliases_venue ON venue_aliases(venue_id);
+    `);
+    addMissingColumns(db, 'scraped_classes', [['venue_id', 'TEXT']]);
+    db.exec('CREATE INDEX IF NOT EXISTS idx_scraped_classes_venue ON scraped_classes(venue_id)');
+  }
+};
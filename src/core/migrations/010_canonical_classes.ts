@@ -0,0 +1,14 @@
+import type { Migration } from '../Migrator.js';
+import { addMissingColumns } from './helpers.js';
+
+/**
+ * Links from a duplicate listing to the canonical class of another provider
+ */
+export const migration: Migration = {
+  version: 10,
+  name: 'canonical_classes',
+  up(db) {
+    addMissingColumns(db, 'scraped_classes', [['canonical_class_id', 'INTEGER']]);
+    db.exec('CREATE INDEX IF NOT EXISTS idx_scraped_classes_canonical ON scraped_classes(canonical_class_id)');
+  }
+};
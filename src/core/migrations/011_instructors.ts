@@ -0,0 +1,28 @@
+import type { Migration } from '../Migrator.js';
+import { addMissingColumns } from './helpers.js';
+
+/**
+ * One merged profile per provider and normalized instructor name
+ */
+export const migration: Migration = {
+  version: 11,
+  name: 'instructors',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS instructors (
+        id TEXT PRIMARY KEY,
+        provider_name TEXT NOT NULL,
+        name TEXT NOT NULL,
+        bio TEXT,
+        photo_url TEXT,
+        certifications TEXT,
+        years_experience INTEGER,
+        social_links TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    addMissingColumns(db, 'scraped_classes', [['instructor_id', 'TEXT']]);
+    db.exec('CREATE INDEX IF NOT EXISTS idx_scraped_classes_instructor ON scraped_classes(instructor_id)');
+  }
+};
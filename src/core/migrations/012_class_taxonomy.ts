@@ -0,0 +1,13 @@
+import type { Migration } from '../Migrator.js';
+import { addMissingColumns } from './helpers.js';
+
+/**
+ * Modality, style, level and equipment facets with their confidence
+ */
+export const migration: Migration = {
+  version: 12,
+  name: 'class_taxonomy',
+  up(db) {
+    addMissingColumns(db, 'scraped_classes', [['taxonomy', 'TEXT']]);
+  }
+};
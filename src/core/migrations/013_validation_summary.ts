@@ -0,0 +1,14 @@
+import type { Migration } from '../Migrator.js';
+import { addMissingColumns } from './helpers.js';
+
+/**
+ * Why each scrape run rejected classes. The last migration that can find its changes already made;
+ * later migrations run only on databases at the previous version.
+ */
+export const migration: Migration = {
+  version: 13,
+  name: 'validation_summary',
+  up(db) {
+    addMissingColumns(db, 'scrape_runs', [['validation_summary', 'TEXT']]);
+  }
+};
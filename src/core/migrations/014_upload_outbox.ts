@@ -0,0 +1,42 @@
+import type { Migration } from '../Migrator.js';
+
+/**
+ * Durable queue of uploads, cancellations and retractions waiting for the backend,
+ * seeded with the classes the upload flags said were still pending
+ */
+export const migration: Migration = {
+  version: 14,
+  name: 'upload_outbox',
+  up(db) {
+    db.exec(`
+      CREATE TABLE upload_outbox (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        class_id INTEGER NOT NULL,
+        action TEXT NOT NULL CHECK(action IN ('upsert', 'cancel', 'retract')),
+        status TEXT NOT NULL CHECK(status IN ('pending', 'failed')) DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        next_attempt_at DATETIME NOT NULL,
+        created_at DATETIME NOT NULL,
+        FOREIGN KEY (class_id) REFERENCES scraped_classes(id)
+      );
+
+      CREATE UNIQUE INDEX idx_upload_outbox_class_action ON upload_outbox(class_id, action);
+      CREATE INDEX idx_upload_outbox_due ON upload_outbox(status, next_attempt_at);
+    `);
+
+    const now = new Date().toISOString();
+    db.prepare(`
+      INSERT INTO upload_outbox (class_id, action, next_attempt_at, created_at)
+      SELECT id, 'upsert', ?, ? FROM scraped_classes
+      WHERE uploaded_to_backend = 0 AND schedule_status = 'active' AND canonical_class_id IS NULL
+      ORDER BY id
+    `).run(now, now);
+    db.prepare(`
+      INSERT INTO upload_outbox (class_id, action, next_attempt_at, created_at)
+      SELECT id, 'cancel', ?, ? FROM scraped_classes
+      WHERE schedule_status = 'cancelled' AND cancellation_notified = 0
+      ORDER BY id
+    `).run(now, now);
+  }
+};
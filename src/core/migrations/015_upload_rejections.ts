@@ -0,0 +1,16 @@
+import type { Migration } from '../Migrator.js';
+
+/**
+ * The backend's reason for refusing a class, kept until an upload of the class is accepted
+ */
+export const migration: Migration = {
+  version: 15,
+  name: 'upload_rejections',
+  up(db) {
+    db.exec(`
+      ALTER TABLE scraped_classes ADD COLUMN rejected_at DATETIME;
+      ALTER TABLE scraped_classes ADD COLUMN rejection_error TEXT;
+      CREATE INDEX idx_scraped_classes_rejected_at ON scraped_classes(rejected_at);
+    `);
+  }
+};
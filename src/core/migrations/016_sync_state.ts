@@ -0,0 +1,21 @@
+import type { Migration } from '../Migrator.js';
+
+/**
+ * Delta sync bookkeeping: the fingerprint of each class as the backend last accepted it,
+ * and the backend's cursor after the last changeset it applied
+ */
+export const migration: Migration = {
+  version: 16,
+  name: 'sync_state',
+  up(db) {
+    db.exec(`
+      ALTER TABLE scraped_classes ADD COLUMN synced_fingerprint TEXT;
+
+      CREATE TABLE sync_state (
+        name TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at DATETIME NOT NULL
+      );
+    `);
+  }
+};
@@ -0,0 +1,13 @@
+import type { Migration } from '../Migrator.js';
+import { addMissingColumns } from './helpers.js';
+
+/**
+ * Flag on classes whose start time was read without knowing the venue's timezone
+ */
+export const migration: Migration = {
+  version: 17,
+  name: 'floating_times',
+  up(db) {
+    addMissingColumns(db, 'scraped_classes', [['floating_time', 'BOOLEAN DEFAULT 0']]);
+  }
+};
@@ -0,0 +1,18 @@
+import Database from 'better-sqlite3';
+import { logger } from '../../utils/logger.js';
+
+/**
+ * Add columns a table does not have yet
+ *
+ * Databases created before schema versioning may already have some of the columns a migration adds,
+ * so migrations add columns through this rather than a bare ALTER TABLE.
+ */
+export function addMissingColumns(db: Database.Database, table: string, columns: Array<[string, string]>): void {
+  const existing = new Set((db.prepare(`PRAGMA table_info(${table})`).all() as any[]).map(col => col.name));
+  for (const [column, definition] of columns) {
+    if (!existing.has(column)) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      logger.debug(`Added ${column} column to ${table} table`);
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import type { Migration } from '../Migrator.js';
+import { migration as initialSchema } from './001_initial_schema.js';
+import { migration as enhancedClassData } from './002_enhanced_class_data.js';
+import { migration as classChanges } from './003_class_changes.js';
+import { migration as availabilitySnapshots } from './004_availability_snapshots.js';
+import { migration as cancellations } from './005_cancellations.js';
+import { migration as classIdentity } from './006_class_identity.js';
+import { migration as classTimes } from './007_class_times.js';
+import { migration as geocodeCache } from './008_geocode_cache.js';
+import { migration as venues } from './009_venues.js';
+import { migration as canonicalClasses } from './010_canonical_classes.js';
+import { migration as instructors } from './011_instructors.js';
+import { migration as classTaxonomy } from './012_class_taxonomy.js';
+import { migration as validationSummary } from './013_validation_summary.js';
+import { migration as uploadOutbox } from './014_upload_outbox.js';
+import { migration as uploadRejections } from './015_upload_rejections.js';
+import { migration as syncState } from './016_sync_state.js';
+import { migration as floatingTimes } from './017_floating_times.js';
+
+/**
+ * Every schema migration, oldest first. Add new ones as the next numbered file and list them here;
+ * never edit a migration that has been released.
+ */
+export const MIGRATIONS: Migration[] = [
+  initialSchema,
+  enhancedClassData,
+  classChanges,
+  availabilitySnapshots,
+  cancellations,
+  classIdentity,
+  classTimes,
+  geocodeCache,
+  venues,
+  canonicalClasses,
+  instructors,
+  classTaxonomy,
+  validationSummary,
+  uploadOutbox,
+  uploadRejections,
+  syncState,
+  floatingTimes
+];
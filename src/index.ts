@@ -2,25 +2,24 @@
 
 import { Command } from 'commander';
 import { ChromeManager } from './core/ChromeManager.js';
+import { HttpClient } from './core/HttpClient.js';
+import { FixtureStore } from './core/FixtureStore.js';
 import { DatabaseManager } from './core/Database.js';
 import { BackendClient } from './core/BackendClient.js';
+import { OutboxUploader } from './core/OutboxUploader.js';
+import { CancellationDetector } from './core/CancellationDetector.js';
+import { DuplicateDetector } from './core/DuplicateDetector.js';
+import { VenueRegistry } from './core/VenueRegistry.js';
+import { InstructorRegistry } from './core/InstructorRegistry.js';
 import { Scheduler, commonSchedules } from './core/Scheduler.js';
-import { MindbodyProvider } from './providers/MindbodyProvider.js';
-import { EquinoxProvider } from './providers/EquinoxProvider.js';
-import { ClassPassProvider } from './providers/ClassPassProvider.js';
-import { SoulCycleProvider } from './providers/SoulCycleProvider.js';
-import { BarrysProvider } from './providers/BarrysProvider.js';
-import { OrangetheoryProvider } from './providers/OrangetheoryProvider.js';
-import { CorePowerYogaProvider } from './providers/CorePowerYogaProvider.js';
-import { F45Provider } from './providers/F45Provider.js';
-import { PlanetFitnessProvider } from './providers/PlanetFitnessProvider.js';
-import { LAFitnessProvider } from './providers/LAFitnessProvider.js';
-import { TwentyFourHourFitnessProvider } from './providers/TwentyFourHourFitnessProvider.js';
-import { GoldsGymProvider } from './providers/GoldsGymProvider.js';
+import { providerRegistry } from './providers/index.js';
+import { KNOWN_VENUES } from './providers/knownVenues.js';
 import { BaseProvider } from './providers/BaseProvider.js';
 import { logger } from './utils/logger.js';
-import { ScrapeOptions } from './models/FitnessClass.js';
-import { existsSync, readFileSync } from 'fs';
+import { createGeocoders, getGeocodeStats, setGeocodeCache, setGeocoders } from './utils/geocoding.js';
+import { formatValidationErrors } from './utils/validation.js';
+import { ScrapeOptions, ScrapeResult } from './models/FitnessClass.js';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 
@@ -40,44 +39,86 @@ if (existsSync(configPath)) {
 
 // Initialize core services
 const chromeManager = new ChromeManager({ headless: true });
-const db = new DatabaseManager();
+const httpClient = new HttpClient();
+// `db status` and `db migrate` look at the schema before upgrading it; every other command upgrades it on startup
+const managingSchema = process.argv[2] === 'db';
+const db = new DatabaseManager(undefined, { migrate: !managingSchema });
 const backendClient = new BackendClient({
   baseUrl: process.env.BACKEND_URL || config.backendUrl || 'http://localhost:3000',
   apiKey: process.env.BACKEND_API_KEY || config.backendApiKey,
-  batchSize: 50
+  batchSize: 50,
+  checkBatchSize: config.sync?.checkBatchSize,
+  ...config.backendRetry
 });
+const outboxUploader = new OutboxUploader(db, backendClient, config.outbox);
+const cancellationDetector = new CancellationDetector(db, config.cancellation);
+const duplicateDetector = new DuplicateDetector(db, config.dedupe);
+const venueRegistry = new VenueRegistry(db, config.venues);
+if (!managingSchema) {
+  venueRegistry.seed(KNOWN_VENUES);
+}
+const instructorRegistry = new InstructorRegistry(db);
+
+// Geocoders tried in order for each venue address; paths in providers.json are relative to the project root
+try {
+  const geocoding = config.geocoding || {};
+  setGeocoders(createGeocoders({
+    backends: geocoding.backends,
+    staticFile: join(projectRoot, geocoding.staticFile || 'config/venue-coordinates.json'),
+    gazetteerFile: geocoding.gazetteerFile ? join(projectRoot, geocoding.gazetteerFile) : undefined,
+    nominatimUrl: geocoding.nominatimUrl
+  }));
+} catch (error) {
+  logger.error(`Invalid geocoding configuration: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
+
+// Check the SQLite geocode cache before calling remote geocoders
+if (config.geocoding?.cacheEnabled !== false && !managingSchema) {
+  setGeocodeCache(db, { expiry: config.geocoding?.cacheExpiry, negativeExpiry: config.geocoding?.negativeCacheExpiry });
+  const pruned = db.pruneGeocodeCache();
+  if (pruned > 0) {
+    logger.debug(`Pruned ${pruned} expired geocode cache entries`);
+  }
+}
+
+// Initialize providers declared in providers.json (or every registered default)
+function initializeProviders(): Map<string, BaseProvider> {
+  try {
+    const instances = providerRegistry.resolveInstances(config.providers);
+    const providers = providerRegistry.createAll(chromeManager, instances, httpClient);
+    logger.debug(`Initialized ${providers.size} providers`);
+    return providers;
+  } catch (error) {
+    logger.error(`Invalid provider configuration: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
+
+const providers = initializeProviders();
+for (const provider of providers.values()) {
+  provider.setVenueRegistry(venueRegistry);
+  provider.setInstructorRegistry(instructorRegistry);
+}
 
-// Initialize providers
-const providers = new Map<string, BaseProvider>();
-
-function initializeProviders(): void {
-  const mindbodyConfig = config.providers?.mindbody || { enabled: true, baseUrl: 'https://example.mindbody.io' };
-  const equinoxConfig = config.providers?.equinox || { enabled: true, baseUrl: 'https://www.equinox.com' };
-  const classpassConfig = config.providers?.classpass || { enabled: true, baseUrl: 'https://classpass.com' };
-  const soulcycleConfig = config.providers?.soulcycle || { enabled: true, baseUrl: 'https://www.soulcycle.com' };
-  const barrysConfig = config.providers?.barrys || { enabled: true, baseUrl: 'https://www.barrys.com' };
-  const orangetheoryConfig = config.providers?.orangetheory || { enabled: true, baseUrl: 'https://www.orangetheory.com' };
-  const corepoweryogaConfig = config.providers?.corepoweryoga || { enabled: true, baseUrl: 'https://www.corepoweryoga.com' };
-  const f45Config = config.providers?.f45 || { enabled: true, baseUrl: 'https://f45training.com' };
-  const planetfitnessConfig = config.providers?.planetfitness || { enabled: true, baseUrl: 'https://www.planetfitness.com' };
-  const lafitnessConfig = config.providers?.lafitness || { enabled: true, baseUrl: 'https://www.lafitness.com' };
-  const twentyfourfitnessConfig = config.providers?.['24hourfitness'] || { enabled: true, baseUrl: 'https://www.24hourfitness.com' };
-  const goldsgymConfig = config.providers?.goldsgym || { enabled: true, baseUrl: 'https://www.goldsgym.com' };
-
-  providers.set('mindbody', new MindbodyProvider(chromeManager, mindbodyConfig));
-  providers.set('equinox', new EquinoxProvider(chromeManager, equinoxConfig));
-  providers.set('classpass', new ClassPassProvider(chromeManager, classpassConfig));
-  providers.set('soulcycle', new SoulCycleProvider(chromeManager, soulcycleConfig));
-  providers.set('barrys', new BarrysProvider(chromeManager, barrysConfig));
-  providers.set('orangetheory', new OrangetheoryProvider(chromeManager, orangetheoryConfig));
-  providers.set('corepoweryoga', new CorePowerYogaProvider(chromeManager, corepoweryogaConfig));
-  providers.set('f45', new F45Provider(chromeManager, f45Config));
-  providers.set('planetfitness', new PlanetFitnessProvider(chromeManager, planetfitnessConfig));
-  providers.set('lafitness', new LAFitnessProvider(chromeManager, lafitnessConfig));
-  providers.set('24hourfitness', new TwentyFourHourFitnessProvider(chromeManager, twentyfourfitnessConfig));
-  providers.set('goldsgym', new GoldsGymProvider(chromeManager, goldsgymConfig));
-
-  logger.info(`Initialized ${providers.size} providers`);
+// Upsert scraped classes and link duplicates across providers; new and changed classes are queued in the outbox
+function saveClasses(scrapeRunId: number, result: ScrapeResult): void {
+  const savedIds: number[] = [];
+  const counts = { inserted: 0, updated: 0, unchanged: 0 };
+
+  for (const fitnessClass of result.classes) {
+    const upsert = db.upsertScrapedClass(scrapeRunId, fitnessClass);
+    counts[upsert.status]++;
+    savedIds.push(upsert.id);
+    if (upsert.status === 'updated') {
+      logger.debug(`${fitnessClass.name} (${fitnessClass.providerId}) changed: ${upsert.changedFields.join(', ')}`);
+    }
+  }
+
+  logger.info(`Saved classes: ${counts.inserted} new, ${counts.updated} changed, ${counts.unchanged} unchanged`);
+
+  // Duplicates go up as booking options of their canonical class, which may belong to another provider
+  duplicateDetector.detect(savedIds);
 }
 
 // Initialize CLI
@@ -92,19 +133,32 @@ program
 program
   .command('scrape')
   .description('Scrape classes from a provider')
-  .option('-p, --provider <name>', 'Provider name (mindbody, equinox, classpass, soulcycle, barrys, orangetheory, corepoweryoga, f45, planetfitness, lafitness, 24hourfitness, goldsgym, or all)')
+  .option('-p, --provider <name>', `Provider name (${Array.from(providers.keys()).join(', ')}, or all)`)
   .option('-l, --location <location>', 'Location to search')
   .option('-s, --start-date <date>', 'Start date (YYYY-MM-DD)')
   .option('-e, --end-date <date>', 'End date (YYYY-MM-DD)')
   .option('-m, --max-results <number>', 'Maximum number of results', parseInt)
   .option('--no-upload', 'Skip uploading to backend')
+  .option('--record <dir>', 'Save every page load and API response to a fixture directory')
+  .option('--replay <dir>', 'Serve page loads and API responses from a fixture directory instead of the network')
   .action(async (options) => {
     try {
-      initializeProviders();
-
       const providerName = options.provider || 'all';
       const upload = options.upload !== false;
 
+      if (options.record && options.replay) {
+        logger.error('--record and --replay cannot be used together');
+        process.exit(1);
+      }
+      if (options.record || options.replay) {
+        const fixtures = options.replay
+          ? new FixtureStore(options.replay, 'replay')
+          : new FixtureStore(options.record, 'record');
+        chromeManager.useFixtures(fixtures);
+        httpClient.useFixtures(fixtures);
+        logger.info(`${options.replay ? 'Replaying' : 'Recording'} fixtures in ${fixtures.getDirectory()}`);
+      }
+
       logger.info(`Starting scrape for provider: ${providerName}`);
 
       // Build scrape options
@@ -132,8 +186,13 @@ program
         providersToRun.push(provider);
       }
 
-      // Initialize Chrome
-      await chromeManager.initialize();
+      // Initialize Chrome only if a selected provider scrapes through a browser
+      const needsBrowser = providersToRun.some(p => p.requiresBrowser());
+      if (needsBrowser) {
+        await chromeManager.initialize();
+      } else {
+        logger.info('All selected providers use HTTP, skipping Chrome');
+      }
 
       // Run scrapers
       for (const provider of providersToRun) {
@@ -145,21 +204,11 @@ program
 
           logger.info(`Scrape result: ${result.classesFound} classes found`);
 
-          // Save to database
-          for (const fitnessClass of result.classes) {
-            if (!db.isDuplicateClass(fitnessClass.providerId, fitnessClass.datetime)) {
-              db.insertScrapedClass(scrapeRunId, fitnessClass);
-            }
-          }
-
-          // Upload to backend if enabled
-          let uploaded = 0;
-          if (upload && result.classes.length > 0) {
-            logger.info('Uploading classes to backend...');
-            const uploadResult = await backendClient.uploadClasses(result.classes);
-            uploaded = uploadResult.uploaded;
-            logger.info(`Upload complete: ${uploaded} classes uploaded`);
-          }
+          // Save to database, cancel stored classes that disappeared from the provider's schedule,
+          // then deliver the queued uploads and cancellations if enabled
+          saveClasses(scrapeRunId, result);
+          cancellationDetector.detect(scrapeRunId, result, scrapeOptions);
+          const uploaded = upload ? (await outboxUploader.deliver()).uploaded : 0;
 
           // Update scrape run
           db.completeScrapeRun(
@@ -167,7 +216,8 @@ program
             result.success,
             result.classesFound,
             uploaded,
-            result.errors.join('; ')
+            result.errors.join('; '),
+            result.validation
           );
 
           // Update provider stats
@@ -179,7 +229,15 @@ program
         }
       }
 
-      await chromeManager.close();
+      if (needsBrowser) {
+        await chromeManager.close();
+      }
+
+      const geocodeStats = getGeocodeStats();
+      const resolvedBy = Object.entries(geocodeStats.resolved).map(([name, count]) => `${count} by ${name}`);
+      if (resolvedBy.length > 0 || geocodeStats.unresolved > 0) {
+        logger.info(`Geocoding: ${resolvedBy.join(', ') || 'none'} resolved, ${geocodeStats.unresolved} unresolved (${geocodeStats.cacheHits} cache hits, ${geocodeStats.lookups} lookups, ${geocodeStats.errors} errors)`);
+      }
       logger.info('Scraping complete');
 
     } catch (error) {
@@ -197,8 +255,6 @@ program
   .option('-s, --schedule <cron>', 'Cron schedule expression', commonSchedules.daily2am)
   .action(async (options) => {
     try {
-      initializeProviders();
-
       const scheduler = new Scheduler();
 
       // Add scheduled tasks for each enabled provider
@@ -213,20 +269,20 @@ program
               const scrapeRunId = db.createScrapeRun(name);
 
               try {
-                await chromeManager.initialize();
-                const result = await provider.scrapeClasses({});
-
-                for (const fitnessClass of result.classes) {
-                  if (!db.isDuplicateClass(fitnessClass.providerId, fitnessClass.datetime)) {
-                    db.insertScrapedClass(scrapeRunId, fitnessClass);
-                  }
+                if (provider.requiresBrowser()) {
+                  await chromeManager.initialize();
                 }
+                const result = await provider.scrapeClasses({});
 
-                const uploadResult = await backendClient.uploadClasses(result.classes);
-                db.completeScrapeRun(scrapeRunId, result.success, result.classesFound, uploadResult.uploaded);
+                saveClasses(scrapeRunId, result);
+                cancellationDetector.detect(scrapeRunId, result);
+                const uploaded = (await outboxUploader.deliver()).uploaded;
+                db.completeScrapeRun(scrapeRunId, result.success, result.classesFound, uploaded, undefined, result.validation);
                 db.updateProviderStats(name, result.success, result.classesFound);
 
-                await chromeManager.close();
+                if (provider.requiresBrowser()) {
+                  await chromeManager.close();
+                }
               } catch (error) {
                 logger.error(`Scheduled scrape failed for ${name}:`, error);
                 db.completeScrapeRun(scrapeRunId, false, 0, 0, String(error));
@@ -254,6 +310,48 @@ program
     }
   });
 
+// Inspect command (find a site's hidden JSON API)
+program
+  .command('inspect <url>')
+  .description('Load a page and list the JSON API responses it receives')
+  .option('-p, --pattern <patterns...>', 'Only capture URLs containing these substrings', [])
+  .option('-o, --output <file>', 'Save captured responses to a JSON file')
+  .option('-w, --wait <ms>', 'Extra time to wait for late API calls after load', (value: string) => parseInt(value, 10), 3000)
+  .action(async (url, options) => {
+    try {
+      await chromeManager.initialize();
+      const page = await chromeManager.newPage();
+      // An empty pattern matches every URL
+      const capture = chromeManager.captureResponses(page, options.pattern.length > 0 ? options.pattern : ['']);
+
+      await chromeManager.navigateWithRetry(page, url);
+      await chromeManager.randomDelay(options.wait, options.wait);
+
+      const responses = await capture.getResponses();
+      capture.stop();
+
+      console.log(`\n=== ${responses.length} JSON responses ===\n`);
+      for (const response of responses) {
+        console.log(`${response.method} ${response.url} (${response.status})`);
+        console.log(`  ${JSON.stringify(response.data).substring(0, 200)}`);
+        console.log('');
+      }
+
+      if (options.output) {
+        writeFileSync(options.output, JSON.stringify(responses, null, 2));
+        logger.info(`Saved ${responses.length} responses to ${options.output}`);
+      }
+
+      await chromeManager.close();
+    } catch (error) {
+      logger.error('Inspect command failed:', error);
+      await chromeManager.close();
+      process.exit(1);
+    } finally {
+      db.close();
+    }
+  });
+
 // Stats command
 program
   .command('stats')
@@ -281,9 +379,42 @@ program
         if (run.errors) {
           console.log(`  Errors: ${run.errors}`);
         }
+        if (run.validation && run.validation.rejected > 0) {
+          const { checked, rejected, errorsByPath, samples } = run.validation;
+          const reasons = Object.entries(errorsByPath).sort((a, b) => b[1] - a[1]).map(([path, count]) => `${path}: ${count}`);
+          console.log(`  Rejected: ${rejected} of ${checked} classes (${reasons.join(', ')})`);
+          for (const sample of samples) {
+            console.log(`    ${sample.name}: ${formatValidationErrors(sample.errors)}`);
+          }
+        }
         console.log('');
       }
 
+      const geocodeCache = db.getGeocodeCacheStats();
+      console.log('\n=== Geocode Cache ===\n');
+      console.log(`Entries: ${geocodeCache.entries} (${geocodeCache.found} found, ${geocodeCache.notFound} not found, ${geocodeCache.expired} expired)`);
+      console.log(`Hits: ${geocodeCache.totalHits}`);
+
+      const outbox = db.getOutboxStats();
+      console.log('\n=== Upload Outbox ===\n');
+      console.log(`Pending: ${outbox.pending} (${outbox.retrying} retrying), Failed: ${outbox.failed}`);
+      if (outbox.lastError) {
+        console.log(`Last error: ${outbox.lastError}`);
+      }
+
+      const sync = db.getSyncStats();
+      console.log('\n=== Backend Sync ===\n');
+      console.log(`Classes on backend: ${sync.synced}`);
+      console.log(sync.cursor ? `Cursor: ${sync.cursor} (${sync.cursorUpdatedAt})` : 'Cursor: none yet');
+
+      const rejectedCount = db.getRejectedClassCount();
+      if (rejectedCount > 0) {
+        console.log(`\nRejected by backend: ${rejectedCount} classes (resend with upload --retry-rejected)`);
+        for (const rejected of db.getRejectedClasses(10)) {
+          console.log(`  #${rejected.id} ${rejected.name} (${rejected.providerName}, ${rejected.datetime.toISOString()}): ${rejected.rejectionError}`);
+        }
+      }
+
       db.close();
     } catch (error) {
       logger.error('Stats command failed:', error);
@@ -291,30 +422,212 @@ program
     }
   });
 
-// Upload command (upload pending classes)
+// Availability command (how fast classes fill up)
+program
+  .command('availability')
+  .description('Show how far ahead classes sell out, or the availability history of one class')
+  .option('-c, --class-id <id>', 'Show every availability snapshot for one class', parseInt)
+  .option('-p, --provider <name>', 'Only include classes from this provider')
+  .option('-n, --name <name>', 'Only include classes whose name contains this text')
+  .option('--min-classes <number>', 'Only show class series observed at least this many times', (value: string) => parseInt(value, 10), 3)
+  .action((options) => {
+    try {
+      const formatLeadTime = (hours: number): string =>
+        hours >= 48 ? `${(hours / 24).toFixed(1)} days` : `${hours.toFixed(1)} hours`;
+
+      if (options.classId) {
+        const summary = db.getClassFillSummary(options.classId);
+        if (!summary) {
+          logger.error(`No availability history for class ${options.classId}`);
+          process.exit(1);
+        }
+
+        console.log(`\n=== ${summary.name} (${summary.datetime.toISOString()}) ===\n`);
+        for (const snapshot of db.getAvailabilityHistory(options.classId)) {
+          const spots = snapshot.spotsLeft !== undefined ? `${snapshot.spotsLeft} spots left` : 'spots unknown';
+          console.log(`[${snapshot.observedAt}] ${spots} (${snapshot.bookingStatus || 'unknown'}), ${formatLeadTime(snapshot.hoursBeforeStart)} before start`);
+        }
+        console.log('');
+        console.log(summary.soldOut
+          ? `Sold out ${formatLeadTime(summary.soldOutHoursBeforeStart!)} before start`
+          : 'Has not sold out');
+      } else {
+        const stats = db.getSelloutStats({
+          providerName: options.provider,
+          name: options.name,
+          minClasses: options.minClasses
+        });
+
+        console.log('\n=== Sell-out Statistics ===\n');
+        for (const series of stats) {
+          console.log(`${series.name} @ ${series.locationName} (${series.providerName}):`);
+          console.log(`  Sold out: ${series.classesSoldOut}/${series.classesObserved} classes (${Math.round(series.selloutRate * 100)}%)`);
+          if (series.medianHoursBeforeSellout !== undefined) {
+            console.log(`  Usually sells out ${formatLeadTime(series.medianHoursBeforeSellout)} ahead`);
+          }
+          console.log('');
+        }
+        if (stats.length === 0) {
+          console.log('No classes with enough availability history yet');
+        }
+      }
+
+      db.close();
+    } catch (error) {
+      logger.error('Availability command failed:', error);
+      process.exit(1);
+    }
+  });
+
+// Venues command
+program
+  .command('venues')
+  .description('List canonical venues, or merge a venue that was registered twice')
+  .option('--merge <ids...>', 'Merge the first venue ID into the second')
+  .action((options) => {
+    try {
+      if (options.merge) {
+        const [fromId, intoId] = options.merge;
+        if (options.merge.length !== 2 || !db.getVenue(fromId) || !db.getVenue(intoId)) {
+          logger.error('Usage: venues --merge <duplicate-venue-id> <kept-venue-id> (both must exist)');
+          process.exit(1);
+        }
+        const moved = db.mergeVenues(fromId, intoId);
+        logger.info(`Merged ${fromId} into ${intoId}: ${moved} classes queued for re-upload`);
+      } else {
+        const classCounts = db.getVenueClassCounts();
+
+        console.log('\n=== Venues ===\n');
+        for (const venue of db.getAllVenues()) {
+          const position = venue.lat !== undefined && venue.long !== undefined ? `${venue.lat}, ${venue.long}` : 'unresolved';
+          console.log(`${venue.id}: ${venue.name}`);
+          console.log(`  Address: ${venue.address} (${position})`);
+          console.log(`  Classes: ${classCounts.get(venue.id) ?? 0}, Spellings: ${db.getVenueAliases(venue.id).length}`);
+          console.log('');
+        }
+      }
+
+      db.close();
+    } catch (error) {
+      logger.error('Venues command failed:', error);
+      process.exit(1);
+    }
+  });
+
+// Instructors command (merged instructor profiles)
+program
+  .command('instructors')
+  .description('List instructor profiles merged across classes')
+  .option('-p, --provider <name>', 'Only list instructors from this provider')
+  .action((options) => {
+    try {
+      const classCounts = db.getInstructorClassCounts();
+
+      console.log('\n=== Instructors ===\n');
+      for (const instructor of db.getAllInstructors(options.provider)) {
+        const details = [
+          instructor.bio ? 'bio' : null,
+          instructor.photoUrl ? 'photo' : null,
+          instructor.certifications?.length ? `${instructor.certifications.length} certifications` : null,
+          instructor.socialLinks ? Object.keys(instructor.socialLinks).join('/') : null
+        ].filter(Boolean);
+        console.log(`${instructor.id}: ${instructor.name}`);
+        console.log(`  Classes: ${classCounts.get(instructor.id) ?? 0}, Profile: ${details.join(', ') || 'name only'}`);
+        console.log('');
+      }
+
+      db.close();
+    } catch (error) {
+      logger.error('Instructors command failed:', error);
+      process.exit(1);
+    }
+  });
+
+// Database schema commands
+const dbCommand = program
+  .command('db')
+  .description('Inspect and upgrade the database schema');
+
+dbCommand
+  .command('status')
+  .description('Show applied and pending schema migrations')
+  .action(() => {
+    try {
+      const status = db.getMigrationStatus();
+      const pending = status.filter(s => !s.appliedAt);
+
+      console.log('\n=== Schema Migrations ===\n');
+      for (const migration of status) {
+        const state = migration.unknown ? `applied ${migration.appliedAt} (unknown to this version)`
+          : migration.appliedAt ? `applied ${migration.appliedAt}` : 'pending';
+        console.log(`${String(migration.version).padStart(3, '0')} ${migration.name}: ${state}`);
+      }
+      console.log(`\nSchema version ${db.getSchemaVersion()}, ${pending.length} pending`);
+
+      db.close();
+    } catch (error) {
+      logger.error('Database status failed:', error);
+      process.exit(1);
+    }
+  });
+
+dbCommand
+  .command('migrate')
+  .description('Apply pending schema migrations')
+  .option('--to <version>', 'Stop after this migration version', parseInt)
+  .action((options) => {
+    try {
+      const applied = db.migrate(options.to);
+      logger.info(applied.length > 0
+        ? `Applied ${applied.length} migrations, schema is at version ${db.getSchemaVersion()}`
+        : `Schema is up to date at version ${db.getSchemaVersion()}`);
+      db.close();
+    } catch (error) {
+      logger.error('Database migration failed:', error);
+      process.exit(1);
+    }
+  });
+
+// Upload command (deliver the upload outbox)
 program
   .command('upload')
-  .description('Upload pending classes to backend')
-  .option('-l, --limit <number>', 'Limit number of classes to upload', parseInt)
+  .description('Deliver pending uploads and cancellations to the backend')
+  .option('-l, --limit <number>', 'Limit number of outbox entries to deliver', parseInt)
+  .option('--retry-failed', 'Retry entries that ran out of attempts')
+  .option('--retry-rejected', 'Send classes the backend rejected again')
+  .option('--reconcile', 'Compare fingerprints with the backend first and queue whatever differs')
   .action(async (options) => {
     try {
-      const classes = db.getUnuploadedClasses(options.limit);
+      if (options.retryFailed) {
+        logger.info(`Retrying ${db.retryFailedOutboxEntries()} failed outbox entries`);
+      }
+      if (options.retryRejected) {
+        const rejected = db.getRejectedClasses().map(c => c.id!);
+        db.enqueueUploads(rejected, 'upsert');
+        logger.info(`Queued ${rejected.length} rejected classes for upload`);
+      }
+      if (options.reconcile) {
+        await outboxUploader.reconcile();
+      }
 
-      if (classes.length === 0) {
-        logger.info('No pending classes to upload');
+      const before = db.getOutboxStats();
+      if (before.pending === 0) {
+        logger.info(before.failed > 0
+          ? `Nothing to deliver; ${before.failed} failed entries wait for --retry-failed`
+          : 'Nothing to deliver');
         db.close();
         return;
       }
 
-      logger.info(`Uploading ${classes.length} pending classes...`);
-      const result = await backendClient.uploadClasses(classes);
-
-      if (result.uploaded > 0) {
-        const classIds = classes.slice(0, result.uploaded).map(c => c.id!);
-        db.markClassesAsUploaded(classIds);
+      const result = await outboxUploader.deliver(options.limit);
+      const after = db.getOutboxStats();
+      logger.info(
+        `Upload complete: ${result.uploaded} uploaded, ${result.rejected} rejected, ${result.cancelled} cancelled, ` +
+        `${result.retracted} retracted, ${result.unchanged} already current, ${result.failed} failed; ${after.pending} pending, ${after.failed} failed in the outbox`
+      );
+      if (after.pending > 0 && after.nextAttemptAt) {
+        logger.info(`Next retry after ${after.nextAttemptAt}`);
       }
-
-      logger.info(`Upload complete: ${result.uploaded} uploaded, ${result.failed} failed`);
       db.close();
 
     } catch (error) {
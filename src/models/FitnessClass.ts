@@ -3,6 +3,9 @@ export interface Location {
   address: string;
   lat: number;
   long: number;
+  timezone?: string; // IANA timezone of the venue, e.g. "America/Vancouver"
+  unresolved?: boolean; // No geocoder could place the venue; lat/long are 0 and carry no position
+  venueId?: string; // Canonical venue from the VenueRegistry, shared by every spelling and provider of the same studio
 }
 
 export interface TrainerInfo {
@@ -19,6 +22,31 @@ export interface TrainerInfo {
   };
 }
 
+/**
+ * An instructor's profile merged from every class that listed them, keyed by provider and normalized name
+ */
+export interface Instructor extends TrainerInfo {
+  id: string;
+  providerName: string;
+  updatedAt?: string;
+}
+
+export interface FacetValue {
+  value: string; // Term from the controlled vocabulary in utils/taxonomy
+  confidence: number; // 0-1: 1 from a provider's own category, lower from names and descriptions
+}
+
+/**
+ * Normalized facets of a class for filtering and search
+ */
+export interface ClassTaxonomy {
+  modality: FacetValue[]; // yoga, cycling, strength...
+  style: FacetValue[]; // vinyasa, hot, bootcamp...
+  level?: FacetValue; // beginner, all-levels, intermediate, advanced
+  equipment: FacetValue[]; // reformer, kettlebell, treadmill...
+  intensityConfidence: number; // Confidence in the intensity derived from these facets
+}
+
 export interface Amenity {
   type: string; // shower, locker, parking, wifi, childcare, equipment
   available: boolean;
@@ -49,21 +77,37 @@ export interface PricingDetails {
   };
 }
 
+export interface BookingOption {
+  providerName: string;
+  providerId: string;
+  bookingUrl: string;
+  price?: number;
+  realTimeAvailability?: number;
+  bookingStatus?: 'open' | 'closed' | 'full' | 'waitlist';
+}
+
 export interface FitnessClass {
   name: string;
   description: string;
-  datetime: Date;
+  datetime: Date; // Start time as a UTC instant
+  localDatetime?: string; // Start time on the venue's clock (YYYY-MM-DDTHH:mm:ss), in location.timezone
+  floatingTime?: boolean; // Listed without an offset and no timezone is known for the venue; datetime was read in the scraping machine's timezone
+  endDatetime?: Date; // End time as a UTC instant
+  durationMinutes?: number;
   location: Location;
   trainer: string; // Keep for backward compatibility
-  trainerInfo?: TrainerInfo; // Enhanced trainer details
+  trainerInfo?: TrainerInfo; // Enhanced trainer details as parsed from this class; stored merged in the instructors table
+  instructorId?: string; // Set from trainer and trainerInfo when the scrape result is created
   intensity: number; // 1-10
   price: number; // Keep for backward compatibility
   pricingDetails?: PricingDetails; // Enhanced pricing
   bookingUrl: string;
   providerId: string;
   providerName: string;
+  nativeId?: string; // Provider's own class-instance ID, when its API exposes one
   capacity: number;
   tags: string[]; // yoga, hiit, spin, pilates, etc.
+  taxonomy?: ClassTaxonomy; // Set when the scrape result is created, unless the provider classified the class itself
   // Enhanced fields
   photos?: string[]; // Array of photo URLs
   amenities?: Amenity[];
@@ -71,6 +115,7 @@ export interface FitnessClass {
   bookingStatus?: 'open' | 'closed' | 'full' | 'waitlist';
   lastAvailabilityCheck?: Date;
   reviews?: Review[];
+  bookingOptions?: BookingOption[]; // The same class listed by other providers, attached on upload
 }
 
 export interface ScrapeOptions {
@@ -80,6 +125,21 @@ export interface ScrapeOptions {
   maxResults?: number;
 }
 
+export interface ValidationError {
+  path: string; // Field path such as "location.lat" or "reviews[2].rating"
+  message: string;
+}
+
+/**
+ * Why a scrape rejected the classes it did, stored with the scrape run
+ */
+export interface ValidationSummary {
+  checked: number;
+  rejected: number;
+  errorsByPath: Record<string, number>; // Rejected classes per failing field path, array indexes removed
+  samples: Array<{ name: string; errors: ValidationError[] }>; // The first few rejected classes
+}
+
 export interface ScrapeResult {
   provider: string;
   success: boolean;
@@ -87,4 +147,5 @@ export interface ScrapeResult {
   classes: FitnessClass[];
   errors: string[];
   timestamp: Date;
+  validation?: ValidationSummary;
 }
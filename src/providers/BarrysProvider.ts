@@ -1,8 +1,8 @@
 import { BaseProvider, ProviderConfig } from './BaseProvider.js';
 import { FitnessClass, ScrapeOptions, ScrapeResult } from '../models/FitnessClass.js';
 import { ChromeManager } from '../core/ChromeManager.js';
-import { geocodeAddress } from '../utils/geocoding.js';
 import { parseIntensity, parseTags, sanitizeString } from '../utils/validation.js';
+import { providerRegistry } from './ProviderRegistry.js';
 
 /**
  * Provider adapter for Barry's Bootcamp
@@ -12,10 +12,11 @@ import { parseIntensity, parseTags, sanitizeString } from '../utils/validation.j
  * You'll need to inspect Barry's actual website and adjust selectors.
  */
 export class BarrysProvider extends BaseProvider {
-  readonly name = 'barrys';
+  readonly name: string;
 
   constructor(chromeManager: ChromeManager, config: ProviderConfig) {
     super(chromeManager, config);
+    this.name = config.name || 'barrys';
   }
 
   async scrapeClasses(options: ScrapeOptions): Promise<ScrapeResult> {
@@ -90,30 +91,12 @@ export class BarrysProvider extends BaseProvider {
             continue;
           }
 
-          // Check if within date range
-          if (!this.isWithinDateRange(datetime, options)) {
-            continue;
-          }
-
           // Get location details
           const locationName = classInfo.location || `Barry's ${location}`;
           const address = `Barry's Bootcamp ${location}`;
 
           // Geocode location
-          const geocoded = await geocodeAddress(address);
-          const locationData = geocoded
-            ? {
-                name: locationName,
-                address: geocoded.formattedAddress,
-                lat: geocoded.lat,
-                long: geocoded.long
-              }
-            : {
-                name: locationName,
-                address: address,
-                lat: 40.7589, // Default NYC coordinates (placeholder)
-                long: -73.9851
-              };
+          const locationData = await this.geocodeLocation(locationName, address);
 
           // Barry's classes are high-intensity HIIT
           const intensity = classInfo.level ? parseIntensity(classInfo.level) : 9;
@@ -129,17 +112,23 @@ export class BarrysProvider extends BaseProvider {
             name: sanitizeString(classInfo.name),
             description: sanitizeString(classInfo.description) || 'High-intensity interval training bootcamp',
             datetime,
+            durationMinutes: this.parseDuration(classInfo.duration),
             location: locationData,
             trainer: sanitizeString(classInfo.instructor) || 'Staff',
             intensity,
             price,
             bookingUrl: this.normalizeUrl(classInfo.bookingLink) || scheduleUrl,
-            providerId: `barrys-${datetime.getTime()}-${classInfo.name}-${locationName}`,
+            providerId: this.createProviderId(undefined, locationData.name, datetime, classInfo.name),
             providerName: this.name,
             capacity,
             tags: parseTags('hiit bootcamp cardio strength interval ' + classInfo.name + ' ' + classInfo.description + ' ' + classInfo.classType)
           };
 
+          // Check if within date range
+          if (!this.isInWindow(fitnessClass, options)) {
+            continue;
+          }
+
           // Validate and add
           if (this.validateClass(fitnessClass)) {
             classes.push(fitnessClass);
@@ -178,3 +167,5 @@ export class BarrysProvider extends BaseProvider {
     return this.createScrapeResult(classes, true, errors);
   }
 }
+
+providerRegistry.register('barrys', BarrysProvider, [{ enabled: true, baseUrl: 'https://www.barrys.com' }]);
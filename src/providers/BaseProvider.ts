@@ -1,23 +1,79 @@
-import { FitnessClass, ScrapeOptions, ScrapeResult, TrainerInfo, Amenity, Review, PricingDetails } from '../models/FitnessClass.js';
+import {
+  FitnessClass,
+  Location,
+  ScrapeOptions,
+  ScrapeResult,
+  TrainerInfo,
+  Amenity,
+  Review,
+  PricingDetails,
+  ValidationError,
+  ValidationSummary
+} from '../models/FitnessClass.js';
 import { ChromeManager } from '../core/ChromeManager.js';
+import { HttpClient } from '../core/HttpClient.js';
+import { VenueRegistry } from '../core/VenueRegistry.js';
+import { InstructorRegistry } from '../core/InstructorRegistry.js';
 import { logger } from '../utils/logger.js';
-import { validateFitnessClass } from '../utils/validation.js';
+import { formatValidationErrors, getValidationErrors } from '../utils/validation.js';
+import { createFallbackKey } from '../utils/classIdentity.js';
+import { geocodeAddress } from '../utils/geocoding.js';
+import { classifyClass } from '../utils/taxonomy.js';
+import {
+  formatLocalDateTime,
+  hasExplicitOffset,
+  isValidTimeZone,
+  parseInTimeZone,
+  reinterpretInTimeZone
+} from '../utils/timezone.js';
 
 export interface ProviderConfig {
+  name?: string; // Instance name, defaults to the provider's own name
   enabled: boolean;
   baseUrl: string;
   defaultLocation?: string;
   rateLimit?: number; // Requests per minute
+  timezone?: string; // IANA timezone of the provider's venues, used when its API does not report one
+}
+
+/**
+ * How a provider fetches its data: a headless browser page, or plain HTTP requests from Node
+ */
+export type ProviderTransport = 'browser' | 'http';
+
+// Rejected classes kept with their errors in each scrape's validation summary
+const MAX_VALIDATION_SAMPLES = 5;
+
+function emptyValidationSummary(): ValidationSummary {
+  return { checked: 0, rejected: 0, errorsByPath: {}, samples: [] };
 }
 
 export abstract class BaseProvider {
   abstract readonly name: string;
+  readonly transport: ProviderTransport = 'browser';
   protected chromeManager: ChromeManager;
+  protected httpClient: HttpClient;
   protected config: ProviderConfig;
+  // Dates parsed before the venue's timezone was known; localizeClass re-reads them in that zone
+  private floatingDates: WeakSet<Date> = new WeakSet();
+  // Fallback providerIds built from a floating date, with the venue and name to rebuild them from the settled start time
+  private floatingIds: Map<string, { venue: string; name: string }> = new Map();
+  // Classes whose venue and timezone are already settled
+  private localized: WeakSet<FitnessClass> = new WeakSet();
+  // Validation outcomes since the last scrape result, each class counted once however often it is validated
+  private validation: ValidationSummary = emptyValidationSummary();
+  private validated: WeakSet<object> = new WeakSet();
+  private venueRegistry?: VenueRegistry;
+  private instructorRegistry?: InstructorRegistry;
 
   constructor(chromeManager: ChromeManager, config: ProviderConfig) {
     this.chromeManager = chromeManager;
+    this.httpClient = new HttpClient();
     this.config = config;
+
+    if (config.timezone && !isValidTimeZone(config.timezone)) {
+      throw new Error(`Invalid timezone "${config.timezone}" for provider ${config.name || config.baseUrl}`);
+    }
   }
 
   /**
@@ -26,10 +82,33 @@ export abstract class BaseProvider {
   abstract scrapeClasses(options: ScrapeOptions): Promise<ScrapeResult>;
 
   /**
-   * Validate scraped class data
+   * Validate scraped class data, logging why it is invalid and counting it in the scrape's validation summary
    */
   validateClass(classData: any): boolean {
-    return validateFitnessClass(classData);
+    const errors = getValidationErrors(classData);
+    if (classData && typeof classData === 'object' && !this.validated.has(classData)) {
+      this.validated.add(classData);
+      this.recordValidation(classData, errors);
+    }
+    return errors.length === 0;
+  }
+
+  private recordValidation(classData: any, errors: ValidationError[]): void {
+    this.validation.checked++;
+    if (errors.length === 0) {
+      return;
+    }
+
+    this.validation.rejected++;
+    const paths = new Set(errors.map(e => e.path.replace(/\[\d+\]/g, '[]')));
+    for (const path of paths) {
+      this.validation.errorsByPath[path] = (this.validation.errorsByPath[path] ?? 0) + 1;
+    }
+    const name = typeof classData.name === 'string' ? classData.name : '(unnamed)';
+    if (this.validation.samples.length < MAX_VALIDATION_SAMPLES) {
+      this.validation.samples.push({ name, errors });
+    }
+    this.logError(`Invalid class data: ${name}: ${formatValidationErrors(errors)}`);
   }
 
   /**
@@ -46,6 +125,34 @@ export abstract class BaseProvider {
     return this.name;
   }
 
+  /**
+   * Check if provider needs Chrome to scrape
+   */
+  requiresBrowser(): boolean {
+    return this.transport === 'browser';
+  }
+
+  /**
+   * Share an HTTP client (and its cookie jar) with other providers
+   */
+  setHttpClient(httpClient: HttpClient): void {
+    this.httpClient = httpClient;
+  }
+
+  /**
+   * Resolve every scraped class's location to a canonical venue
+   */
+  setVenueRegistry(venueRegistry: VenueRegistry): void {
+    this.venueRegistry = venueRegistry;
+  }
+
+  /**
+   * Merge every scraped class's trainer into the instructors table and set its instructorId
+   */
+  setInstructorRegistry(instructorRegistry: InstructorRegistry): void {
+    this.instructorRegistry = instructorRegistry;
+  }
+
   /**
    * Get provider configuration
    */
@@ -71,13 +178,45 @@ export abstract class BaseProvider {
     success: boolean = true,
     errors: string[] = []
   ): ScrapeResult {
+    for (const fitnessClass of classes) {
+      this.localizeClass(fitnessClass);
+      if (this.instructorRegistry) {
+        fitnessClass.instructorId = this.instructorRegistry.resolve(fitnessClass);
+      }
+      this.applyDuration(fitnessClass);
+      if (!fitnessClass.taxonomy) {
+        fitnessClass.taxonomy = classifyClass({
+          name: fitnessClass.name,
+          description: fitnessClass.description,
+          categories: fitnessClass.tags
+        }).taxonomy;
+      }
+    }
+
+    this.floatingIds.clear();
+
+    const floating = classes.filter(c => c.floatingTime).length;
+    if (floating > 0) {
+      logger.warn(`[${this.name}] No timezone known for the venues of ${floating} of ${classes.length} classes; their times are in the machine's timezone. Set timezone in providers.json`);
+    }
+
+    const validation = this.validation;
+    this.validation = emptyValidationSummary();
+    if (validation.rejected > 0) {
+      const reasons = Object.entries(validation.errorsByPath)
+        .sort((a, b) => b[1] - a[1])
+        .map(([path, count]) => `${path} (${count})`);
+      logger.warn(`[${this.name}] Rejected ${validation.rejected} of ${validation.checked} classes: ${reasons.join(', ')}`);
+    }
+
     return {
       provider: this.name,
       success,
       classesFound: classes.length,
       classes,
       errors,
-      timestamp: new Date()
+      timestamp: new Date(),
+      validation
     };
   }
 
@@ -103,26 +242,128 @@ export abstract class BaseProvider {
   }
 
   /**
-   * Parse date and time from various formats
+   * Parse date and time from various formats, as wall-clock time in the venue's timezone
+   * Without a timezone the result is provisional until localizeClass learns the venue's zone
    */
-  protected parseDateTime(dateStr: string, timeStr?: string): Date | null {
+  protected parseDateTime(dateStr: string, timeStr?: string, timeZone: string | undefined = this.config.timezone): Date | null {
     try {
-      if (timeStr) {
-        // Combine date and time strings
-        const combined = `${dateStr} ${timeStr}`;
-        const date = new Date(combined);
-        return isNaN(date.getTime()) ? null : date;
-      } else {
-        // Parse date string directly
-        const date = new Date(dateStr);
-        return isNaN(date.getTime()) ? null : date;
+      // Combine date and time strings
+      const text = timeStr ? `${dateStr} ${timeStr}` : dateStr;
+
+      if (timeZone) {
+        return parseInTimeZone(text, timeZone);
+      }
+
+      const date = new Date(text);
+      if (isNaN(date.getTime())) {
+        return null;
+      }
+      if (!hasExplicitOffset(text)) {
+        this.floatingDates.add(date);
       }
+      return date;
     } catch (error) {
       this.logError(`Error parsing date: ${dateStr} ${timeStr}`, error);
       return null;
     }
   }
 
+  /**
+   * Resolve a class's venue and timezone, then rebuild a fallback providerId from the settled start time
+   * Runs before any start time is compared against the scrape's date window (see isInWindow); repeat calls do nothing
+   */
+  private localizeClass(fitnessClass: FitnessClass): void {
+    if (this.localized.has(fitnessClass)) {
+      return;
+    }
+    this.localized.add(fitnessClass);
+
+    if (this.venueRegistry) {
+      fitnessClass.location = this.venueRegistry.resolve(fitnessClass.location);
+    }
+
+    const floating = fitnessClass.datetime;
+    this.applyTimeZone(fitnessClass);
+
+    const fallback = this.floatingIds.get(fitnessClass.providerId);
+    if (fallback && fitnessClass.datetime !== floating) {
+      fitnessClass.providerId = this.createProviderId(undefined, fallback.venue, fitnessClass.datetime, fallback.name);
+    }
+  }
+
+  /**
+   * Resolve a class's venue timezone (from the provider API, its venue, or providers.json)
+   * and fill in location.timezone and localDatetime
+   * Timezones are never guessed from coordinates; classes left on the machine's clock are flagged floatingTime
+   */
+  protected applyTimeZone(fitnessClass: FitnessClass): void {
+    const { location } = fitnessClass;
+    const timeZone = location.timezone || this.config.timezone;
+
+    if (!timeZone) {
+      if (this.floatingDates.has(fitnessClass.datetime)) {
+        logger.debug(`[${this.name}] No timezone known for ${location.name}, keeping the machine's timezone`);
+        fitnessClass.floatingTime = true;
+      }
+      return;
+    }
+
+    if (this.floatingDates.has(fitnessClass.datetime)) {
+      fitnessClass.datetime = reinterpretInTimeZone(fitnessClass.datetime, timeZone);
+    }
+    if (fitnessClass.endDatetime && this.floatingDates.has(fitnessClass.endDatetime)) {
+      fitnessClass.endDatetime = reinterpretInTimeZone(fitnessClass.endDatetime, timeZone);
+    }
+    fitnessClass.location = { ...location, timezone: timeZone };
+    fitnessClass.localDatetime = formatLocalDateTime(fitnessClass.datetime, timeZone);
+  }
+
+  /**
+   * Derive endDatetime from durationMinutes or the reverse, whichever the provider did not report
+   * End times that are not after the start are dropped
+   */
+  protected applyDuration(fitnessClass: FitnessClass): void {
+    const start = fitnessClass.datetime.getTime();
+
+    if (fitnessClass.endDatetime && fitnessClass.endDatetime.getTime() <= start) {
+      logger.debug(`[${this.name}] Ignoring end time before start for ${fitnessClass.name}`);
+      fitnessClass.endDatetime = undefined;
+    }
+
+    if (fitnessClass.endDatetime && fitnessClass.durationMinutes === undefined) {
+      fitnessClass.durationMinutes = Math.round((fitnessClass.endDatetime.getTime() - start) / 60000);
+    } else if (!fitnessClass.endDatetime && fitnessClass.durationMinutes !== undefined) {
+      fitnessClass.endDatetime = new Date(start + fitnessClass.durationMinutes * 60000);
+    }
+  }
+
+  /**
+   * Parse a class length such as "45 min", "1 hr 15 min", "1h15", "1:15" or "60" into minutes
+   */
+  protected parseDuration(text?: string | null): number | undefined {
+    if (!text) {
+      return undefined;
+    }
+
+    const lower = text.toLowerCase().trim();
+    let minutes: number | undefined;
+
+    const clock = lower.match(/^(\d+):(\d{2})$/);
+    const hours = lower.match(/(\d+(?:\.\d+)?)\s*(?:hours?|hrs?|h)(?![a-z])\s*(\d+)?/);
+    const mins = lower.match(/(\d+)\s*(?:minutes?|mins?|m)(?![a-z])/);
+
+    if (clock) {
+      minutes = parseInt(clock[1], 10) * 60 + parseInt(clock[2], 10);
+    } else if (hours || mins) {
+      minutes = (hours ? parseFloat(hours[1]) * 60 : 0) +
+        (mins ? parseInt(mins[1], 10) : hours?.[2] ? parseInt(hours[2], 10) : 0);
+    } else if (/^\d+$/.test(lower)) {
+      minutes = parseInt(lower, 10);
+    }
+
+    return minutes !== undefined && minutes > 0 && minutes <= 24 * 60 ? Math.round(minutes) : undefined;
+  }
+
   /**
    * Extract price from text (e.g., "$25.00" -> 25.00)
    */
@@ -169,6 +410,42 @@ export abstract class BaseProvider {
     return `${this.config.baseUrl}/${url}`;
   }
 
+  /**
+   * Build a stable providerId from the provider's native class-instance ID,
+   * or from venue, start time and normalized name when the provider has none
+   */
+  protected createProviderId(nativeId: string | number | undefined, venue: string, datetime: Date, name: string): string {
+    if (nativeId !== undefined && nativeId !== '') {
+      return `${this.name}-${nativeId}`;
+    }
+
+    const providerId = `${this.name}-${createFallbackKey(venue, datetime, name)}`;
+    if (this.floatingDates.has(datetime)) {
+      this.floatingIds.set(providerId, { venue, name });
+    }
+    return providerId;
+  }
+
+  /**
+   * Geocode a venue address through the configured geocoder chain
+   * Venues no geocoder can place are flagged unresolved instead of being given made-up coordinates
+   */
+  protected async geocodeLocation(name: string, address: string, timezone?: string): Promise<Location> {
+    const geocoded = await geocodeAddress(address);
+    if (!geocoded) {
+      logger.debug(`[${this.name}] Flagging location of ${name} as unresolved`);
+      return { name, address, lat: 0, long: 0, timezone, unresolved: true };
+    }
+
+    return {
+      name,
+      address: geocoded.formattedAddress,
+      lat: geocoded.lat,
+      long: geocoded.long,
+      timezone: timezone ?? geocoded.timezone
+    };
+  }
+
   /**
    * Check if scraped data is within the desired date range
    */
@@ -182,6 +459,15 @@ export abstract class BaseProvider {
     return true;
   }
 
+  /**
+   * Check if a class starts within the desired date range
+   * Its venue's timezone is applied first, so a start time read without one is compared on the venue's clock
+   */
+  protected isInWindow(fitnessClass: FitnessClass, options: ScrapeOptions): boolean {
+    this.localizeClass(fitnessClass);
+    return this.isWithinDateRange(fitnessClass.datetime, options);
+  }
+
   /**
    * Filter and validate scraped classes
    */
@@ -189,18 +475,10 @@ export abstract class BaseProvider {
     let filtered = classes;
 
     // Filter by date range
-    if (options.startDate || options.endDate) {
-      filtered = filtered.filter(c => this.isWithinDateRange(c.datetime, options));
-    }
+    filtered = filtered.filter(c => this.isInWindow(c, options));
 
     // Validate all classes
-    filtered = filtered.filter(c => {
-      if (!this.validateClass(c)) {
-        this.logError(`Invalid class data: ${c.name}`);
-        return false;
-      }
-      return true;
-    });
+    filtered = filtered.filter(c => this.validateClass(c));
 
     // Limit results if specified
     if (options.maxResults && filtered.length > options.maxResults) {
@@ -259,6 +537,14 @@ export abstract class BaseProvider {
     return undefined;
   }
 
+  /**
+   * Record an instructor profile that is not the primary trainer of a scraped class,
+   * such as a co-instructor or an entry in a provider's instructor listing
+   */
+  protected addInstructorProfile(profile: TrainerInfo): void {
+    this.instructorRegistry?.addProfile(this.name, profile);
+  }
+
   /**
    * Parse trainer info from text and links
    */
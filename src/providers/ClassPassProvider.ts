@@ -1,8 +1,8 @@
 import { BaseProvider, ProviderConfig } from './BaseProvider.js';
 import { FitnessClass, ScrapeOptions, ScrapeResult } from '../models/FitnessClass.js';
 import { ChromeManager } from '../core/ChromeManager.js';
-import { geocodeAddress } from '../utils/geocoding.js';
 import { parseIntensity, parseTags, sanitizeString } from '../utils/validation.js';
+import { providerRegistry } from './ProviderRegistry.js';
 
 /**
  * Provider adapter for ClassPass
@@ -12,10 +12,11 @@ import { parseIntensity, parseTags, sanitizeString } from '../utils/validation.j
  * This implementation shows the structure - actual implementation may need to handle auth.
  */
 export class ClassPassProvider extends BaseProvider {
-  readonly name = 'classpass';
+  readonly name: string;
 
   constructor(chromeManager: ChromeManager, config: ProviderConfig) {
     super(chromeManager, config);
+    this.name = config.name || 'classpass';
   }
 
   async scrapeClasses(options: ScrapeOptions): Promise<ScrapeResult> {
@@ -106,30 +107,12 @@ export class ClassPassProvider extends BaseProvider {
             continue;
           }
 
-          // Check date range
-          if (!this.isWithinDateRange(datetime, options)) {
-            continue;
-          }
-
           // Parse location
           const locationName = classData.studioName || 'Studio';
           const address = classData.address || locationName;
 
           // Geocode address
-          const geocoded = await geocodeAddress(address);
-          const locationData = geocoded
-            ? {
-                name: locationName,
-                address: geocoded.formattedAddress,
-                lat: geocoded.lat,
-                long: geocoded.long
-              }
-            : {
-                name: locationName,
-                address: address,
-                lat: 0,
-                long: 0
-              };
+          const locationData = await this.geocodeLocation(locationName, address);
 
           // Parse intensity
           const intensity = classData.difficulty
@@ -167,12 +150,13 @@ export class ClassPassProvider extends BaseProvider {
             name: sanitizeString(classData.className),
             description: sanitizeString(classData.description),
             datetime,
+            durationMinutes: this.parseDuration(classData.duration),
             location: locationData,
             trainer: sanitizeString(classData.instructor) || 'Instructor',
             intensity,
             price,
             bookingUrl: this.normalizeUrl(classData.bookingUrl) || searchUrl,
-            providerId: `classpass-${datetime.getTime()}-${classData.className}-${locationName}`,
+            providerId: this.createProviderId(undefined, locationData.name, datetime, classData.className),
             providerName: this.name,
             capacity,
             tags: parseTags(
@@ -188,6 +172,11 @@ export class ClassPassProvider extends BaseProvider {
             pricingDetails
           };
 
+          // Check if within date range
+          if (!this.isInWindow(fitnessClass, options)) {
+            continue;
+          }
+
           // Validate and add
           if (this.validateClass(fitnessClass)) {
             classes.push(fitnessClass);
@@ -258,3 +247,5 @@ export class ClassPassProvider extends BaseProvider {
     }
   }
 }
+
+providerRegistry.register('classpass', ClassPassProvider, [{ enabled: true, baseUrl: 'https://classpass.com' }]);
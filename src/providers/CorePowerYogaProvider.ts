@@ -1,8 +1,8 @@
 import { BaseProvider, ProviderConfig } from './BaseProvider.js';
 import { FitnessClass, ScrapeOptions, ScrapeResult } from '../models/FitnessClass.js';
 import { ChromeManager } from '../core/ChromeManager.js';
-import { geocodeAddress } from '../utils/geocoding.js';
 import { parseIntensity, parseTags, sanitizeString } from '../utils/validation.js';
+import { providerRegistry } from './ProviderRegistry.js';
 
 /**
  * Provider adapter for CorePower Yoga
@@ -12,10 +12,11 @@ import { parseIntensity, parseTags, sanitizeString } from '../utils/validation.j
  * You'll need to inspect CorePower Yoga's actual website and adjust selectors.
  */
 export class CorePowerYogaProvider extends BaseProvider {
-  readonly name = 'corepoweryoga';
+  readonly name: string;
 
   constructor(chromeManager: ChromeManager, config: ProviderConfig) {
     super(chromeManager, config);
+    this.name = config.name || 'corepoweryoga';
   }
 
   async scrapeClasses(options: ScrapeOptions): Promise<ScrapeResult> {
@@ -90,30 +91,12 @@ export class CorePowerYogaProvider extends BaseProvider {
             continue;
           }
 
-          // Check if within date range
-          if (!this.isWithinDateRange(datetime, options)) {
-            continue;
-          }
-
           // Get location details
           const locationName = classInfo.location || `CorePower Yoga ${location}`;
           const address = `CorePower Yoga ${location}`;
 
           // Geocode location
-          const geocoded = await geocodeAddress(address);
-          const locationData = geocoded
-            ? {
-                name: locationName,
-                address: geocoded.formattedAddress,
-                lat: geocoded.lat,
-                long: geocoded.long
-              }
-            : {
-                name: locationName,
-                address: address,
-                lat: 40.7589, // Default NYC coordinates (placeholder)
-                long: -73.9851
-              };
+          const locationData = await this.geocodeLocation(locationName, address);
 
           // Determine intensity based on class type
           let intensity = 5;
@@ -138,17 +121,23 @@ export class CorePowerYogaProvider extends BaseProvider {
             name: sanitizeString(classInfo.name),
             description: sanitizeString(classInfo.description) || 'Yoga class',
             datetime,
+            durationMinutes: this.parseDuration(classInfo.duration),
             location: locationData,
             trainer: sanitizeString(classInfo.instructor) || 'Instructor',
             intensity,
             price,
             bookingUrl: this.normalizeUrl(classInfo.bookingLink) || scheduleUrl,
-            providerId: `corepoweryoga-${datetime.getTime()}-${classInfo.name}-${locationName}`,
+            providerId: this.createProviderId(undefined, locationData.name, datetime, classInfo.name),
             providerName: this.name,
             capacity,
             tags: parseTags('yoga stretching core ' + classInfo.name + ' ' + classInfo.description + ' ' + classInfo.classType)
           };
 
+          // Check if within date range
+          if (!this.isInWindow(fitnessClass, options)) {
+            continue;
+          }
+
           // Validate and add
           if (this.validateClass(fitnessClass)) {
             classes.push(fitnessClass);
@@ -187,3 +176,5 @@ export class CorePowerYogaProvider extends BaseProvider {
     return this.createScrapeResult(classes, true, errors);
   }
 }
+
+providerRegistry.register('corepoweryoga', CorePowerYogaProvider, [{ enabled: true, baseUrl: 'https://www.corepoweryoga.com' }]);
@@ -1,14 +1,18 @@
-import { BaseProvider, ProviderConfig } from './BaseProvider.js';
-import { FitnessClass, ScrapeOptions, ScrapeResult } from '../models/FitnessClass.js';
+import { BaseProvider, ProviderConfig, ProviderTransport } from './BaseProvider.js';
+import { FitnessClass, Location, ScrapeOptions, ScrapeResult, TrainerInfo } from '../models/FitnessClass.js';
 import { ChromeManager } from '../core/ChromeManager.js';
 import { sanitizeString } from '../utils/validation.js';
+import { classifyClass, taxonomyTags } from '../utils/taxonomy.js';
+import { providerRegistry } from './ProviderRegistry.js';
+import { findKnownVenue, knownVenueLocation } from './knownVenues.js';
 
 /**
  * Provider adapter for Equinox gym chain
- * Uses the Equinox API endpoint for class schedules
+ * Uses the Equinox API endpoint for class schedules over plain HTTP (no browser needed)
  */
 export class EquinoxProvider extends BaseProvider {
-  readonly name = 'equinox';
+  readonly name: string;
+  readonly transport: ProviderTransport = 'http';
   private readonly apiEndpoint = 'https://api.equinox.com/v6/groupfitness/classes/allclasses';
 
   // Equinox facility IDs for major locations
@@ -47,6 +51,7 @@ export class EquinoxProvider extends BaseProvider {
 
   constructor(chromeManager: ChromeManager, config: ProviderConfig) {
     super(chromeManager, config);
+    this.name = config.name || 'equinox';
   }
 
   async scrapeClasses(options: ScrapeOptions): Promise<ScrapeResult> {
@@ -95,12 +100,7 @@ export class EquinoxProvider extends BaseProvider {
 
     this.logProgress(`Date range: ${startDateStr} to ${endDateStr}`);
 
-    // Create a single page for all API requests
-    let page = null;
-
     try {
-      page = await this.chromeManager.newPage();
-
       // Loop through each facility
       for (const facilityId of facilityIdsToScrape) {
         const location = locationNames.get(facilityId);
@@ -112,31 +112,17 @@ export class EquinoxProvider extends BaseProvider {
         this.logProgress(`\n--- Scraping ${location.name} (ID: ${facilityId}) ---`);
 
         try {
-          // Navigate to the club page first to establish session
-          await this.chromeManager.navigateWithRetry(page, location.clubUrl);
-          await this.delay(2000);
-
-          // Make API request via page.evaluate to bypass CORS
-          const apiResponse = await page.evaluate(async (apiUrl, payload) => {
-            const response = await fetch(apiUrl, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-                'Accept': 'application/json'
-              },
-              body: JSON.stringify(payload)
-            });
-
-            if (!response.ok) {
-              throw new Error(`API request failed: ${response.status}`);
-            }
-
-            return await response.json();
-          }, this.apiEndpoint, {
+          // The API expects requests to originate from the club page
+          const apiResponse = await this.httpClient.postJson<any>(this.apiEndpoint, {
             startDate: startDateStr,
             endDate: endDateStr,
             facilityIds: [facilityId],
             isBookingRequired: false
+          }, {
+            headers: {
+              'Origin': 'https://www.equinox.com',
+              'Referer': location.clubUrl
+            }
           });
 
           this.logProgress(`[${location.name}] API response: ${apiResponse.classes?.length || 0} classes found`);
@@ -192,10 +178,6 @@ export class EquinoxProvider extends BaseProvider {
       this.logError(errorMsg);
       errors.push(errorMsg);
       return this.createScrapeResult(classes, false, errors);
-    } finally {
-      if (page) {
-        await this.chromeManager.closePage(page);
-      }
     }
 
     return this.createScrapeResult(classes, true, errors);
@@ -221,18 +203,17 @@ export class EquinoxProvider extends BaseProvider {
 
       // Extract instructor information
       let instructorName = 'Staff';
-      let trainerInfo = undefined;
+      let trainerInfo: TrainerInfo | undefined;
 
       if (apiClass.instructors && apiClass.instructors.length > 0) {
-        const primaryInstructor = apiClass.instructors[0].instructor;
-        instructorName = sanitizeString(`${primaryInstructor.firstName} ${primaryInstructor.lastName}`);
-
-        const instructorAvatar = primaryInstructor.instructorAvatar?.[0];
-        trainerInfo = {
-          name: instructorName,
-          bio: primaryInstructor.bio ? sanitizeString(primaryInstructor.bio) : undefined,
-          photoUrl: instructorAvatar?.avatarHeadshotsImageUrl || instructorAvatar?.avatarThumbnailImageUrl || undefined
-        };
+        const [primary, ...coInstructors] = apiClass.instructors.map((entry: any) => this.parseInstructor(entry.instructor));
+        instructorName = primary.name;
+        trainerInfo = primary;
+
+        // Co-instructors have no class of their own to carry their profile
+        for (const profile of coInstructors) {
+          this.addInstructorProfile(profile);
+        }
       }
 
       // Parse capacity and availability
@@ -250,28 +231,16 @@ export class EquinoxProvider extends BaseProvider {
         bookingStatus = 'closed';
       }
 
-      // Parse intensity from class level
-      let intensity = 5; // Default medium intensity
-      if (apiClass.classLevel?.content) {
-        const levelText = apiClass.classLevel.content.toLowerCase();
-        if (levelText.includes('beginner') || levelText.includes('all levels')) {
-          intensity = 3;
-        } else if (levelText.includes('advanced') || levelText.includes('high')) {
-          intensity = 8;
-        }
-      }
-
       // Build location data dynamically based on facility ID
-      const locationData = this.getLocationData(facilityId, apiClass.studioName);
+      const { location, clubUrl } = this.getLocationData(facilityId, apiClass.studioName);
 
-      // Extract tags from class title and description
-      const tags: string[] = [];
-      if (className && typeof className === 'string' && className !== 'Unknown Class') {
-        tags.push(sanitizeString(className));
-      }
-      if (apiClass.primaryCategory?.name) tags.push(apiClass.primaryCategory.name);
-      if (apiClass.classLevel?.content) tags.push(apiClass.classLevel.content);
-      if (apiClass.timeSlot) tags.push(apiClass.timeSlot); // Morning, Afternoon, Evening
+      // Classify from the Equinox category and level, then the class title and description
+      const { taxonomy, intensity } = classifyClass({
+        name: className,
+        description: classDescription,
+        categories: [apiClass.primaryCategory?.name, apiClass.classLevel?.content].filter(Boolean),
+        categorySource: 'equinox'
+      });
 
       // Extract class ID - try multiple possible field names
       const classId = apiClass.classInstanceID || apiClass.classInstanceId ||
@@ -289,15 +258,18 @@ export class EquinoxProvider extends BaseProvider {
         name: sanitizeString(className),
         description: sanitizeString(classDescription),
         datetime: startDate,
-        location: locationData,
+        endDatetime: endDate,
+        location,
         trainer: instructorName,
         intensity,
         price: 0, // Equinox is membership-based
-        bookingUrl: classId ? `https://www.equinox.com/groupfitness/${classId}` : locationData.clubUrl,
-        providerId: `equinox-${facilityId}-${classId || Date.now()}`,
+        bookingUrl: classId ? `https://www.equinox.com/groupfitness/${classId}` : clubUrl,
+        providerId: this.createProviderId(classId ? `${facilityId}-${classId}` : undefined, location.name, startDate, className),
+        nativeId: classId ? String(classId) : undefined,
         providerName: this.name,
         capacity,
-        tags,
+        tags: taxonomyTags(taxonomy),
+        taxonomy,
 
         // Enhanced fields
         photos: apiClass.imageURL ? [
@@ -329,67 +301,32 @@ export class EquinoxProvider extends BaseProvider {
   }
 
   /**
-   * Get location data for a facility ID
+   * Profile from an instructor object in the API response
    */
-  private getLocationData(facilityId: number, studioName?: string): any {
-    const locationMap: Record<number, any> = {
-      860: { // Vancouver
-        name: `Equinox West Georgia - ${studioName || 'Main Studio'}`,
-        address: '1131 West Georgia Street, Vancouver, BC V6E 2X5',
-        lat: 49.2826,
-        long: -123.1207,
-        clubUrl: 'https://www.equinox.com/clubs/canada/vancouver/westgeorgiast'
-      },
-      138: { // NYC Hudson Yards
-        name: `Equinox Hudson Yards - ${studioName || 'Main Studio'}`,
-        address: '32 Hudson Yards, New York, NY 10001',
-        lat: 40.7538,
-        long: -74.0010,
-        clubUrl: 'https://www.equinox.com/clubs/new-york/midtown/hudsonyards'
-      },
-      113: { // NYC Columbus Circle
-        name: `Equinox Columbus Circle - ${studioName || 'Main Studio'}`,
-        address: '10 Columbus Circle, New York, NY 10019',
-        lat: 40.7681,
-        long: -73.9819,
-        clubUrl: 'https://www.equinox.com/clubs/new-york/uptown/columbuscircle'
-      },
-      713: { // LA Sports Club
-        name: `Equinox Sports Club LA - ${studioName || 'Main Studio'}`,
-        address: '1835 Sepulveda Boulevard, Los Angeles, CA 90025',
-        lat: 34.0522,
-        long: -118.4437,
-        clubUrl: 'https://www.equinox.com/clubs/southern-california/los-angeles/losangeles'
-      },
-      724: { // SF Sports Club
-        name: `Equinox Sports Club SF - ${studioName || 'Main Studio'}`,
-        address: '747 Market Street, San Francisco, CA 94103',
-        lat: 37.7861,
-        long: -122.4047,
-        clubUrl: 'https://www.equinox.com/clubs/northern-california/sportsclubsanfrancisco'
-      },
-      401: { // Chicago Lincoln Park
-        name: `Equinox Lincoln Park - ${studioName || 'Main Studio'}`,
-        address: '1750 North Clark Street, Chicago, IL 60614',
-        lat: 41.9139,
-        long: -87.6340,
-        clubUrl: 'https://www.equinox.com/clubs/chicago/lincolnpark'
-      },
-      304: { // Miami Brickell
-        name: `Equinox Brickell - ${studioName || 'Main Studio'}`,
-        address: '1441 Brickell Avenue, Miami, FL 33131',
-        lat: 25.7617,
-        long: -80.1918,
-        clubUrl: 'https://www.equinox.com/clubs/florida/brickell'
-      }
+  private parseInstructor(instructor: any): TrainerInfo {
+    const avatar = instructor.instructorAvatar?.[0];
+    return {
+      name: sanitizeString(`${instructor.firstName} ${instructor.lastName}`),
+      bio: instructor.bio ? sanitizeString(instructor.bio) : undefined,
+      photoUrl: avatar?.avatarHeadshotsImageUrl || avatar?.avatarThumbnailImageUrl || undefined
     };
+  }
 
-    return locationMap[facilityId] || {
-      name: `Equinox - ${studioName || 'Main Studio'}`,
-      address: 'Equinox Location',
-      lat: 0,
-      long: 0,
-      clubUrl: 'https://www.equinox.com'
+  /**
+   * Get location data for a facility ID
+   */
+  private getLocationData(facilityId: number, studioName?: string): { location: Location; clubUrl: string } {
+    const venue = findKnownVenue('equinox', facilityId);
+    if (!venue) {
+      return {
+        location: { name: `Equinox - ${studioName || 'Main Studio'}`, address: 'Equinox Location', lat: 0, long: 0, unresolved: true },
+        clubUrl: 'https://www.equinox.com'
+      };
+    }
+
+    return {
+      location: knownVenueLocation(venue, `${venue.name} - ${studioName || 'Main Studio'}`),
+      clubUrl: venue.url || 'https://www.equinox.com'
     };
   }
 
@@ -403,3 +340,5 @@ export class EquinoxProvider extends BaseProvider {
     return `${year}-${month}-${day}`;
   }
 }
+
+providerRegistry.register('equinox', EquinoxProvider, [{ enabled: true, baseUrl: 'https://www.equinox.com' }]);
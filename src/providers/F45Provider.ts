@@ -1,8 +1,8 @@
 import { BaseProvider, ProviderConfig } from './BaseProvider.js';
 import { FitnessClass, ScrapeOptions, ScrapeResult } from '../models/FitnessClass.js';
 import { ChromeManager } from '../core/ChromeManager.js';
-import { geocodeAddress } from '../utils/geocoding.js';
 import { parseIntensity, parseTags, sanitizeString } from '../utils/validation.js';
+import { providerRegistry } from './ProviderRegistry.js';
 
 /**
  * Provider adapter for F45 Training
@@ -12,10 +12,11 @@ import { parseIntensity, parseTags, sanitizeString } from '../utils/validation.j
  * You'll need to inspect F45's actual website and adjust selectors.
  */
 export class F45Provider extends BaseProvider {
-  readonly name = 'f45';
+  readonly name: string;
 
   constructor(chromeManager: ChromeManager, config: ProviderConfig) {
     super(chromeManager, config);
+    this.name = config.name || 'f45';
   }
 
   async scrapeClasses(options: ScrapeOptions): Promise<ScrapeResult> {
@@ -90,30 +91,12 @@ export class F45Provider extends BaseProvider {
             continue;
           }
 
-          // Check if within date range
-          if (!this.isWithinDateRange(datetime, options)) {
-            continue;
-          }
-
           // Get location details
           const locationName = classInfo.location || `F45 ${location}`;
           const address = `F45 Training ${location}`;
 
           // Geocode location
-          const geocoded = await geocodeAddress(address);
-          const locationData = geocoded
-            ? {
-                name: locationName,
-                address: geocoded.formattedAddress,
-                lat: geocoded.lat,
-                long: geocoded.long
-              }
-            : {
-                name: locationName,
-                address: address,
-                lat: 40.7589, // Default NYC coordinates (placeholder)
-                long: -73.9851
-              };
+          const locationData = await this.geocodeLocation(locationName, address);
 
           // Determine intensity based on workout type
           let intensity = 8; // F45 is generally high-intensity
@@ -137,17 +120,23 @@ export class F45Provider extends BaseProvider {
             name: sanitizeString(classInfo.name),
             description: sanitizeString(classInfo.description) || 'Functional training workout',
             datetime,
+            durationMinutes: this.parseDuration(classInfo.duration),
             location: locationData,
             trainer: sanitizeString(classInfo.instructor) || 'Trainer',
             intensity,
             price,
             bookingUrl: this.normalizeUrl(classInfo.bookingLink) || scheduleUrl,
-            providerId: `f45-${datetime.getTime()}-${classInfo.name}-${locationName}`,
+            providerId: this.createProviderId(undefined, locationData.name, datetime, classInfo.name),
             providerName: this.name,
             capacity,
             tags: parseTags('functional hiit circuit strength cardio ' + classInfo.name + ' ' + classInfo.description + ' ' + classInfo.workoutType)
           };
 
+          // Check if within date range
+          if (!this.isInWindow(fitnessClass, options)) {
+            continue;
+          }
+
           // Validate and add
           if (this.validateClass(fitnessClass)) {
             classes.push(fitnessClass);
@@ -186,3 +175,5 @@ export class F45Provider extends BaseProvider {
     return this.createScrapeResult(classes, true, errors);
   }
 }
+
+providerRegistry.register('f45', F45Provider, [{ enabled: true, baseUrl: 'https://f45training.com' }]);
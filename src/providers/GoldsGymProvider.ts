@@ -1,8 +1,8 @@
 import { BaseProvider, ProviderConfig } from './BaseProvider.js';
 import { FitnessClass, ScrapeOptions, ScrapeResult } from '../models/FitnessClass.js';
 import { ChromeManager } from '../core/ChromeManager.js';
-import { geocodeAddress } from '../utils/geocoding.js';
 import { parseIntensity, parseTags, sanitizeString } from '../utils/validation.js';
+import { providerRegistry } from './ProviderRegistry.js';
 
 /**
  * Provider adapter for Gold's Gym
@@ -14,10 +14,11 @@ import { parseIntensity, parseTags, sanitizeString } from '../utils/validation.j
  * - https://www.goldsgym.com/austinsouthtx/class-schedule/
  */
 export class GoldsGymProvider extends BaseProvider {
-  readonly name = 'goldsgym';
+  readonly name: string;
 
   constructor(chromeManager: ChromeManager, config: ProviderConfig) {
     super(chromeManager, config);
+    this.name = config.name || 'goldsgym';
   }
 
   async scrapeClasses(options: ScrapeOptions): Promise<ScrapeResult> {
@@ -211,30 +212,12 @@ export class GoldsGymProvider extends BaseProvider {
             continue;
           }
 
-          // Check if within date range
-          if (!this.isWithinDateRange(datetime, options)) {
-            continue;
-          }
-
           // Get location details
           const locationName = classInfo.room || `Gold's Gym ${location}`;
           const address = `Gold's Gym ${location}`;
 
           // Geocode location
-          const geocoded = await geocodeAddress(address);
-          const locationData = geocoded
-            ? {
-                name: locationName,
-                address: geocoded.formattedAddress,
-                lat: geocoded.lat,
-                long: geocoded.long
-              }
-            : {
-                name: locationName,
-                address: address,
-                lat: 40.7589, // Default coordinates (placeholder)
-                long: -73.9851
-              };
+          const locationData = await this.geocodeLocation(locationName, address);
 
           // Determine intensity based on class type
           let intensity = 5; // Default medium intensity
@@ -267,17 +250,23 @@ export class GoldsGymProvider extends BaseProvider {
             name: sanitizeString(classInfo.name),
             description: sanitizeString(classInfo.description) || 'Group fitness class at Gold\'s Gym',
             datetime,
+            durationMinutes: this.parseDuration(classInfo.duration),
             location: locationData,
             trainer: sanitizeString(classInfo.instructor) || 'Instructor',
             intensity,
             price,
             bookingUrl: this.normalizeUrl(classInfo.bookingLink) || scheduleUrl,
-            providerId: `goldsgym-${datetime.getTime()}-${classInfo.name}-${location}`,
+            providerId: this.createProviderId(undefined, locationData.name, datetime, classInfo.name),
             providerName: this.name,
             capacity,
             tags: parseTags('group fitness gym ' + classInfo.name + ' ' + classInfo.description + ' ' + classInfo.classType)
           };
 
+          // Check if within date range
+          if (!this.isInWindow(fitnessClass, options)) {
+            continue;
+          }
+
           // Validate and add
           if (this.validateClass(fitnessClass)) {
             classes.push(fitnessClass);
@@ -316,3 +305,5 @@ export class GoldsGymProvider extends BaseProvider {
     return this.createScrapeResult(classes, true, errors);
   }
 }
+
+providerRegistry.register('goldsgym', GoldsGymProvider, [{ enabled: true, baseUrl: 'https://www.goldsgym.com' }]);
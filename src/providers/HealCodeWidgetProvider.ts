@@ -0,0 +1,407 @@
+import { BaseProvider, ProviderConfig } from './BaseProvider.js';
+import { FitnessClass, Location, ScrapeOptions, ScrapeResult } from '../models/FitnessClass.js';
+import { ChromeManager } from '../core/ChromeManager.js';
+import { parseTags, sanitizeString } from '../utils/validation.js';
+import { providerRegistry } from './ProviderRegistry.js';
+import { findKnownVenue, knownVenueLocation } from './knownVenues.js';
+
+export interface HealCodeWidgetConfig extends ProviderConfig {
+  name: string; // Provider name, e.g. "goodyoga"
+  siteUrl: string; // Studio page that embeds the widget
+  widgetId: string; // Numeric id in #bw-widget__schedules-<id>
+  mindbodySiteId?: string; // Used for the fallback booking link
+  venue: Location;
+  daysAhead?: number; // Window used when no end date is given
+  defaultTags?: string[];
+}
+
+/**
+ * Provider adapter for studios that embed the Mindbody/HealCode branded-web schedule widget
+ * The widget markup (#bw-widget__schedules-<id>, .bw-session) is identical across studios,
+ * so one instance is created per studio from providers.json
+ */
+export class HealCodeWidgetProvider extends BaseProvider {
+  readonly name: string;
+  protected config: HealCodeWidgetConfig;
+
+  constructor(chromeManager: ChromeManager, config: HealCodeWidgetConfig) {
+    super(chromeManager, config);
+    this.config = config;
+    this.name = config.name;
+  }
+
+  async scrapeClasses(options: ScrapeOptions): Promise<ScrapeResult> {
+    const classes: FitnessClass[] = [];
+    const errors: string[] = [];
+    const seen = new Set<string>();
+
+    this.logProgress(`Starting HealCode widget scrape for ${this.config.venue.name}`);
+
+    let page = null;
+
+    try {
+      page = await this.chromeManager.newPage();
+
+      this.logProgress(`Navigating to ${this.config.siteUrl}...`);
+      await this.chromeManager.navigateWithRetry(page, this.config.siteUrl);
+
+      // Wait for the Mindbody widget to load
+      this.logProgress('Waiting for schedule widget to load...');
+      await page.waitForSelector(`#bw-widget__schedules-${this.config.widgetId}`, { timeout: 30000 });
+
+      // Give extra time for JavaScript to populate the schedule
+      await this.delay(8000);
+
+      const datesToScrape = this.getDateRange(options);
+      this.logProgress(`Date range: ${datesToScrape[0]} to ${datesToScrape[datesToScrape.length - 1]}`);
+
+      for (const dateStr of datesToScrape) {
+        try {
+          this.logProgress(`Fetching classes for ${dateStr}...`);
+
+          if (dateStr !== this.formatDate(new Date())) {
+            const dateSelected = await this.selectDate(page, dateStr);
+            if (!dateSelected) {
+              this.logProgress(`  Date ${dateStr} not available in widget, skipping`);
+              continue;
+            }
+          }
+
+          const sessionData = await this.extractSessions(page);
+          this.logProgress(`  Found ${sessionData.length} sessions for ${dateStr}`);
+
+          for (const session of sessionData) {
+            try {
+              const fitnessClass = this.transformWidgetSession(session);
+              if (!fitnessClass) {
+                this.logProgress(`  ⚠️  Transform returned null for: ${session.name}`);
+                continue;
+              }
+
+              // The widget can show neighbouring days, so keep only the requested window once
+              // (compared on the studio's calendar date, which startDatetime carries without an offset)
+              if (!datesToScrape.includes(String(session.startDatetime).slice(0, 10)) || seen.has(fitnessClass.providerId)) {
+                continue;
+              }
+
+              if (this.validateClass(fitnessClass)) {
+                seen.add(fitnessClass.providerId);
+                classes.push(fitnessClass);
+              } else {
+                this.logProgress(`  ⚠️  Validation failed for: ${session.name}`);
+              }
+            } catch (error) {
+              this.logError(`Error transforming session "${session.name}": ${error}`);
+            }
+          }
+
+          if (options.maxResults && classes.length >= options.maxResults) {
+            break;
+          }
+
+        } catch (error) {
+          const errorMsg = `Error fetching ${dateStr}: ${error}`;
+          this.logError(errorMsg);
+          errors.push(errorMsg);
+        }
+      }
+
+      this.logProgress(`HealCode widget scrape complete. Total: ${classes.length} classes`);
+
+    } catch (error) {
+      const errorMsg = `HealCode widget scraping failed: ${error}`;
+      this.logError(errorMsg);
+      errors.push(errorMsg);
+    } finally {
+      if (page) {
+        await this.chromeManager.closePage(page);
+      }
+    }
+
+    return this.createScrapeResult(classes, classes.length > 0, errors);
+  }
+
+  /**
+   * Click a date in the widget calendar, paging forward through weeks until it is visible
+   */
+  private async selectDate(page: any, dateStr: string, maxWeeks: number = 8): Promise<boolean> {
+    for (let attempt = 0; attempt <= maxWeeks; attempt++) {
+      const dateClicked = await page.evaluate((date: string) => {
+        const dateSpan = document.querySelector(`span[data-bw-startdate="${date}"]`);
+        if (dateSpan && dateSpan.parentElement) {
+          (dateSpan.parentElement as HTMLElement).click();
+          return true;
+        }
+        return false;
+      }, dateStr);
+
+      if (dateClicked) {
+        this.logProgress(`  Clicked on date ${dateStr}, waiting for reload...`);
+        await this.delay(3000);
+        return true;
+      }
+
+      const advanced = await page.evaluate((widgetId: string) => {
+        const widget = document.querySelector(`#bw-widget__schedules-${widgetId}`);
+        const next = widget?.querySelector('.bw-datepicker__next, .hc-button--next, [data-bw-action="next"]');
+        if (next) {
+          (next as HTMLElement).click();
+          return true;
+        }
+        return false;
+      }, this.config.widgetId);
+
+      if (!advanced) {
+        return false;
+      }
+
+      await this.delay(3000);
+    }
+
+    return false;
+  }
+
+  /**
+   * Extract all visible sessions from the widget
+   */
+  private async extractSessions(page: any): Promise<any[]> {
+    return page.evaluate((widgetId: string) => {
+      const sessions: any[] = [];
+      const widget = document.querySelector(`#bw-widget__schedules-${widgetId}`);
+
+      if (!widget) return sessions;
+
+      const sessionElements = widget.querySelectorAll('.bw-session');
+
+      sessionElements.forEach((session) => {
+        try {
+          // Skip empty sessions
+          if (session.classList.contains('bw-session--empty')) {
+            return;
+          }
+
+          const nameEl = session.querySelector('.bw-session__name');
+          const name = nameEl ? nameEl.textContent?.trim() : null;
+
+          // Extract datetime from <time> elements
+          const startTimeEl = session.querySelector('time.hc_starttime');
+          const endTimeEl = session.querySelector('time.hc_endtime');
+          const startDatetime = startTimeEl ? startTimeEl.getAttribute('datetime') : null;
+          const endDatetime = endTimeEl ? endTimeEl.getAttribute('datetime') : null;
+
+          const staffEl = session.querySelector('.bw-session__staff');
+          const staffName = staffEl ? staffEl.textContent?.trim() : null;
+
+          const spotsEl = session.querySelector('.bw-session__availability');
+          const spotsText = spotsEl ? spotsEl.textContent?.trim() : null;
+
+          const signUpBtn = session.querySelector('.bw-widget__cta');
+          const bookingUrl = signUpBtn ? signUpBtn.getAttribute('data-url') : null;
+
+          const descEl = session.querySelector('.bw-session__description');
+          const description = descEl ? descEl.textContent?.trim() : null;
+
+          if (name && startDatetime) {
+            sessions.push({
+              name,
+              startDatetime,
+              endDatetime,
+              staffName,
+              spotsText,
+              bookingUrl,
+              description
+            });
+          }
+        } catch (e) {
+          console.error('Error extracting session:', e);
+        }
+      });
+
+      return sessions;
+    }, this.config.widgetId);
+  }
+
+  /**
+   * Transform widget session data to FitnessClass format
+   */
+  private transformWidgetSession(data: any): FitnessClass | null {
+    try {
+      const className = sanitizeString(data.name);
+
+      // Parse datetime from ISO format without an offset: "2025-11-25T06:00" on the studio's clock
+      const timeZone = this.config.venue.timezone ?? this.config.timezone;
+      const startDateTime = this.parseDateTime(data.startDatetime, undefined, timeZone);
+      if (!startDateTime) {
+        throw new Error(`Invalid start datetime: ${data.startDatetime}`);
+      }
+      const endDateTime = data.endDatetime ? this.parseDateTime(data.endDatetime, undefined, timeZone) : null;
+
+      const spots = this.parseSpots(data.spotsText);
+      const instructorName = data.staffName ? sanitizeString(data.staffName) : 'Staff';
+
+      // Use the widget's sign-up URL, or fall back to the Mindbody cart for the site
+      const bookingUrl = data.bookingUrl ||
+        (this.config.mindbodySiteId
+          ? `https://cart.mindbodyonline.com/sites/${this.config.mindbodySiteId}/client?widget_type=schedule`
+          : this.config.siteUrl);
+
+      const description = data.description
+        ? sanitizeString(data.description)
+        : `${className} class at ${this.config.venue.name}`;
+
+      const providerId = this.createProviderId(undefined, this.config.venue.name, startDateTime, className);
+
+      const fitnessClass: FitnessClass = {
+        name: className,
+        description,
+        datetime: startDateTime,
+        endDatetime: endDateTime ?? undefined,
+        location: { ...this.config.venue },
+        trainer: instructorName,
+        intensity: this.calculateIntensity(className),
+        price: 0, // Pricing varies by membership
+        bookingUrl,
+        providerId,
+        providerName: this.name,
+        capacity: spots.total,
+        tags: this.extractTags(className),
+        realTimeAvailability: spots.available,
+        bookingStatus: data.spotsText ? this.parseBookingStatus(data.spotsText, spots.available) : undefined,
+        lastAvailabilityCheck: new Date()
+      };
+
+      return fitnessClass;
+
+    } catch (error) {
+      this.logError(`Error in transformWidgetSession: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Parse capacity from text like "5 spots left" or "Class Full"
+   */
+  private parseSpots(spotsText: string | null): { total: number; available: number } {
+    if (!spotsText) {
+      return { total: 20, available: 20 }; // Default capacity
+    }
+
+    const lowerText = spotsText.toLowerCase();
+
+    if (lowerText.includes('full') || lowerText.includes('sold out')) {
+      return { total: 20, available: 0 };
+    }
+
+    if (lowerText.includes('unlimited') || lowerText.includes('no limit')) {
+      return { total: 999, available: 999 };
+    }
+
+    const match = spotsText.match(/(\d+)\s*spot/i);
+    if (match) {
+      const available = parseInt(match[1]);
+      return { total: available + 10, available }; // Estimate total capacity
+    }
+
+    return { total: 20, available: 20 };
+  }
+
+  /**
+   * Extract tags from class name
+   */
+  private extractTags(className: string): string[] {
+    const tags: string[] = [...(this.config.defaultTags || []), ...parseTags(className)];
+    const lowerName = className.toLowerCase();
+
+    if (lowerName.includes('vinyasa')) tags.push('vinyasa');
+    if (lowerName.includes('hatha')) tags.push('hatha');
+    if (lowerName.includes('yin')) tags.push('yin');
+    if (lowerName.includes('flow')) tags.push('flow');
+    if (lowerName.includes('power')) tags.push('power');
+    if (lowerName.includes('restorative')) tags.push('restorative');
+    if (lowerName.includes('beginner') || lowerName.includes('basics')) tags.push('beginner-friendly');
+    if (lowerName.includes('advanced')) tags.push('advanced');
+    if (lowerName.includes('hot')) tags.push('hot');
+    if (lowerName.includes('pilates') && tags.includes('yoga')) {
+      tags.splice(tags.indexOf('yoga'), 1); // Remove yoga tag if it's pilates
+    }
+
+    return Array.from(new Set(tags));
+  }
+
+  /**
+   * Calculate intensity level (1-10) based on class name
+   */
+  private calculateIntensity(className: string): number {
+    const lowerName = className.toLowerCase();
+
+    // Hot yoga (26+2, hot vinyasa) - high intensity
+    if (lowerName.includes('hot')) {
+      if (lowerName.includes('26') || lowerName.includes('power')) {
+        return 8;
+      }
+      return 7;
+    }
+
+    // Power yoga - high intensity
+    if (lowerName.includes('power')) {
+      return 8;
+    }
+
+    // Vinyasa flow - medium-high intensity
+    if (lowerName.includes('vinyasa') || lowerName.includes('flow')) {
+      return 6;
+    }
+
+    // Yin yoga - low intensity
+    if (lowerName.includes('yin') || lowerName.includes('restorative')) {
+      return 2;
+    }
+
+    // Hatha yoga - medium intensity
+    if (lowerName.includes('hatha')) {
+      return 4;
+    }
+
+    // Default medium intensity
+    return 5;
+  }
+
+  /**
+   * Build the list of YYYY-MM-DD dates covered by the scrape options
+   */
+  private getDateRange(options: ScrapeOptions): string[] {
+    const dates: string[] = [];
+    const start = options.startDate || new Date();
+    const daysAhead = this.config.daysAhead ?? 7;
+    const end = options.endDate || new Date(start.getTime() + (daysAhead - 1) * 24 * 60 * 60 * 1000);
+
+    const current = new Date(start);
+    while (this.formatDate(current) <= this.formatDate(end)) {
+      dates.push(this.formatDate(current));
+      current.setDate(current.getDate() + 1);
+    }
+
+    return dates;
+  }
+
+  /**
+   * Format date as YYYY-MM-DD
+   */
+  private formatDate(date: Date): string {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+  }
+}
+
+providerRegistry.register('healcode', HealCodeWidgetProvider, [{
+  enabled: true,
+  name: 'goodyoga',
+  baseUrl: 'https://goodyogasandiego.com',
+  siteUrl: 'https://goodyogasandiego.com/',
+  widgetId: '212051',
+  mindbodySiteId: '116373',
+  venue: knownVenueLocation(findKnownVenue('goodyoga', '212051')!),
+  defaultTags: ['yoga']
+}]);
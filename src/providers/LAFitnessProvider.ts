@@ -1,8 +1,8 @@
 import { BaseProvider, ProviderConfig } from './BaseProvider.js';
 import { FitnessClass, ScrapeOptions, ScrapeResult } from '../models/FitnessClass.js';
 import { ChromeManager } from '../core/ChromeManager.js';
-import { geocodeAddress } from '../utils/geocoding.js';
 import { parseIntensity, parseTags, sanitizeString } from '../utils/validation.js';
+import { providerRegistry } from './ProviderRegistry.js';
 
 /**
  * Provider adapter for LA Fitness
@@ -12,10 +12,11 @@ import { parseIntensity, parseTags, sanitizeString } from '../utils/validation.j
  * You'll need to inspect LA Fitness's actual website and adjust selectors.
  */
 export class LAFitnessProvider extends BaseProvider {
-  readonly name = 'lafitness';
+  readonly name: string;
 
   constructor(chromeManager: ChromeManager, config: ProviderConfig) {
     super(chromeManager, config);
+    this.name = config.name || 'lafitness';
   }
 
   async scrapeClasses(options: ScrapeOptions): Promise<ScrapeResult> {
@@ -89,30 +90,12 @@ export class LAFitnessProvider extends BaseProvider {
             continue;
           }
 
-          // Check if within date range
-          if (!this.isWithinDateRange(datetime, options)) {
-            continue;
-          }
-
           // Get location details
           const locationName = classInfo.location || `LA Fitness ${location}`;
           const address = `LA Fitness ${location}`;
 
           // Geocode location
-          const geocoded = await geocodeAddress(address);
-          const locationData = geocoded
-            ? {
-                name: locationName,
-                address: geocoded.formattedAddress,
-                lat: geocoded.lat,
-                long: geocoded.long
-              }
-            : {
-                name: locationName,
-                address: address,
-                lat: 40.7589, // Default NYC coordinates (placeholder)
-                long: -73.9851
-              };
+          const locationData = await this.geocodeLocation(locationName, address);
 
           // LA Fitness classes vary in intensity
           let intensity = 5;
@@ -136,17 +119,23 @@ export class LAFitnessProvider extends BaseProvider {
             name: sanitizeString(classInfo.name),
             description: sanitizeString(classInfo.description) || 'Group fitness class',
             datetime,
+            durationMinutes: this.parseDuration(classInfo.duration),
             location: locationData,
             trainer: sanitizeString(classInfo.instructor) || 'Instructor',
             intensity,
             price,
             bookingUrl: this.normalizeUrl(classInfo.bookingLink) || scheduleUrl,
-            providerId: `lafitness-${datetime.getTime()}-${classInfo.name}-${locationName}`,
+            providerId: this.createProviderId(undefined, locationData.name, datetime, classInfo.name),
             providerName: this.name,
             capacity,
             tags: parseTags('group fitness ' + classInfo.name + ' ' + classInfo.description + ' ' + classInfo.classType)
           };
 
+          // Check if within date range
+          if (!this.isInWindow(fitnessClass, options)) {
+            continue;
+          }
+
           // Validate and add
           if (this.validateClass(fitnessClass)) {
             classes.push(fitnessClass);
@@ -185,3 +174,5 @@ export class LAFitnessProvider extends BaseProvider {
     return this.createScrapeResult(classes, true, errors);
   }
 }
+
+providerRegistry.register('lafitness', LAFitnessProvider, [{ enabled: true, baseUrl: 'https://www.lafitness.com' }]);
@@ -0,0 +1,367 @@
+import { BaseProvider, ProviderConfig, ProviderTransport } from './BaseProvider.js';
+import { FitnessClass, ScrapeOptions, ScrapeResult } from '../models/FitnessClass.js';
+import { ChromeManager } from '../core/ChromeManager.js';
+import { sanitizeString } from '../utils/validation.js';
+import { classifyClass, taxonomyTags } from '../utils/taxonomy.js';
+import { providerRegistry } from './ProviderRegistry.js';
+
+export interface MarianaTekLocation {
+  id: string;
+  name: string;
+  slug?: string;
+  timezone?: string; // IANA timezone, reported by the tenant's locations endpoint
+}
+
+export interface MarianaTekConfig extends ProviderConfig {
+  tenant: string; // Subdomain, e.g. "yyoga" for yyoga.marianatek.com
+  name?: string; // Provider name, defaults to the tenant
+  regionId?: string;
+  locations?: MarianaTekLocation[]; // Discovered from the tenant when omitted
+  scheduleUrl?: string; // Public schedule page requested first to establish cookies
+  bookingUrl?: string; // Supports {slug}, {locationId} and {classId} placeholders
+  daysAhead?: number; // Window used when no end date is given
+  pageSize?: number;
+  dropInPrice?: number;
+  defaultTags?: string[];
+  categoryMap?: Record<string, string[]>; // The tenant's class types and class tags mapped to taxonomy terms
+}
+
+/**
+ * Provider adapter for studios running on the Mariana Tek platform
+ * Every tenant exposes the same customer API at https://<tenant>.marianatek.com/api/customer/v1,
+ * so one instance is created per tenant from providers.json
+ */
+export class MarianaTekProvider extends BaseProvider {
+  readonly name: string;
+  readonly transport: ProviderTransport = 'http';
+  protected config: MarianaTekConfig;
+
+  constructor(chromeManager: ChromeManager, config: MarianaTekConfig) {
+    super(chromeManager, config);
+    this.config = config;
+    this.name = config.name || config.tenant;
+  }
+
+  async scrapeClasses(options: ScrapeOptions): Promise<ScrapeResult> {
+    const classes: FitnessClass[] = [];
+    const errors: string[] = [];
+
+    this.logProgress(`Starting Mariana Tek scrape for tenant ${this.config.tenant}`);
+
+    // Prepare date range
+    const startDate = options.startDate || new Date();
+    const daysAhead = this.config.daysAhead ?? 7;
+    const endDate = options.endDate || new Date(startDate.getTime() + daysAhead * 24 * 60 * 60 * 1000);
+
+    const startDateStr = this.formatDate(startDate);
+    const endDateStr = this.formatDate(endDate);
+
+    this.logProgress(`Date range: ${startDateStr} to ${endDateStr}`);
+
+    try {
+      // Load the studio's public schedule first so API calls carry its cookies
+      await this.httpClient.getText(this.config.scheduleUrl || this.config.baseUrl);
+
+      const locations = this.filterLocations(await this.resolveLocations(), options.location);
+
+      if (locations.length === 0) {
+        const errorMsg = `No Mariana Tek locations found for tenant ${this.config.tenant}`;
+        this.logError(errorMsg);
+        errors.push(errorMsg);
+        return this.createScrapeResult(classes, false, errors);
+      }
+
+      this.logProgress(`Scraping ${locations.length} locations`);
+
+      for (const location of locations) {
+        try {
+          this.logProgress(`Fetching classes for ${location.name}`);
+
+          const params = new URLSearchParams({
+            min_start_date: startDateStr,
+            max_start_date: endDateStr,
+            page_size: String(this.config.pageSize ?? 500),
+            location: location.id
+          });
+          if (this.config.regionId) {
+            params.set('region', this.config.regionId);
+          }
+
+          const results = await this.fetchAllPages(`${this.getApiBase()}/classes?${params.toString()}`);
+          this.logProgress(`[${location.name}] Found ${results.length} classes`);
+
+          for (const classData of results) {
+            try {
+              const fitnessClass = this.transformApiClass(classData, location);
+              if (fitnessClass && this.validateClass(fitnessClass)) {
+                classes.push(fitnessClass);
+              }
+            } catch (error) {
+              this.logError(`Error transforming class: ${error}`);
+            }
+          }
+
+          if (options.maxResults && classes.length >= options.maxResults) {
+            break;
+          }
+
+          await this.respectRateLimit();
+
+        } catch (error) {
+          const errorMsg = `Error fetching ${location.name}: ${error}`;
+          this.logError(errorMsg);
+          errors.push(errorMsg);
+        }
+      }
+
+      this.logProgress(`Mariana Tek scrape complete. Total: ${classes.length} classes`);
+
+    } catch (error) {
+      const errorMsg = `Mariana Tek scraping failed: ${error}`;
+      this.logError(errorMsg);
+      errors.push(errorMsg);
+    }
+
+    return this.createScrapeResult(classes, classes.length > 0, errors);
+  }
+
+  /**
+   * Use configured locations, or discover them from the tenant's locations endpoint
+   */
+  private async resolveLocations(): Promise<MarianaTekLocation[]> {
+    if (this.config.locations && this.config.locations.length > 0) {
+      return this.config.locations;
+    }
+
+    this.logProgress('No locations configured, discovering from tenant');
+
+    const params = new URLSearchParams({ page_size: '500' });
+    if (this.config.regionId) {
+      params.set('region', this.config.regionId);
+    }
+
+    const results = await this.fetchAllPages(`${this.getApiBase()}/locations?${params.toString()}`);
+
+    return results
+      .filter((location: any) => location.listed !== false)
+      .map((location: any) => ({
+        id: String(location.id),
+        name: sanitizeString(location.name || `Location ${location.id}`),
+        slug: this.slugify(location.name || String(location.id)),
+        timezone: location.timezone || undefined
+      }));
+  }
+
+  /**
+   * Narrow locations to the one requested on the command line, matched by id, slug or name
+   */
+  private filterLocations(locations: MarianaTekLocation[], requested?: string): MarianaTekLocation[] {
+    if (!requested) {
+      return locations;
+    }
+
+    const wanted = requested.toLowerCase();
+    return locations.filter(location =>
+      location.id === requested ||
+      (location.slug || this.slugify(location.name)) === wanted ||
+      location.name.toLowerCase() === wanted
+    );
+  }
+
+  /**
+   * Fetch a paginated endpoint, following "next" links until exhausted
+   */
+  private async fetchAllPages(url: string): Promise<any[]> {
+    const results: any[] = [];
+    let nextUrl: string | null = url;
+
+    while (nextUrl) {
+      const data: any = await this.httpClient.getJson(nextUrl);
+      if (!data || !Array.isArray(data.results)) {
+        break;
+      }
+
+      results.push(...data.results);
+      nextUrl = data.next || null;
+    }
+
+    return results;
+  }
+
+  /**
+   * Transform API response to FitnessClass format
+   */
+  private transformApiClass(data: any, locationInfo: MarianaTekLocation): FitnessClass | null {
+    try {
+      // Extract class name
+      const className = sanitizeString(data.name || data.class_type?.name || 'Class');
+
+      // Parse start datetime
+      const startDate = new Date(data.start_datetime);
+      if (isNaN(startDate.getTime())) {
+        throw new Error('Invalid start_datetime');
+      }
+      const endDate = data.end_datetime ? new Date(data.end_datetime) : undefined;
+
+      // Extract instructor name and full info
+      let instructorName = 'Staff';
+      let trainerInfo = undefined;
+
+      if (data.instructors && data.instructors.length > 0) {
+        const instructor = data.instructors[0];
+        instructorName = sanitizeString(instructor.name);
+
+        trainerInfo = {
+          name: instructorName,
+          bio: instructor.bio ? sanitizeString(instructor.bio) : undefined,
+          photoUrl: instructor.photo_urls?.large_url || instructor.photo_urls?.thumbnail_url,
+          socialLinks: instructor.instagram_url ? { instagram: instructor.instagram_url } : undefined
+        };
+      }
+
+      // Extract location details
+      const locationData = data.location || {};
+      const locationName = sanitizeString(locationData.name || locationInfo.name);
+      const address = this.formatAddress(locationData);
+      const lat = parseFloat(locationData.latitude);
+      const long = parseFloat(locationData.longitude);
+      const unresolved = isNaN(lat) || isNaN(long) || (lat === 0 && long === 0);
+
+      const description = sanitizeString(
+        data.class_type?.description ||
+        `${className} at ${locationName}`
+      );
+
+      // Capacity and availability
+      const capacity = data.capacity ?? data.spot_options?.primary_capacity ?? 0;
+      const availableSpots = data.available_spot_count ?? data.spot_options?.primary_availability;
+      const waitlistSpots = data.spot_options?.waitlist_availability ?? 0;
+
+      let bookingStatus: 'open' | 'closed' | 'full' | 'waitlist' | undefined;
+      if (data.is_cancelled) {
+        bookingStatus = 'closed';
+      } else if (availableSpots === 0) {
+        bookingStatus = waitlistSpots > 0 ? 'waitlist' : 'full';
+      } else if (availableSpots !== undefined) {
+        bookingStatus = 'open';
+      }
+
+      // Classify from the class type and the tenant's own class tags, then the class name and description
+      const classTags = Array.isArray(data.class_tags) ? data.class_tags.map((tag: any) => tag.name).filter(Boolean) : [];
+      const { taxonomy, intensity } = classifyClass({
+        name: className,
+        description,
+        categories: [data.class_type?.name, ...classTags, ...(this.config.defaultTags || [])].filter(Boolean),
+        categorySource: 'marianatek',
+        categoryMap: this.config.categoryMap
+      });
+
+      const tags = [...(this.config.defaultTags || []), ...taxonomyTags(taxonomy)];
+      if (data.classroom_name) {
+        tags.push(`room-${sanitizeString(data.classroom_name).toLowerCase()}`);
+      }
+
+      const price = this.config.dropInPrice ?? 0;
+
+      // Classes listed without an ID are keyed on venue, start time and name, and booked from the schedule page
+      const nativeId = data.id !== undefined && data.id !== null && data.id !== '' ? String(data.id) : undefined;
+      if (!nativeId) {
+        this.logProgress(`No class ID for ${className} at ${locationName}, using its fallback key`);
+      }
+
+      const fitnessClass: FitnessClass = {
+        name: className,
+        description,
+        datetime: startDate,
+        endDatetime: endDate && !isNaN(endDate.getTime()) ? endDate : undefined,
+        location: {
+          name: locationName,
+          address,
+          lat: unresolved ? 0 : lat,
+          long: unresolved ? 0 : long,
+          timezone: locationData.timezone || locationInfo.timezone,
+          unresolved: unresolved || undefined
+        },
+        trainer: instructorName,
+        trainerInfo,
+        intensity,
+        price,
+        bookingUrl: nativeId ? this.buildBookingUrl(locationInfo, nativeId) : this.config.scheduleUrl || this.config.baseUrl,
+        providerId: this.createProviderId(nativeId, locationName, startDate, className),
+        nativeId,
+        providerName: this.name,
+        capacity,
+        tags: Array.from(new Set(tags)),
+        taxonomy,
+        realTimeAvailability: availableSpots,
+        bookingStatus,
+        lastAvailabilityCheck: new Date(),
+        pricingDetails: this.config.dropInPrice !== undefined ? { dropIn: this.config.dropInPrice } : undefined
+      };
+
+      return fitnessClass;
+
+    } catch (error) {
+      this.logError(`Error transforming class: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Fill the configured booking URL template for a class
+   */
+  private buildBookingUrl(location: MarianaTekLocation, classId: string): string {
+    const template = this.config.bookingUrl || this.config.scheduleUrl || this.config.baseUrl;
+    return template
+      .replace('{slug}', location.slug || this.slugify(location.name))
+      .replace('{locationId}', location.id)
+      .replace('{classId}', classId);
+  }
+
+  /**
+   * Format address from location data
+   */
+  private formatAddress(locationData: any): string {
+    if (!locationData) return '';
+
+    const parts = [];
+
+    if (locationData.address_line_one) {
+      parts.push(locationData.address_line_one);
+    }
+
+    const cityLine = [
+      locationData.city,
+      locationData.state_province,
+      locationData.postal_code
+    ].filter(Boolean).join(' ');
+
+    if (cityLine) {
+      parts.push(cityLine);
+    }
+
+    return parts.join(', ');
+  }
+
+  private getApiBase(): string {
+    return `https://${this.config.tenant}.marianatek.com/api/customer/v1`;
+  }
+
+  private slugify(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  }
+
+  /**
+   * Format date as YYYY-MM-DD for API
+   */
+  private formatDate(date: Date): string {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+  }
+}
+
+providerRegistry.register('marianatek', MarianaTekProvider, [
+  { enabled: true, tenant: 'yyoga', regionId: '48541', baseUrl: 'https://yyoga.ca', scheduleUrl: 'https://yyoga.ca/book-a-class/', timezone: 'America/Vancouver' }
+]);
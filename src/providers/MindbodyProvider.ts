@@ -1,8 +1,8 @@
 import { BaseProvider, ProviderConfig } from './BaseProvider.js';
 import { FitnessClass, ScrapeOptions, ScrapeResult } from '../models/FitnessClass.js';
 import { ChromeManager } from '../core/ChromeManager.js';
-import { geocodeAddress } from '../utils/geocoding.js';
 import { parseIntensity, parseTags, sanitizeString } from '../utils/validation.js';
+import { providerRegistry } from './ProviderRegistry.js';
 
 /**
  * Provider adapter for Mindbody-powered websites
@@ -12,10 +12,11 @@ import { parseIntensity, parseTags, sanitizeString } from '../utils/validation.j
  * You'll need to inspect the specific site's HTML structure and adjust selectors accordingly.
  */
 export class MindbodyProvider extends BaseProvider {
-  readonly name = 'mindbody';
+  readonly name: string;
 
   constructor(chromeManager: ChromeManager, config: ProviderConfig) {
     super(chromeManager, config);
+    this.name = config.name || 'mindbody';
   }
 
   async scrapeClasses(options: ScrapeOptions): Promise<ScrapeResult> {
@@ -108,30 +109,12 @@ export class MindbodyProvider extends BaseProvider {
             continue;
           }
 
-          // Check date range
-          if (!this.isWithinDateRange(datetime, options)) {
-            continue;
-          }
-
           // Parse location - use default if not found
           const locationName = classData.locationName || this.config.defaultLocation || 'Unknown Location';
           const locationAddress = this.config.defaultLocation || locationName;
 
-          // Geocode address (with caching in production)
-          const geocoded = await geocodeAddress(locationAddress);
-          const location = geocoded
-            ? {
-                name: locationName,
-                address: geocoded.formattedAddress,
-                lat: geocoded.lat,
-                long: geocoded.long
-              }
-            : {
-                name: locationName,
-                address: locationAddress,
-                lat: 0,
-                long: 0
-              };
+          // Geocode location
+          const location = await this.geocodeLocation(locationName, locationAddress);
 
           // Parse enhanced fields
           const realTimeAvailability = this.parseAvailability(classData.availability || classData.capacity);
@@ -158,7 +141,7 @@ export class MindbodyProvider extends BaseProvider {
             intensity: parseIntensity(classData.description || classData.name),
             price: this.parsePrice(classData.price),
             bookingUrl: this.normalizeUrl(classData.bookingUrl),
-            providerId: `mindbody-${datetime.getTime()}-${classData.name}`,
+            providerId: this.createProviderId(undefined, location.name, datetime, classData.name),
             providerName: this.name,
             capacity: this.parseCapacity(classData.capacity),
             tags: parseTags(classData.name + ' ' + classData.description),
@@ -172,6 +155,11 @@ export class MindbodyProvider extends BaseProvider {
             pricingDetails
           };
 
+          // Check if within date range
+          if (!this.isInWindow(fitnessClass, options)) {
+            continue;
+          }
+
           // Validate and add
           if (this.validateClass(fitnessClass)) {
             classes.push(fitnessClass);
@@ -208,3 +196,5 @@ export class MindbodyProvider extends BaseProvider {
     return this.createScrapeResult(classes, true, errors);
   }
 }
+
+providerRegistry.register('mindbody', MindbodyProvider, [{ enabled: true, baseUrl: 'https://example.mindbody.io' }]);
@@ -0,0 +1,232 @@
+import { BaseProvider, ProviderConfig, ProviderTransport } from './BaseProvider.js';
+import { FitnessClass, Location, ScrapeOptions, ScrapeResult } from '../models/FitnessClass.js';
+import { ChromeManager } from '../core/ChromeManager.js';
+import { parseIntensity, parseTags, sanitizeString } from '../utils/validation.js';
+import { providerRegistry } from './ProviderRegistry.js';
+
+export interface MomenceHost {
+  hostId: string;
+  name: string;
+  address: string;
+  lat?: number; // Geocoded from the address when omitted
+  long?: number;
+  timezone?: string; // IANA timezone, falling back to the instance's timezone
+  tags?: string[];
+}
+
+export interface MomenceConfig extends ProviderConfig {
+  hosts: MomenceHost[];
+  daysAhead?: number; // Window used when no end date is given
+  pageSize?: number;
+  timeout?: number;
+}
+
+/**
+ * Provider adapter for studios booking through Momence
+ * Uses the public readonly API, so no browser is needed
+ */
+export class MomenceProvider extends BaseProvider {
+  readonly name: string;
+  readonly transport: ProviderTransport = 'http';
+  protected config: MomenceConfig;
+  private readonly apiBase = 'https://readonly-api.momence.com/host-plugins/host';
+
+  constructor(chromeManager: ChromeManager, config: MomenceConfig) {
+    super(chromeManager, config);
+    this.name = config.name || 'momence';
+    this.config = config;
+  }
+
+  async scrapeClasses(options: ScrapeOptions): Promise<ScrapeResult> {
+    const classes: FitnessClass[] = [];
+    const errors: string[] = [];
+
+    this.logProgress(`Starting Momence API scrape for ${this.config.hosts.length} hosts`);
+
+    const startDate = options.startDate || new Date();
+    const daysAhead = this.config.daysAhead ?? 7;
+    const endDate = options.endDate || new Date(startDate.getTime() + daysAhead * 24 * 60 * 60 * 1000);
+
+    const hosts = options.location
+      ? this.config.hosts.filter(host =>
+          host.hostId === options.location ||
+          host.name.toLowerCase().includes(options.location!.toLowerCase()))
+      : this.config.hosts;
+
+    if (hosts.length === 0) {
+      const errorMsg = `No Momence hosts match location: ${options.location}`;
+      this.logError(errorMsg);
+      errors.push(errorMsg);
+      return this.createScrapeResult(classes, false, errors);
+    }
+
+    for (const host of hosts) {
+      try {
+        this.logProgress(`Fetching sessions for ${host.name} (host ${host.hostId})`);
+
+        const location = await this.resolveLocation(host);
+        const sessions = await this.fetchSessions(host.hostId, startDate, endDate);
+        this.logProgress(`[${host.name}] Found ${sessions.length} sessions`);
+
+        for (const session of sessions) {
+          try {
+            const fitnessClass = this.transformSession(session, host, location);
+            if (fitnessClass) {
+              classes.push(fitnessClass);
+            }
+          } catch (error) {
+            this.logError(`Error transforming session: ${error}`);
+          }
+        }
+
+        if (options.maxResults && classes.length >= options.maxResults) {
+          break;
+        }
+
+        await this.respectRateLimit();
+
+      } catch (error) {
+        const errorMsg = `[${host.name}] Momence API failed: ${error}`;
+        this.logError(errorMsg);
+        errors.push(errorMsg);
+      }
+    }
+
+    this.logProgress(`Momence scrape complete. Total: ${classes.length} classes`);
+
+    return this.createScrapeResult(
+      this.filterAndValidate(classes, { ...options, startDate, endDate }),
+      errors.length < hosts.length,
+      errors
+    );
+  }
+
+  /**
+   * Page through a host's schedule until every session in the window is fetched
+   */
+  private async fetchSessions(hostId: string, startDate: Date, endDate: Date): Promise<any[]> {
+    const sessions: any[] = [];
+    const pageSize = this.config.pageSize ?? 100;
+
+    for (let page = 0; ; page++) {
+      const params = new URLSearchParams();
+      params.append('sessionTypes[]', 'course-class');
+      params.append('sessionTypes[]', 'fitness');
+      params.set('fromDate', startDate.toISOString());
+      params.set('toDate', endDate.toISOString());
+      params.set('pageSize', String(pageSize));
+      params.set('page', String(page));
+
+      const data = await this.httpClient.getJson(
+        `${this.apiBase}/${hostId}/host-schedule/sessions?${params.toString()}`,
+        { timeout: this.config.timeout }
+      );
+
+      if (data.error) {
+        throw new Error(data.error);
+      }
+
+      const payload = Array.isArray(data.payload) ? data.payload : [];
+      sessions.push(...payload);
+
+      const totalCount = data.pagination?.totalCount ?? sessions.length;
+      if (payload.length < pageSize || sessions.length >= totalCount) {
+        break;
+      }
+    }
+
+    return sessions;
+  }
+
+  /**
+   * Use configured coordinates, geocoding the host address once when missing
+   */
+  private async resolveLocation(host: MomenceHost): Promise<Location> {
+    if (host.lat !== undefined && host.long !== undefined) {
+      return { name: host.name, address: host.address, lat: host.lat, long: host.long, timezone: host.timezone };
+    }
+
+    return this.geocodeLocation(host.name, host.address, host.timezone);
+  }
+
+  /**
+   * Transform a Momence session to FitnessClass format
+   */
+  private transformSession(session: any, host: MomenceHost, location: Location): FitnessClass | null {
+    const className = sanitizeString(session.sessionName || session.name || '');
+    if (!className) {
+      return null;
+    }
+
+    const startDate = new Date(session.startsAt);
+    if (isNaN(startDate.getTime())) {
+      this.logError(`Invalid startsAt for session ${session.id}: ${session.startsAt}`);
+      return null;
+    }
+    const endDate = session.endsAt ? new Date(session.endsAt) : undefined;
+
+    const description = session.description
+      ? sanitizeString(session.description.replace(/<[^>]+>/g, ' '))
+      : `${className} at ${host.name}`;
+
+    const teacherName = typeof session.teacher === 'string'
+      ? session.teacher
+      : [session.teacher?.firstName, session.teacher?.lastName].filter(Boolean).join(' ');
+    const trainer = sanitizeString(teacherName || '') || 'Staff';
+
+    // Capacity and availability
+    const capacity = Number(session.capacity) || 0;
+    const ticketsSold = Number(session.ticketsSold ?? session.bookingCount) || 0;
+    const spotsLeft = session.spotsLeft != null
+      ? Number(session.spotsLeft)
+      : capacity > 0 ? Math.max(capacity - ticketsSold, 0) : undefined;
+
+    let bookingStatus: 'open' | 'closed' | 'full' | 'waitlist' | undefined;
+    if (session.isCancelled) {
+      bookingStatus = 'closed';
+    } else if (spotsLeft === 0) {
+      bookingStatus = session.waitlistEnabled ? 'waitlist' : 'full';
+    } else if (spotsLeft !== undefined) {
+      bookingStatus = 'open';
+    }
+
+    // Sessions listed without an ID are keyed on venue, start time and name
+    const nativeId = session.id != null && session.id !== '' ? `${host.hostId}-${session.id}` : undefined;
+
+    // Pricing
+    const price = Number(session.fixedTicketPrice ?? session.price) || 0;
+
+    const fitnessClass: FitnessClass = {
+      name: className,
+      description,
+      datetime: startDate,
+      endDatetime: endDate && !isNaN(endDate.getTime()) ? endDate : undefined,
+      location: { ...location },
+      trainer,
+      trainerInfo: session.teacherPicture
+        ? this.parseTrainerInfo(trainer, undefined, session.teacherPicture)
+        : undefined,
+      intensity: parseIntensity(`${className} ${session.level || ''}`),
+      price,
+      pricingDetails: price > 0 ? { dropIn: price } : undefined,
+      bookingUrl: session.link || (nativeId ? `https://momence.com/s/${session.id}` : this.config.baseUrl),
+      providerId: this.createProviderId(nativeId, location.name, startDate, className),
+      nativeId,
+      providerName: this.name,
+      capacity,
+      tags: Array.from(new Set([...(host.tags || []), ...parseTags(`${className} ${description}`)])),
+      photos: session.image ? [session.image] : undefined,
+      realTimeAvailability: spotsLeft,
+      bookingStatus,
+      lastAvailabilityCheck: new Date()
+    };
+
+    return fitnessClass;
+  }
+}
+
+providerRegistry.register('momence', MomenceProvider, [{
+  enabled: true,
+  baseUrl: 'https://momence.com',
+  hosts: [{ hostId: '23168', name: 'Alchemy Yoga & Meditation Center', address: 'Ubud, Bali, Indonesia', timezone: 'Asia/Makassar', tags: ['yoga'] }]
+}]);
@@ -0,0 +1,145 @@
+import type { BaseProvider, ProviderConfig } from './BaseProvider.js';
+import type { ChromeManager } from '../core/ChromeManager.js';
+import type { HttpClient } from '../core/HttpClient.js';
+
+export type ProviderConstructor = new (chromeManager: ChromeManager, config: any) => BaseProvider;
+
+/**
+ * One provider instance as declared in providers.json
+ */
+export interface ProviderInstanceConfig extends ProviderConfig {
+  type: string;
+  [key: string]: any;
+}
+
+interface ProviderRegistration {
+  type: string;
+  providerClass: ProviderConstructor;
+  defaultInstances: Array<ProviderConfig & Record<string, any>>;
+}
+
+/**
+ * Registry mapping provider type keys to provider classes
+ * Each provider module registers itself; providers.json then declares the instances to create
+ */
+export class ProviderRegistry {
+  private registrations: Map<string, ProviderRegistration> = new Map();
+
+  /**
+   * Register a provider class under a type key, with the instances used when providers.json has none
+   */
+  register(
+    type: string,
+    providerClass: ProviderConstructor,
+    defaultInstances: Array<ProviderConfig & Record<string, any>> = []
+  ): void {
+    if (this.registrations.has(type)) {
+      throw new Error(`Provider type "${type}" is already registered`);
+    }
+    this.registrations.set(type, { type, providerClass, defaultInstances });
+  }
+
+  /**
+   * Get all registered type keys
+   */
+  getTypes(): string[] {
+    return Array.from(this.registrations.keys()).sort();
+  }
+
+  /**
+   * Check if a type key is registered
+   */
+  hasType(type: string): boolean {
+    return this.registrations.has(type);
+  }
+
+  /**
+   * Normalize the "providers" section of providers.json into a list of instance declarations
+   *
+   * Accepted forms:
+   * - an array of instances: [{ "type": "marianatek", "name": "yyoga", ... }]
+   * - an object keyed by type (or by name with an explicit "type"), where a value may be
+   *   a single instance or an array of instances
+   * - missing, in which case every registered type's default instances are used
+   */
+  resolveInstances(providersConfig: any): ProviderInstanceConfig[] {
+    let instances: ProviderInstanceConfig[] = [];
+
+    if (providersConfig === undefined || providersConfig === null) {
+      for (const registration of this.registrations.values()) {
+        for (const defaults of registration.defaultInstances) {
+          instances.push({ ...defaults, type: registration.type });
+        }
+      }
+    } else if (Array.isArray(providersConfig)) {
+      instances = providersConfig.map((entry, index) => {
+        if (!entry || typeof entry.type !== 'string') {
+          throw new Error(`Provider entry ${index} in providers.json is missing a "type"`);
+        }
+        return { ...entry };
+      });
+    } else if (typeof providersConfig === 'object') {
+      for (const [key, value] of Object.entries<any>(providersConfig)) {
+        if (Array.isArray(value)) {
+          instances.push(...value.map(entry => ({ ...entry, type: entry.type || key })));
+        } else if (value && typeof value === 'object') {
+          instances.push({ ...value, type: value.type || key, name: value.name || key });
+        } else {
+          throw new Error(`Provider "${key}" in providers.json must be an object or an array`);
+        }
+      }
+    } else {
+      throw new Error('The "providers" section of providers.json must be an object or an array');
+    }
+
+    const unknown = instances.filter(instance => !this.registrations.has(instance.type));
+    if (unknown.length > 0) {
+      const types = Array.from(new Set(unknown.map(instance => instance.type))).join(', ');
+      throw new Error(`Unknown provider type(s) in providers.json: ${types}. Registered types: ${this.getTypes().join(', ')}`);
+    }
+
+    return instances.map(instance => ({ ...instance, enabled: instance.enabled ?? true }));
+  }
+
+  /**
+   * Create a provider from an instance declaration
+   */
+  create(chromeManager: ChromeManager, instance: ProviderInstanceConfig): BaseProvider {
+    const registration = this.registrations.get(instance.type);
+    if (!registration) {
+      throw new Error(`Unknown provider type "${instance.type}". Registered types: ${this.getTypes().join(', ')}`);
+    }
+
+    const { type: _type, ...config } = instance;
+    return new registration.providerClass(chromeManager, config);
+  }
+
+  /**
+   * Create every declared provider, keyed by instance name
+   * When an HTTP client is given, all providers share it (and its cookie jar)
+   */
+  createAll(
+    chromeManager: ChromeManager,
+    instances: ProviderInstanceConfig[],
+    httpClient?: HttpClient
+  ): Map<string, BaseProvider> {
+    const providers = new Map<string, BaseProvider>();
+
+    for (const instance of instances) {
+      const provider = this.create(chromeManager, instance);
+      if (httpClient) {
+        provider.setHttpClient(httpClient);
+      }
+      const name = provider.getName();
+
+      if (providers.has(name)) {
+        throw new Error(`Duplicate provider name "${name}" in providers.json. Give each instance a unique "name"`);
+      }
+      providers.set(name, provider);
+    }
+
+    return providers;
+  }
+}
+
+export const providerRegistry = new ProviderRegistry();
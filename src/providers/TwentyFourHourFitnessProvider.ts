@@ -1,8 +1,8 @@
 import { BaseProvider, ProviderConfig } from './BaseProvider.js';
 import { FitnessClass, ScrapeOptions, ScrapeResult } from '../models/FitnessClass.js';
 import { ChromeManager } from '../core/ChromeManager.js';
-import { geocodeAddress } from '../utils/geocoding.js';
 import { parseIntensity, parseTags, sanitizeString } from '../utils/validation.js';
+import { providerRegistry } from './ProviderRegistry.js';
 
 /**
  * Provider adapter for 24 Hour Fitness
@@ -11,10 +11,11 @@ import { parseIntensity, parseTags, sanitizeString } from '../utils/validation.j
  * Website uses heavy JavaScript, so we need proper wait strategies
  */
 export class TwentyFourHourFitnessProvider extends BaseProvider {
-  readonly name = '24hourfitness';
+  readonly name: string;
 
   constructor(chromeManager: ChromeManager, config: ProviderConfig) {
     super(chromeManager, config);
+    this.name = config.name || '24hourfitness';
   }
 
   async scrapeClasses(options: ScrapeOptions): Promise<ScrapeResult> {
@@ -156,7 +157,7 @@ export class TwentyFourHourFitnessProvider extends BaseProvider {
 
             for (const fitnessClass of gymClasses) {
               // Filter by date range
-              if (this.isWithinDateRange(fitnessClass.datetime, options)) {
+              if (this.isInWindow(fitnessClass, options)) {
                 if (this.validateClass(fitnessClass)) {
                   classes.push(fitnessClass);
                   this.logProgress(`Scraped: ${fitnessClass.name} on ${fitnessClass.datetime.toLocaleString()}`);
@@ -416,21 +417,7 @@ export class TwentyFourHourFitnessProvider extends BaseProvider {
       // Geocode gym location
       const locationName = gymInfo.name || '24 Hour Fitness';
       const address = gymInfo.address || locationName;
-      const geocoded = await geocodeAddress(address);
-
-      const locationData = geocoded
-        ? {
-            name: locationName,
-            address: geocoded.formattedAddress,
-            lat: geocoded.lat,
-            long: geocoded.long
-          }
-        : {
-            name: locationName,
-            address: address,
-            lat: 40.7589, // Default coordinates (placeholder)
-            long: -73.9851
-          };
+      const locationData = await this.geocodeLocation(locationName, address);
 
       // Extract class cards
       const classCards = await page.$$('.class-card, .class-item, .schedule-item, [data-class]');
@@ -506,12 +493,13 @@ export class TwentyFourHourFitnessProvider extends BaseProvider {
             name: sanitizeString(classInfo.name),
             description: sanitizeString(classInfo.description) || 'Group fitness class',
             datetime,
+            durationMinutes: this.parseDuration(classInfo.duration),
             location: locationData,
             trainer: sanitizeString(classInfo.instructor) || 'Instructor',
             intensity,
             price,
             bookingUrl: this.normalizeUrl(classInfo.bookingLink) || gymUrl,
-            providerId: `24hourfitness-${datetime.getTime()}-${classInfo.name}-${locationName}`,
+            providerId: this.createProviderId(undefined, locationData.name, datetime, classInfo.name),
             providerName: this.name,
             capacity,
             tags: parseTags('group fitness ' + classInfo.name + ' ' + classInfo.description + ' ' + classInfo.classType)
@@ -531,3 +519,5 @@ export class TwentyFourHourFitnessProvider extends BaseProvider {
     return classes;
   }
 }
+
+providerRegistry.register('24hourfitness', TwentyFourHourFitnessProvider, [{ enabled: true, baseUrl: 'https://www.24hourfitness.com' }]);
@@ -0,0 +1,19 @@
+// Importing each provider module registers its type with the provider registry
+import './MindbodyProvider.js';
+import './EquinoxProvider.js';
+import './ClassPassProvider.js';
+import './SoulCycleProvider.js';
+import './BarrysProvider.js';
+import './OrangetheoryProvider.js';
+import './CorePowerYogaProvider.js';
+import './F45Provider.js';
+import './PlanetFitnessProvider.js';
+import './LAFitnessProvider.js';
+import './TwentyFourHourFitnessProvider.js';
+import './GoldsGymProvider.js';
+import './MomenceProvider.js';
+import './MarianaTekProvider.js';
+import './HealCodeWidgetProvider.js';
+
+export { providerRegistry } from './ProviderRegistry.js';
+export type { ProviderInstanceConfig } from './ProviderRegistry.js';
@@ -0,0 +1,120 @@
+import { Location } from '../models/FitnessClass.js';
+
+export interface KnownVenue {
+  id: string; // Stable venue ID, used as location.venueId
+  name: string;
+  address: string;
+  lat: number;
+  long: number;
+  timezone: string;
+  url?: string;
+  externalIds?: Record<string, string>; // Provider name to the provider's own ID for the venue
+}
+
+/**
+ * Venues whose details providers cannot scrape, shared so no provider class hard-codes them
+ * The VenueRegistry matches other providers' spellings of these studios to the same IDs
+ */
+export const KNOWN_VENUES: KnownVenue[] = [
+  {
+    id: 'equinox-west-georgia',
+    name: 'Equinox West Georgia',
+    address: '1131 West Georgia Street, Vancouver, BC V6E 2X5',
+    lat: 49.2826,
+    long: -123.1207,
+    timezone: 'America/Vancouver',
+    url: 'https://www.equinox.com/clubs/canada/vancouver/westgeorgiast',
+    externalIds: { equinox: '860' }
+  },
+  {
+    id: 'equinox-hudson-yards',
+    name: 'Equinox Hudson Yards',
+    address: '32 Hudson Yards, New York, NY 10001',
+    lat: 40.7538,
+    long: -74.0010,
+    timezone: 'America/New_York',
+    url: 'https://www.equinox.com/clubs/new-york/midtown/hudsonyards',
+    externalIds: { equinox: '138' }
+  },
+  {
+    id: 'equinox-columbus-circle',
+    name: 'Equinox Columbus Circle',
+    address: '10 Columbus Circle, New York, NY 10019',
+    lat: 40.7681,
+    long: -73.9819,
+    timezone: 'America/New_York',
+    url: 'https://www.equinox.com/clubs/new-york/uptown/columbuscircle',
+    externalIds: { equinox: '113' }
+  },
+  {
+    id: 'equinox-sports-club-la',
+    name: 'Equinox Sports Club LA',
+    address: '1835 Sepulveda Boulevard, Los Angeles, CA 90025',
+    lat: 34.0522,
+    long: -118.4437,
+    timezone: 'America/Los_Angeles',
+    url: 'https://www.equinox.com/clubs/southern-california/los-angeles/losangeles',
+    externalIds: { equinox: '713' }
+  },
+  {
+    id: 'equinox-sports-club-sf',
+    name: 'Equinox Sports Club SF',
+    address: '747 Market Street, San Francisco, CA 94103',
+    lat: 37.7861,
+    long: -122.4047,
+    timezone: 'America/Los_Angeles',
+    url: 'https://www.equinox.com/clubs/northern-california/sportsclubsanfrancisco',
+    externalIds: { equinox: '724' }
+  },
+  {
+    id: 'equinox-lincoln-park',
+    name: 'Equinox Lincoln Park',
+    address: '1750 North Clark Street, Chicago, IL 60614',
+    lat: 41.9139,
+    long: -87.6340,
+    timezone: 'America/Chicago',
+    url: 'https://www.equinox.com/clubs/chicago/lincolnpark',
+    externalIds: { equinox: '401' }
+  },
+  {
+    id: 'equinox-brickell',
+    name: 'Equinox Brickell',
+    address: '1441 Brickell Avenue, Miami, FL 33131',
+    lat: 25.7617,
+    long: -80.1918,
+    timezone: 'America/New_York',
+    url: 'https://www.equinox.com/clubs/florida/brickell',
+    externalIds: { equinox: '304' }
+  },
+  {
+    id: 'good-yoga-san-diego',
+    name: 'Good Yoga San Diego',
+    address: '4302 Cass St, San Diego, CA 92109',
+    lat: 32.7981,
+    long: -117.2522,
+    timezone: 'America/Los_Angeles',
+    url: 'https://goodyogasandiego.com/',
+    externalIds: { goodyoga: '212051' }
+  }
+];
+
+/**
+ * Look up a known venue by the ID a provider uses for it
+ */
+export function findKnownVenue(providerName: string, externalId: string | number): KnownVenue | undefined {
+  return KNOWN_VENUES.find(venue => venue.externalIds?.[providerName] === String(externalId));
+}
+
+/**
+ * Class location for a known venue, optionally under a more specific name such as a studio room
+ */
+export function knownVenueLocation(venue: KnownVenue, name: string = venue.name): Location {
+  return {
+    name,
+    address: venue.address,
+    lat: venue.lat,
+    long: venue.long,
+    timezone: venue.timezone,
+    venueId: venue.id
+  };
+}
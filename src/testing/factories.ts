@@ -0,0 +1,52 @@
+import { FitnessClass, ScrapeOptions, ScrapeResult } from '../models/FitnessClass.js';
+import { BaseProvider } from '../providers/BaseProvider.js';
+
+/**
+ * A valid upcoming class for tests; overrides replace whole fields
+ */
+export function makeClass(providerId: string = 'studio-1', overrides: Partial<FitnessClass> = {}): FitnessClass {
+  return {
+    name: 'Power Yoga',
+    description: 'Strong flow',
+    datetime: new Date('2030-03-04T15:00:00.000Z'),
+    location: { name: 'Studio', address: '1 Main St', lat: 49.28, long: -123.12 },
+    trainer: 'Maya Chen',
+    intensity: 7,
+    price: 25,
+    bookingUrl: `https://example.com/book/${providerId}`,
+    providerId,
+    providerName: 'studio',
+    capacity: 20,
+    tags: ['yoga'],
+    ...overrides
+  };
+}
+
+/**
+ * Provider that scrapes nothing, for driving BaseProvider's result handling with classes built in a test
+ */
+export class TestProvider extends BaseProvider {
+  readonly name = 'studio';
+
+  async scrapeClasses(): Promise<ScrapeResult> {
+    return this.createScrapeResult([]);
+  }
+
+  /**
+   * The scrape result for classes as a provider hands them over
+   */
+  result(classes: FitnessClass[]): ScrapeResult {
+    return this.createScrapeResult(classes);
+  }
+
+  /**
+   * The scrape result after date filtering and validation
+   */
+  finish(classes: FitnessClass[], options: ScrapeOptions = {}): ScrapeResult {
+    return this.createScrapeResult(this.filterAndValidate(classes, options));
+  }
+
+  duration(text: string): number | undefined {
+    return this.parseDuration(text);
+  }
+}
@@ -0,0 +1,52 @@
+import { createHash } from 'crypto';
+import { FitnessClass } from '../models/FitnessClass.js';
+
+/**
+ * Normalize a class name so cosmetic differences ("Power Yoga!", "power  yoga") compare equal
+ */
+export function normalizeClassName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Strip accents
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Deterministic key for a class instance whose provider has no native ID: venue, start time and normalized name
+ */
+export function createFallbackKey(venue: string, datetime: Date, name: string): string {
+  return [normalizeClassName(venue), datetime.toISOString(), normalizeClassName(name)].join('|');
+}
+
+/**
+ * Identity of a class within its provider: the native class-instance ID when known, otherwise the fallback key
+ * Native IDs survive renames and reschedules; fallback keys only survive cosmetic renames
+ */
+export function getClassIdentity(fitnessClass: FitnessClass): string {
+  return fitnessClass.nativeId
+    ? `id:${fitnessClass.nativeId}`
+    : `key:${createFallbackKey(fitnessClass.location.name, fitnessClass.datetime, fitnessClass.name)}`;
+}
+
+/**
+ * Identity of a class across providers, used to dedupe stored classes and uploads
+ */
+export function getClassKey(fitnessClass: FitnessClass): string {
+  return `${fitnessClass.providerName}:${getClassIdentity(fitnessClass)}`;
+}
+
+/**
+ * Hash of everything the backend is sent about a class, to tell whether its copy is current
+ * lastAvailabilityCheck is refreshed on every scrape, so it is left out; object keys are sorted so their order does not matter
+ */
+export function getClassFingerprint(fitnessClass: FitnessClass): string {
+  const { lastAvailabilityCheck, ...content } = fitnessClass;
+  const json = JSON.stringify(content, (_key, value) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.keys(value).sort().map(key => [key, value[key]]))
+      : value
+  );
+  return createHash('sha256').update(json).digest('hex');
+}
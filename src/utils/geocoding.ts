@@ -1,27 +1,205 @@
+import { existsSync, readFileSync } from 'fs';
 import { logger } from './logger.js';
 
 export interface GeocodeResult {
   lat: number;
   long: number;
   formattedAddress: string;
+  timezone?: string; // From the backend when it knows; never guessed from the coordinates
+  source?: string; // Name of the geocoder that resolved the address
 }
 
 /**
- * Geocode an address to latitude/longitude coordinates
- * Uses OpenStreetMap's Nominatim API (free, no API key required)
+ * A geocoding backend. geocode resolves null when the address is not found and throws when the lookup fails,
+ * so the chain can tell a miss (cached) from an outage (retried)
+ */
+export interface Geocoder {
+  readonly name: string;
+  readonly remote: boolean; // Remote results go through the geocode cache; offline lookups are cheap enough to repeat
+  geocode(address: string): Promise<GeocodeResult | null>;
+}
+
+/**
+ * Persistent store for geocoding results, keyed by normalized address
+ * A null result records an address the geocoder could not find (negative caching)
+ */
+export interface GeocodeCache {
+  getCachedGeocode(addressKey: string): { result: GeocodeResult | null } | undefined;
+  cacheGeocode(addressKey: string, address: string, result: GeocodeResult | null, expiresAt: Date): void;
+}
+
+export interface GeocodeCacheOptions {
+  expiry?: number; // How long found addresses stay cached, in ms
+  negativeExpiry?: number; // How long addresses that were not found stay cached, in ms
+}
+
+export interface GeocodeStats {
+  cacheHits: number; // Includes cached misses
+  cacheMisses: number;
+  lookups: number; // Requests made to remote geocoders
+  errors: number;
+  resolved: Record<string, number>; // Addresses resolved, by geocoder name
+  unresolved: number; // Addresses no geocoder could resolve
+}
+
+let geocoders: Geocoder[] | null = null; // Nominatim alone until setGeocoders is called
+let cache: GeocodeCache | null = null;
+let cacheOptions: Required<GeocodeCacheOptions> = { expiry: 86400000, negativeExpiry: 86400000 };
+const stats: GeocodeStats = { cacheHits: 0, cacheMisses: 0, lookups: 0, errors: 0, resolved: {}, unresolved: 0 };
+
+/**
+ * Check a cache before calling remote geocoders, or pass null to stop caching
+ */
+export function setGeocodeCache(geocodeCache: GeocodeCache | null, options: GeocodeCacheOptions = {}): void {
+  cache = geocodeCache;
+  const expiry = options.expiry ?? 86400000;
+  cacheOptions = { expiry, negativeExpiry: options.negativeExpiry ?? expiry };
+}
+
+/**
+ * Replace the geocoder chain; geocoders are tried in order until one resolves the address
+ */
+export function setGeocoders(chain: Geocoder[]): void {
+  geocoders = chain;
+}
+
+export function getGeocoders(): Geocoder[] {
+  if (!geocoders) {
+    geocoders = [new NominatimGeocoder()];
+  }
+  return [...geocoders];
+}
+
+/**
+ * Cache and lookup counts since the process started
+ */
+export function getGeocodeStats(): GeocodeStats {
+  return { ...stats, resolved: { ...stats.resolved } };
+}
+
+const addressAbbreviations: Record<string, string> = {
+  street: 'st',
+  avenue: 'ave',
+  boulevard: 'blvd',
+  road: 'rd',
+  drive: 'dr',
+  suite: 'ste',
+  north: 'n',
+  south: 's',
+  east: 'e',
+  west: 'w'
+};
+
+/**
+ * Cache key for an address: case, accents, punctuation, spacing and common street words normalized
+ */
+export function normalizeAddress(address: string): string {
+  return address
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .map(word => addressAbbreviations[word] ?? word)
+    .join(' ');
+}
+
+/**
+ * Geocode an address to latitude/longitude coordinates through the geocoder chain
+ * (Nominatim only, unless configured otherwise with setGeocoders)
+ * Resolves null when no geocoder finds the address or every lookup fails
+ */
+export async function geocodeAddress(address: string): Promise<GeocodeResult | null> {
+  return (await geocode(address)).result;
+}
+
+async function geocode(address: string): Promise<{ result: GeocodeResult | null; requested: boolean }> {
+  let requested = false;
+
+  for (const geocoder of getGeocoders()) {
+    let result: GeocodeResult | null;
+    if (geocoder.remote) {
+      const lookup = await geocodeRemote(geocoder, address);
+      requested = requested || lookup.requested;
+      result = lookup.result;
+    } else {
+      result = await geocodeOffline(geocoder, address);
+    }
+
+    if (result) {
+      stats.resolved[geocoder.name] = (stats.resolved[geocoder.name] ?? 0) + 1;
+      return { result: { ...result, source: result.source ?? geocoder.name }, requested };
+    }
+  }
+
+  stats.unresolved++;
+  logger.warn(`No geocoder could resolve address: ${address}`);
+  return { result: null, requested };
+}
+
+async function geocodeRemote(geocoder: Geocoder, address: string): Promise<{ result: GeocodeResult | null; requested: boolean }> {
+  const addressKey = normalizeAddress(address);
+
+  if (cache) {
+    const cached = cache.getCachedGeocode(addressKey);
+    if (cached) {
+      stats.cacheHits++;
+      return { result: cached.result, requested: false };
+    }
+    stats.cacheMisses++;
+  }
+
+  try {
+    stats.lookups++;
+    const result = await geocoder.geocode(address);
+
+    if (cache) {
+      const ttl = result ? cacheOptions.expiry : cacheOptions.negativeExpiry;
+      cache.cacheGeocode(addressKey, address, result, new Date(Date.now() + ttl));
+    }
+
+    return { result, requested: true };
+  } catch (error) {
+    // Failed requests are not cached, so the address is retried next time
+    stats.errors++;
+    logger.error(`${geocoder.name} geocoding error for address "${address}":`, error);
+    return { result: null, requested: true };
+  }
+}
+
+async function geocodeOffline(geocoder: Geocoder, address: string): Promise<GeocodeResult | null> {
+  try {
+    return await geocoder.geocode(address);
+  } catch (error) {
+    stats.errors++;
+    logger.error(`${geocoder.name} geocoding error for address "${address}":`, error);
+    return null;
+  }
+}
+
+/**
+ * OpenStreetMap's Nominatim API (free, no API key required, 1 request per second)
  *
  * Note: For production use, consider:
  * - Google Maps Geocoding API (requires API key)
  * - Mapbox Geocoding API (requires API key)
- * - Adding caching to avoid redundant API calls
  */
-export async function geocodeAddress(address: string): Promise<GeocodeResult | null> {
-  try {
+export class NominatimGeocoder implements Geocoder {
+  readonly name = 'nominatim';
+  readonly remote = true;
+  private baseUrl: string;
+
+  constructor(baseUrl: string = 'https://nominatim.openstreetmap.org') {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+  }
+
+  async geocode(address: string): Promise<GeocodeResult | null> {
     // Encode the address for URL
     const encodedAddress = encodeURIComponent(address);
 
     // Use Nominatim (OpenStreetMap) - respecting usage policy with user agent
-    const url = `https://nominatim.openstreetmap.org/search?format=json&q=${encodedAddress}&limit=1`;
+    const url = `${this.baseUrl}/search?format=json&q=${encodedAddress}&limit=1`;
 
     const response = await fetch(url, {
       headers: {
@@ -30,38 +208,225 @@ export async function geocodeAddress(address: string): Promise<GeocodeResult | n
     });
 
     if (!response.ok) {
-      logger.error(`Geocoding API error: ${response.status} ${response.statusText}`);
-      return null;
+      throw new Error(`Geocoding API error: ${response.status} ${response.statusText}`);
     }
 
     const data = await response.json();
 
     if (!Array.isArray(data) || data.length === 0) {
-      logger.warn(`No geocoding results found for address: ${address}`);
+      logger.debug(`No Nominatim results found for address: ${address}`);
       return null;
     }
 
     const result = data[0];
+    const lat = parseFloat(result.lat);
+    const long = parseFloat(result.lon);
     return {
-      lat: parseFloat(result.lat),
-      long: parseFloat(result.lon),
+      lat,
+      long,
       formattedAddress: result.display_name
     };
+  }
+}
 
-  } catch (error) {
-    logger.error(`Geocoding error for address "${address}":`, error);
-    return null;
+export interface KnownVenue {
+  lat: number;
+  long: number;
+  formattedAddress?: string;
+  timezone?: string;
+}
+
+/**
+ * Coordinates of known venues, keyed by address. Keys are matched after normalizeAddress,
+ * so "1 Main Street" also matches "1 main st."
+ */
+export class StaticGeocoder implements Geocoder {
+  readonly name = 'static';
+  readonly remote = false;
+  private venues = new Map<string, KnownVenue>();
+
+  constructor(venues: Record<string, KnownVenue>) {
+    for (const [address, venue] of Object.entries(venues)) {
+      if (!isValidCoordinate(venue.lat, venue.long)) {
+        throw new Error(`Invalid coordinates for known venue "${address}"`);
+      }
+      this.venues.set(normalizeAddress(address), venue);
+    }
+  }
+
+  /**
+   * Load a JSON file mapping addresses to { lat, long, formattedAddress?, timezone? }
+   */
+  static fromFile(path: string): StaticGeocoder {
+    return new StaticGeocoder(JSON.parse(readFileSync(path, 'utf-8')));
+  }
+
+  async geocode(address: string): Promise<GeocodeResult | null> {
+    const venue = this.venues.get(normalizeAddress(address));
+    if (!venue) {
+      return null;
+    }
+
+    return {
+      lat: venue.lat,
+      long: venue.long,
+      formattedAddress: venue.formattedAddress || address,
+      timezone: venue.timezone
+    };
   }
 }
 
+export interface GazetteerPlace {
+  name: string;
+  region?: string; // State, province or island, e.g. "NY" or "Bali"
+  country?: string;
+  aliases?: string[];
+  lat: number;
+  long: number;
+  timezone?: string;
+}
+
+// Cities the default provider configurations scrape, so a fresh checkout geocodes coarsely without a network
+const defaultGazetteer: GazetteerPlace[] = [
+  { name: 'New York', region: 'NY', country: 'US', aliases: ['New York City', 'NYC', 'Manhattan'], lat: 40.7128, long: -74.006, timezone: 'America/New_York' },
+  { name: 'Brooklyn', region: 'NY', country: 'US', lat: 40.6782, long: -73.9442, timezone: 'America/New_York' },
+  { name: 'Boston', region: 'MA', country: 'US', lat: 42.3601, long: -71.0589, timezone: 'America/New_York' },
+  { name: 'Washington', region: 'DC', country: 'US', lat: 38.9072, long: -77.0369, timezone: 'America/New_York' },
+  { name: 'Miami', region: 'FL', country: 'US', lat: 25.7617, long: -80.1918, timezone: 'America/New_York' },
+  { name: 'Atlanta', region: 'GA', country: 'US', lat: 33.749, long: -84.388, timezone: 'America/New_York' },
+  { name: 'Chicago', region: 'IL', country: 'US', lat: 41.8781, long: -87.6298, timezone: 'America/Chicago' },
+  { name: 'Dallas', region: 'TX', country: 'US', lat: 32.7767, long: -96.797, timezone: 'America/Chicago' },
+  { name: 'Houston', region: 'TX', country: 'US', lat: 29.7604, long: -95.3698, timezone: 'America/Chicago' },
+  { name: 'Austin', region: 'TX', country: 'US', lat: 30.2672, long: -97.7431, timezone: 'America/Chicago' },
+  { name: 'Denver', region: 'CO', country: 'US', lat: 39.7392, long: -104.9903, timezone: 'America/Denver' },
+  { name: 'Phoenix', region: 'AZ', country: 'US', lat: 33.4484, long: -112.074, timezone: 'America/Phoenix' },
+  { name: 'Los Angeles', region: 'CA', country: 'US', aliases: ['LA'], lat: 34.0522, long: -118.2437, timezone: 'America/Los_Angeles' },
+  { name: 'San Diego', region: 'CA', country: 'US', lat: 32.7157, long: -117.1611, timezone: 'America/Los_Angeles' },
+  { name: 'San Francisco', region: 'CA', country: 'US', aliases: ['SF'], lat: 37.7749, long: -122.4194, timezone: 'America/Los_Angeles' },
+  { name: 'Seattle', region: 'WA', country: 'US', lat: 47.6062, long: -122.3321, timezone: 'America/Los_Angeles' },
+  { name: 'Portland', region: 'OR', country: 'US', lat: 45.5152, long: -122.6784, timezone: 'America/Los_Angeles' },
+  { name: 'Vancouver', region: 'BC', country: 'CA', lat: 49.2827, long: -123.1207, timezone: 'America/Vancouver' },
+  { name: 'Toronto', region: 'ON', country: 'CA', lat: 43.6532, long: -79.3832, timezone: 'America/Toronto' },
+  { name: 'Montreal', region: 'QC', country: 'CA', lat: 45.5017, long: -73.5673, timezone: 'America/Toronto' },
+  { name: 'London', country: 'GB', lat: 51.5074, long: -0.1278, timezone: 'Europe/London' },
+  { name: 'Ubud', region: 'Bali', country: 'ID', lat: -8.5069, long: 115.2625, timezone: 'Asia/Makassar' },
+  { name: 'Canggu', region: 'Bali', country: 'ID', lat: -8.6478, long: 115.1385, timezone: 'Asia/Makassar' }
+];
+
+/**
+ * Offline place-name lookup that resolves an address to the center of the city it names
+ * Much coarser than a street address, so it belongs at the end of the chain
+ */
+export class GazetteerGeocoder implements Geocoder {
+  readonly name = 'gazetteer';
+  readonly remote = false;
+  private places: GazetteerPlace[];
+
+  constructor(places: GazetteerPlace[] = defaultGazetteer) {
+    this.places = places;
+  }
+
+  /**
+   * Load a JSON array of places, used in addition to the built-in ones
+   */
+  static fromFile(path: string): GazetteerGeocoder {
+    const places = JSON.parse(readFileSync(path, 'utf-8'));
+    if (!Array.isArray(places)) {
+      throw new Error(`Gazetteer file ${path} must contain an array of places`);
+    }
+    return new GazetteerGeocoder([...places, ...defaultGazetteer]);
+  }
+
+  async geocode(address: string): Promise<GeocodeResult | null> {
+    const key = ` ${normalizeAddress(address)} `;
+
+    // Prefer places whose region or country also appears ("Portland, OR" over "Portland, ME"),
+    // then the longest name ("West Hollywood" over "Hollywood")
+    let best: { place: GazetteerPlace; score: number } | null = null;
+    for (const place of this.places) {
+      const names = [place.name, ...(place.aliases || [])].map(name => normalizeAddress(name));
+      const matched = names.filter(name => name && key.includes(` ${name} `));
+      if (matched.length === 0) {
+        continue;
+      }
+
+      const context = [place.region, place.country]
+        .filter((part): part is string => Boolean(part))
+        .filter(part => key.includes(` ${normalizeAddress(part)} `)).length;
+      const score = context * 1000 + Math.max(...matched.map(name => name.length));
+      if (!best || score > best.score) {
+        best = { place, score };
+      }
+    }
+
+    if (!best) {
+      return null;
+    }
+
+    const { place } = best;
+    return {
+      lat: place.lat,
+      long: place.long,
+      formattedAddress: address,
+      timezone: place.timezone
+    };
+  }
+}
+
+export interface GeocoderChainOptions {
+  backends?: string[]; // Geocoder names in the order they are tried
+  staticFile?: string; // Known venue coordinates for the static geocoder
+  gazetteerFile?: string; // Extra places for the gazetteer geocoder
+  nominatimUrl?: string;
+}
+
+export const DEFAULT_GEOCODERS = ['static', 'nominatim', 'gazetteer'];
+
+/**
+ * Build the geocoder chain from the geocoding block of providers.json
+ * A static geocoder whose file does not exist is left out of the chain
+ */
+export function createGeocoders(options: GeocoderChainOptions = {}): Geocoder[] {
+  const chain: Geocoder[] = [];
+
+  for (const backend of options.backends ?? DEFAULT_GEOCODERS) {
+    switch (backend) {
+      case 'nominatim':
+        chain.push(new NominatimGeocoder(options.nominatimUrl));
+        break;
+      case 'static':
+        if (options.staticFile && existsSync(options.staticFile)) {
+          chain.push(StaticGeocoder.fromFile(options.staticFile));
+        } else {
+          logger.debug(`No known venue file at ${options.staticFile}, skipping static geocoder`);
+        }
+        break;
+      case 'gazetteer':
+        chain.push(options.gazetteerFile ? GazetteerGeocoder.fromFile(options.gazetteerFile) : new GazetteerGeocoder());
+        break;
+      default:
+        throw new Error(`Unknown geocoder "${backend}" (expected one of: ${DEFAULT_GEOCODERS.join(', ')})`);
+    }
+  }
+
+  return chain;
+}
+
+function isValidCoordinate(lat: unknown, long: unknown): boolean {
+  return typeof lat === 'number' && typeof long === 'number' &&
+    lat >= -90 && lat <= 90 && long >= -180 && long <= 180;
+}
+
 /**
  * Add delay between geocoding requests to respect API rate limits
- * Nominatim allows 1 request per second
+ * Nominatim allows 1 request per second; cache hits and offline lookups need no delay
  */
 export async function geocodeWithRateLimit(address: string): Promise<GeocodeResult | null> {
-  const result = await geocodeAddress(address);
-  // Wait 1 second before next request
-  await new Promise(resolve => setTimeout(resolve, 1000));
+  const { result, requested } = await geocode(address);
+  if (requested) {
+    // Wait 1 second before next request
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  }
   return result;
 }
 
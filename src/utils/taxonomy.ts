@@ -0,0 +1,238 @@
+import { ClassTaxonomy, FacetValue } from '../models/FitnessClass.js';
+import { normalizeClassName } from './classIdentity.js';
+
+export type TaxonomyFacet = 'modality' | 'style' | 'level' | 'equipment';
+
+interface TaxonomyTerm {
+  facet: TaxonomyFacet;
+  value: string;
+  words: string[]; // Whole words or phrases that name the term, after normalizeClassName
+  implies?: string; // Modality implied by a style or piece of equipment
+  intensity?: number; // Modality: typical intensity. Style: replaces the modality's. Level: used when no modality is known
+  intensityDelta?: number; // Style or level: added to the modality's intensity
+}
+
+/**
+ * The controlled vocabulary: every modality, style, level and piece of equipment a class can be tagged with
+ */
+const TERMS: TaxonomyTerm[] = [
+  // Modalities
+  { facet: 'modality', value: 'yoga', words: ['yoga'], intensity: 4 },
+  { facet: 'modality', value: 'pilates', words: ['pilates'], intensity: 5 },
+  { facet: 'modality', value: 'barre', words: ['barre'], intensity: 5 },
+  { facet: 'modality', value: 'cycling', words: ['cycling', 'cycle', 'spin', 'spinning', 'ride'], intensity: 7 },
+  { facet: 'modality', value: 'hiit', words: ['hiit', 'interval', 'intervals'], intensity: 8 },
+  { facet: 'modality', value: 'strength', words: ['strength', 'weights', 'weight training', 'lifting', 'lift'], intensity: 6 },
+  { facet: 'modality', value: 'cardio', words: ['cardio', 'conditioning'], intensity: 7 },
+  { facet: 'modality', value: 'boxing', words: ['boxing', 'box'], intensity: 8 },
+  { facet: 'modality', value: 'dance', words: ['dance', 'dancing'], intensity: 5 },
+  { facet: 'modality', value: 'running', words: ['run', 'running', 'tread'], intensity: 7 },
+  { facet: 'modality', value: 'rowing', words: ['row', 'rowing'], intensity: 7 },
+  { facet: 'modality', value: 'swimming', words: ['swim', 'swimming', 'aqua', 'aquatics', 'water aerobics'], intensity: 5 },
+  { facet: 'modality', value: 'martial-arts', words: ['martial arts', 'karate', 'jiu jitsu', 'muay thai', 'taekwondo'], intensity: 7 },
+  { facet: 'modality', value: 'stretching', words: ['stretch', 'stretching', 'mobility', 'flexibility'], intensity: 2 },
+  { facet: 'modality', value: 'meditation', words: ['meditation', 'breathwork', 'mindfulness'], intensity: 1 },
+
+  // Styles
+  { facet: 'style', value: 'vinyasa', words: ['vinyasa'], implies: 'yoga' },
+  { facet: 'style', value: 'hatha', words: ['hatha'], implies: 'yoga' },
+  { facet: 'style', value: 'ashtanga', words: ['ashtanga'], implies: 'yoga', intensityDelta: 1 },
+  { facet: 'style', value: 'kundalini', words: ['kundalini'], implies: 'yoga' },
+  { facet: 'style', value: 'yin', words: ['yin'], implies: 'yoga', intensity: 2 },
+  { facet: 'style', value: 'restorative', words: ['restorative', 'restore'], implies: 'yoga', intensity: 2 },
+  { facet: 'style', value: 'flow', words: ['flow'] },
+  { facet: 'style', value: 'hot', words: ['hot', 'heated', 'bikram'], intensityDelta: 1 },
+  { facet: 'style', value: 'power', words: ['power'], intensityDelta: 2 },
+  { facet: 'style', value: 'sculpt', words: ['sculpt', 'toning', 'tone'], implies: 'strength' },
+  { facet: 'style', value: 'core', words: ['core', 'abs', 'abdominals'], implies: 'strength' },
+  { facet: 'style', value: 'bootcamp', words: ['bootcamp', 'boot camp'], implies: 'hiit' },
+  { facet: 'style', value: 'circuit', words: ['circuit', 'circuits'], implies: 'hiit' },
+  { facet: 'style', value: 'tabata', words: ['tabata'], implies: 'hiit' },
+  { facet: 'style', value: 'crossfit', words: ['crossfit', 'wod'], implies: 'strength', intensity: 8 },
+  { facet: 'style', value: 'functional', words: ['functional'], implies: 'strength' },
+  { facet: 'style', value: 'kickboxing', words: ['kickboxing', 'kickbox'], implies: 'boxing' },
+  { facet: 'style', value: 'zumba', words: ['zumba'], implies: 'dance', intensity: 6 },
+  { facet: 'style', value: 'recovery', words: ['recovery', 'recover'], implies: 'stretching' },
+
+  // Levels
+  { facet: 'level', value: 'beginner', words: ['beginner', 'beginners', 'intro', 'introduction', 'foundations', 'basics', 'level 1', 'gentle', 'low'], intensity: 3, intensityDelta: -2 },
+  { facet: 'level', value: 'all-levels', words: ['all levels', 'all level', 'open level', 'mixed level', 'mixed levels'], intensity: 4, intensityDelta: -1 },
+  { facet: 'level', value: 'intermediate', words: ['intermediate', 'level 2', 'moderate', 'medium'], intensity: 5, intensityDelta: 0 },
+  { facet: 'level', value: 'advanced', words: ['advanced', 'level 3', 'expert', 'intense', 'high'], intensity: 8, intensityDelta: 1 },
+
+  // Equipment
+  { facet: 'equipment', value: 'bike', words: ['bike', 'bikes'], implies: 'cycling' },
+  { facet: 'equipment', value: 'treadmill', words: ['treadmill', 'treadmills'], implies: 'running' },
+  { facet: 'equipment', value: 'rower', words: ['rower', 'rowers', 'erg'], implies: 'rowing' },
+  { facet: 'equipment', value: 'reformer', words: ['reformer', 'reformers'], implies: 'pilates' },
+  { facet: 'equipment', value: 'kettlebell', words: ['kettlebell', 'kettlebells'] },
+  { facet: 'equipment', value: 'dumbbell', words: ['dumbbell', 'dumbbells', 'free weights'] },
+  { facet: 'equipment', value: 'barbell', words: ['barbell', 'barbells'] },
+  { facet: 'equipment', value: 'trx', words: ['trx', 'suspension'] },
+  { facet: 'equipment', value: 'bands', words: ['band', 'bands', 'resistance band', 'resistance bands'] },
+  { facet: 'equipment', value: 'pool', words: ['pool'], implies: 'swimming' }
+];
+
+const TERMS_BY_VALUE = new Map(TERMS.map(term => [term.value, term]));
+
+/**
+ * Native category names mapped to vocabulary terms, per provider type
+ * Keys are compared after normalizeClassName
+ */
+export const PROVIDER_CATEGORIES: Record<string, Record<string, string[]>> = {
+  // Equinox primaryCategory.name
+  equinox: {
+    'cardio': ['cardio'],
+    'conditioning': ['cardio'],
+    'athletic training': ['strength', 'functional'],
+    'strength': ['strength'],
+    'cycling': ['cycling', 'bike'],
+    'running': ['running', 'treadmill'],
+    'yoga': ['yoga'],
+    'pure yoga': ['yoga'],
+    'pilates': ['pilates'],
+    'barre': ['barre'],
+    'dance': ['dance'],
+    'boxing': ['boxing'],
+    'mind body': ['yoga', 'stretching'],
+    'recovery': ['stretching', 'recovery'],
+    'aquatics': ['swimming', 'pool']
+  },
+  // Mariana Tek class_type.name; tenants map their own class types with the categoryMap config
+  marianatek: {
+    'hot power flow': ['yoga', 'hot', 'power', 'flow'],
+    'hot flow': ['yoga', 'hot', 'flow'],
+    'power flow': ['yoga', 'power', 'flow'],
+    'slow flow': ['yoga', 'flow'],
+    'yin': ['yoga', 'yin'],
+    'hot yin': ['yoga', 'yin', 'hot'],
+    'hatha': ['yoga', 'hatha'],
+    'hot hatha': ['yoga', 'hatha', 'hot'],
+    'sculpt': ['strength', 'sculpt'],
+    'hot sculpt': ['strength', 'sculpt', 'hot'],
+    'reformer': ['pilates', 'reformer'],
+    'ride': ['cycling', 'bike'],
+    'rhythm ride': ['cycling', 'bike', 'dance'],
+    'hiit': ['hiit'],
+    'barre': ['barre'],
+    'meditation': ['meditation']
+  }
+};
+
+export interface ClassificationInput {
+  name: string;
+  description?: string;
+  categories?: string[]; // The provider's own labels for the class: category, class type, level
+  categorySource?: string; // Key into PROVIDER_CATEGORIES for the categories
+  categoryMap?: Record<string, string[]>; // Extra category mappings, e.g. from provider config
+}
+
+export interface Classification {
+  taxonomy: ClassTaxonomy;
+  intensity: number; // 1-10
+}
+
+// Confidence of a term by where it was found
+const CONFIDENCE = { mapped: 1, name: 0.9, category: 0.8, description: 0.5, implied: 0.7 };
+
+/**
+ * Classify a class into the controlled vocabulary
+ *
+ * Terms match whole words only, so "core" does not match "CorePower" and "abs" does not match "labs".
+ * A category the provider maps explicitly is trusted most, then the class name, then unmapped
+ * category labels, then the description. Styles and equipment imply their modality.
+ */
+export function classifyClass(input: ClassificationInput): Classification {
+  const found = new Map<string, number>();
+  const add = (value: string, confidence: number) => {
+    if (TERMS_BY_VALUE.has(value) && confidence > (found.get(value) ?? 0)) {
+      found.set(value, confidence);
+    }
+  };
+
+  const categoryMap = { ...PROVIDER_CATEGORIES[input.categorySource ?? ''], ...normalizeKeys(input.categoryMap) };
+  for (const category of input.categories ?? []) {
+    const mapped = categoryMap[normalizeClassName(category)];
+    if (mapped) {
+      mapped.forEach(value => add(value, CONFIDENCE.mapped));
+    } else {
+      matchTerms(category).forEach(term => add(term.value, CONFIDENCE.category));
+    }
+  }
+  matchTerms(input.name).forEach(term => add(term.value, CONFIDENCE.name));
+  matchTerms(input.description ?? '').forEach(term => add(term.value, CONFIDENCE.description));
+
+  for (const [value, confidence] of Array.from(found)) {
+    const implied = TERMS_BY_VALUE.get(value)!.implies;
+    if (implied) {
+      add(implied, Math.min(confidence, CONFIDENCE.implied));
+    }
+  }
+
+  const facet = (name: TaxonomyFacet): FacetValue[] => Array.from(found)
+    .filter(([value]) => TERMS_BY_VALUE.get(value)!.facet === name)
+    .map(([value, confidence]) => ({ value, confidence }))
+    .sort((a, b) => b.confidence - a.confidence);
+
+  const taxonomy: ClassTaxonomy = {
+    modality: facet('modality'),
+    style: facet('style'),
+    level: facet('level')[0],
+    equipment: facet('equipment'),
+    intensityConfidence: 0
+  };
+  const { intensity, confidence } = estimateIntensity(taxonomy);
+  taxonomy.intensityConfidence = confidence;
+  return { taxonomy, intensity };
+}
+
+/**
+ * Flat tag list from a classification: modalities, styles, level and equipment above the confidence threshold
+ */
+export function taxonomyTags(taxonomy: ClassTaxonomy, minConfidence: number = 0.5): string[] {
+  const values = [...taxonomy.modality, ...taxonomy.style, ...(taxonomy.level ? [taxonomy.level] : []), ...taxonomy.equipment];
+  return values.filter(v => v.confidence >= minConfidence).map(v => v.value);
+}
+
+/**
+ * Intensity 1-10: the main modality's, replaced by a style's own intensity (yin, crossfit),
+ * adjusted by style and level. Without a modality the level alone decides; with nothing known it is 5
+ */
+function estimateIntensity(taxonomy: ClassTaxonomy): { intensity: number; confidence: number } {
+  const term = (v: FacetValue) => TERMS_BY_VALUE.get(v.value)!;
+  const { level } = taxonomy;
+
+  const modalities = taxonomy.modality.filter(v => term(v).intensity !== undefined);
+  if (modalities.length === 0) {
+    return level
+      ? { intensity: term(level).intensity!, confidence: level.confidence / 2 }
+      : { intensity: 5, confidence: 0.2 };
+  }
+
+  // The most confident modality, then the most intense: a description mentioning intervals does not make a run a HIIT class
+  const strongest = modalities.reduce((a, b) =>
+    b.confidence > a.confidence || (b.confidence === a.confidence && term(b).intensity! > term(a).intensity!) ? b : a);
+  const override = taxonomy.style.find(v => term(v).intensity !== undefined);
+  let intensity = term(override ?? strongest).intensity!;
+
+  for (const value of [...taxonomy.style, ...(level ? [level] : [])]) {
+    intensity += term(value).intensityDelta ?? 0;
+  }
+
+  return {
+    intensity: Math.min(10, Math.max(1, intensity)),
+    confidence: (override ?? strongest).confidence
+  };
+}
+
+/**
+ * Vocabulary terms named in a text, matched on whole words
+ */
+function matchTerms(text: string): TaxonomyTerm[] {
+  const padded = ` ${normalizeClassName(text)} `;
+  return TERMS.filter(term => term.words.some(word => padded.includes(` ${word} `)));
+}
+
+function normalizeKeys(map: Record<string, string[]> = {}): Record<string, string[]> {
+  return Object.fromEntries(Object.entries(map).map(([key, values]) => [normalizeClassName(key), values]));
+}
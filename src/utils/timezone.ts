@@ -0,0 +1,138 @@
+/**
+ * Timezone helpers built on Intl, so class times are read in the venue's zone
+ * rather than the zone of the machine running the scraper
+ */
+
+interface WallClock {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getWallClock(date: Date, timeZone: string): WallClock {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour % 24,
+    minute: parts.minute,
+    second: parts.second
+  };
+}
+
+/**
+ * Check that a string is an IANA timezone the runtime knows, e.g. "America/Vancouver"
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Offset of a timezone from UTC at an instant, in minutes (e.g. -480 for Vancouver in winter)
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const wall = getWallClock(date, timeZone);
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * The UTC instant at which a timezone's clocks show the given wall-clock time
+ * Times skipped by a DST jump resolve to the instant after the jump
+ */
+export function zonedTimeToUtc(wall: WallClock, timeZone: string): Date {
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  const firstOffset = getTimeZoneOffset(new Date(asUtc), timeZone);
+  let result = asUtc - firstOffset * 60000;
+
+  // The offset at the guess can differ from the offset at the answer around DST changes.
+  // Inside a DST gap neither offset reproduces the wall clock, and the first one lands after the jump
+  const secondOffset = getTimeZoneOffset(new Date(result), timeZone);
+  if (secondOffset !== firstOffset) {
+    const adjusted = asUtc - secondOffset * 60000;
+    if (getTimeZoneOffset(new Date(adjusted), timeZone) === secondOffset) {
+      result = adjusted;
+    }
+  }
+
+  return new Date(result);
+}
+
+/**
+ * Wall-clock time of an instant in a timezone, formatted as YYYY-MM-DDTHH:mm:ss
+ */
+export function formatLocalDateTime(date: Date, timeZone: string): string {
+  const wall = getWallClock(date, timeZone);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${wall.year}-${pad(wall.month)}-${pad(wall.day)}T${pad(wall.hour)}:${pad(wall.minute)}:${pad(wall.second)}`;
+}
+
+/**
+ * Whether a date string pins its own offset ("...Z", "...-08:00", "... GMT+1"), making the timezone irrelevant
+ */
+export function hasExplicitOffset(text: string): boolean {
+  return /(?:Z|[+-]\d{2}:?\d{2}|\b(?:GMT|UTC)(?:[+-]\d{1,4})?)$/i.test(text.trim());
+}
+
+/**
+ * Re-read a Date parsed in the machine's timezone as the same wall-clock time in another timezone
+ */
+export function reinterpretInTimeZone(date: Date, timeZone: string): Date {
+  return zonedTimeToUtc({
+    year: date.getFullYear(),
+    month: date.getMonth() + 1,
+    day: date.getDate(),
+    hour: date.getHours(),
+    minute: date.getMinutes(),
+    second: date.getSeconds()
+  }, timeZone);
+}
+
+/**
+ * Parse a date string as wall-clock time in a timezone; strings with an explicit offset keep it
+ */
+export function parseInTimeZone(text: string, timeZone: string): Date | null {
+  const trimmed = text.trim();
+  if (hasExplicitOffset(trimmed)) {
+    const date = new Date(trimmed);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  // Date-only ISO strings would otherwise parse as UTC midnight
+  const local = new Date(/^\d{4}-\d{2}-\d{2}$/.test(trimmed) ? `${trimmed}T00:00:00` : trimmed);
+  return isNaN(local.getTime()) ? null : reinterpretInTimeZone(local, timeZone);
+}
@@ -1,121 +1,252 @@
-import { FitnessClass } from '../models/FitnessClass.js';
+import { FitnessClass, ValidationError } from '../models/FitnessClass.js';
+import { isValidTimeZone } from './timezone.js';
+import { classifyClass, taxonomyTags } from './taxonomy.js';
 
-export function validateFitnessClass(classData: any): classData is FitnessClass {
-  if (!classData || typeof classData !== 'object') {
-    return false;
-  }
+type Rule =
+  | { type: 'string'; optional?: boolean; nonEmpty?: boolean; url?: boolean }
+  | { type: 'number'; optional?: boolean; min?: number; max?: number; integer?: boolean }
+  | { type: 'boolean'; optional?: boolean }
+  | { type: 'date'; optional?: boolean }
+  | { type: 'enum'; optional?: boolean; values: string[] }
+  | { type: 'array'; optional?: boolean; items: Rule }
+  | { type: 'object'; optional?: boolean; fields: Record<string, Rule> };
 
-  // Required string fields
-  const requiredStrings = ['name', 'description', 'trainer', 'bookingUrl', 'providerId', 'providerName'];
-  for (const field of requiredStrings) {
-    if (typeof classData[field] !== 'string' || !classData[field]) {
-      return false;
+const url: Rule = { type: 'string', url: true };
+
+/**
+ * Shape of a valid FitnessClass; rules that span several fields are in CROSS_FIELD_CHECKS
+ */
+const FITNESS_CLASS_SCHEMA: Record<string, Rule> = {
+  name: { type: 'string', nonEmpty: true },
+  description: { type: 'string', nonEmpty: true },
+  datetime: { type: 'date' },
+  endDatetime: { type: 'date', optional: true },
+  durationMinutes: { type: 'number', optional: true, min: 1, max: 24 * 60 },
+  localDatetime: { type: 'string', optional: true },
+  floatingTime: { type: 'boolean', optional: true },
+  location: {
+    type: 'object',
+    fields: {
+      name: { type: 'string' },
+      address: { type: 'string' },
+      lat: { type: 'number', min: -90, max: 90 },
+      long: { type: 'number', min: -180, max: 180 },
+      timezone: { type: 'string', optional: true },
+      unresolved: { type: 'boolean', optional: true },
+      venueId: { type: 'string', optional: true }
     }
-  }
+  },
+  trainer: { type: 'string', nonEmpty: true },
+  intensity: { type: 'number', min: 1, max: 10 },
+  price: { type: 'number', min: 0 },
+  bookingUrl: { type: 'string', nonEmpty: true },
+  providerId: { type: 'string', nonEmpty: true },
+  providerName: { type: 'string', nonEmpty: true },
+  nativeId: { type: 'string', optional: true },
+  capacity: { type: 'number', min: 0 },
+  tags: { type: 'array', items: { type: 'string' } },
 
-  // Validate datetime
-  if (!(classData.datetime instanceof Date) && typeof classData.datetime !== 'string') {
-    return false;
+  // Enhanced fields
+  photos: { type: 'array', optional: true, items: url },
+  trainerInfo: {
+    type: 'object',
+    optional: true,
+    fields: {
+      name: { type: 'string', nonEmpty: true },
+      bio: { type: 'string', optional: true },
+      certifications: { type: 'array', optional: true, items: { type: 'string' } },
+      yearsExperience: { type: 'number', optional: true, min: 0 },
+      photoUrl: { ...url, optional: true },
+      socialLinks: {
+        type: 'object',
+        optional: true,
+        fields: {
+          instagram: { ...url, optional: true },
+          twitter: { ...url, optional: true },
+          facebook: { ...url, optional: true },
+          website: { ...url, optional: true }
+        }
+      }
+    }
+  },
+  amenities: {
+    type: 'array',
+    optional: true,
+    items: {
+      type: 'object',
+      fields: {
+        type: { type: 'string', nonEmpty: true },
+        available: { type: 'boolean' },
+        description: { type: 'string', optional: true }
+      }
+    }
+  },
+  realTimeAvailability: { type: 'number', optional: true, min: 0, integer: true },
+  bookingStatus: { type: 'enum', optional: true, values: ['open', 'closed', 'full', 'waitlist'] },
+  lastAvailabilityCheck: { type: 'date', optional: true },
+  pricingDetails: {
+    type: 'object',
+    optional: true,
+    fields: {
+      dropIn: { type: 'number', optional: true, min: 0 },
+      packages: {
+        type: 'array',
+        optional: true,
+        items: {
+          type: 'object',
+          fields: {
+            name: { type: 'string', nonEmpty: true },
+            price: { type: 'number', min: 0 },
+            classes: { type: 'number', min: 1, integer: true }
+          }
+        }
+      },
+      introOffer: {
+        type: 'object',
+        optional: true,
+        fields: {
+          description: { type: 'string' },
+          price: { type: 'number', min: 0 }
+        }
+      },
+      membership: {
+        type: 'object',
+        optional: true,
+        fields: {
+          monthly: { type: 'number', min: 0 },
+          description: { type: 'string', optional: true }
+        }
+      }
+    }
+  },
+  reviews: {
+    type: 'array',
+    optional: true,
+    items: {
+      type: 'object',
+      fields: {
+        rating: { type: 'number', min: 1, max: 5 },
+        text: { type: 'string', optional: true },
+        date: { type: 'date' },
+        reviewerName: { type: 'string', optional: true }
+      }
+    }
   }
+};
 
-  // Validate location
-  if (!classData.location || typeof classData.location !== 'object') {
-    return false;
-  }
-  const { name, address, lat, long } = classData.location;
-  if (typeof name !== 'string' || typeof address !== 'string') {
-    return false;
-  }
-  if (typeof lat !== 'number' || typeof long !== 'number') {
-    return false;
-  }
-  if (lat < -90 || lat > 90 || long < -180 || long > 180) {
-    return false;
-  }
+/**
+ * Rules that compare fields; each runs only when the fields it reads passed the schema
+ */
+const CROSS_FIELD_CHECKS: Array<{ path: string; needs: string[]; check: (c: any) => string | undefined }> = [
+  {
+    path: 'endDatetime',
+    needs: ['datetime', 'endDatetime'],
+    check: c => c.endDatetime === undefined || new Date(c.endDatetime).getTime() > new Date(c.datetime).getTime()
+      ? undefined
+      : 'must be after datetime'
+  },
+  {
+    // 0,0 is where failed geocoding used to put venues; a venue that could not be placed must say so
+    path: 'location',
+    needs: ['location.lat', 'location.long', 'location.unresolved'],
+    check: c => c.location.lat === 0 && c.location.long === 0 && c.location.unresolved !== true
+      ? 'is at 0,0 but not flagged unresolved'
+      : undefined
+  },
+  {
+    path: 'location.timezone',
+    needs: ['location.timezone'],
+    check: c => c.location.timezone === undefined || isValidTimeZone(c.location.timezone)
+      ? undefined
+      : `"${c.location.timezone}" is not an IANA timezone`
+  }
+];
 
-  // Validate intensity (1-10)
-  if (typeof classData.intensity !== 'number' || classData.intensity < 1 || classData.intensity > 10) {
-    return false;
+/**
+ * Every reason a scraped class is invalid, with the path of the field at fault
+ */
+export function getValidationErrors(classData: any): ValidationError[] {
+  if (!classData || typeof classData !== 'object') {
+    return [{ path: '', message: 'must be an object' }];
   }
 
-  // Validate price
-  if (typeof classData.price !== 'number' || classData.price < 0) {
-    return false;
+  const errors = checkFields(classData, FITNESS_CLASS_SCHEMA, '');
+  for (const { path, needs, check } of CROSS_FIELD_CHECKS) {
+    if (errors.some(e => needs.some(field => e.path === field || field.startsWith(`${e.path}.`)))) {
+      continue;
+    }
+    const message = check(classData);
+    if (message) {
+      errors.push({ path, message });
+    }
   }
+  return errors;
+}
 
-  // Validate capacity
-  if (typeof classData.capacity !== 'number' || classData.capacity < 0) {
-    return false;
-  }
+export function validateFitnessClass(classData: any): classData is FitnessClass {
+  return getValidationErrors(classData).length === 0;
+}
 
-  // Validate tags
-  if (!Array.isArray(classData.tags)) {
-    return false;
-  }
-  if (!classData.tags.every((tag: any) => typeof tag === 'string')) {
-    return false;
+/**
+ * One line per error, e.g. "location.lat: must be at most 90"
+ */
+export function formatValidationErrors(errors: ValidationError[]): string {
+  return errors.map(e => e.path ? `${e.path}: ${e.message}` : e.message).join('; ');
+}
+
+function checkFields(value: any, fields: Record<string, Rule>, prefix: string): ValidationError[] {
+  return Object.entries(fields).flatMap(([field, rule]) => checkRule(value[field], rule, prefix ? `${prefix}.${field}` : field));
+}
+
+function checkRule(value: any, rule: Rule, path: string): ValidationError[] {
+  const fail = (message: string) => [{ path, message }];
+
+  if (value === undefined || value === null) {
+    return rule.optional && value === undefined ? [] : fail('is required');
   }
 
-  return true;
+  switch (rule.type) {
+    case 'string':
+      if (typeof value !== 'string') return fail('must be a string');
+      if (rule.nonEmpty && !value) return fail('must not be empty');
+      if (rule.url && !/^https?:\/\/\S+$/.test(value)) return fail(`"${value}" is not an http(s) URL`);
+      return [];
+    case 'number':
+      if (typeof value !== 'number' || isNaN(value)) return fail('must be a number');
+      if (rule.integer && !Number.isInteger(value)) return fail('must be a whole number');
+      if (rule.min !== undefined && value < rule.min) return fail(`must be at least ${rule.min}, got ${value}`);
+      if (rule.max !== undefined && value > rule.max) return fail(`must be at most ${rule.max}, got ${value}`);
+      return [];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : fail('must be a boolean');
+    case 'date':
+      if (!(value instanceof Date) && typeof value !== 'string') return fail('must be a date');
+      return isNaN(new Date(value).getTime()) ? fail('is not a valid date') : [];
+    case 'enum':
+      return rule.values.includes(value) ? [] : fail(`must be one of ${rule.values.join(', ')}`);
+    case 'array':
+      if (!Array.isArray(value)) return fail('must be an array');
+      return value.flatMap((item, index) => checkRule(item, rule.items, `${path}[${index}]`));
+    case 'object':
+      if (typeof value !== 'object' || Array.isArray(value)) return fail('must be an object');
+      return checkFields(value, rule.fields, path);
+  }
 }
 
 export function sanitizeString(str: string): string {
   return str.trim().replace(/\s+/g, ' ');
 }
 
+/**
+ * Intensity 1-10 from text such as a class level ("Advanced") or name, via the taxonomy
+ */
 export function parseIntensity(text: string): number {
-  // Try to parse intensity from text like "High", "Medium", "Low"
-  const lowerText = text.toLowerCase();
-  if (lowerText.includes('high') || lowerText.includes('intense') || lowerText.includes('advanced')) {
-    return 8;
-  }
-  if (lowerText.includes('medium') || lowerText.includes('moderate') || lowerText.includes('intermediate')) {
-    return 5;
-  }
-  if (lowerText.includes('low') || lowerText.includes('beginner') || lowerText.includes('gentle')) {
-    return 3;
-  }
-  // Default medium intensity
-  return 5;
+  return classifyClass({ name: text }).intensity;
 }
 
+/**
+ * Taxonomy terms named in a text, matched on whole words
+ */
 export function parseTags(text: string): string[] {
-  const tags: string[] = [];
-  const lowerText = text.toLowerCase();
-
-  // Common class types
-  const tagMap: Record<string, string> = {
-    'yoga': 'yoga',
-    'pilates': 'pilates',
-    'spin': 'spin',
-    'cycling': 'cycling',
-    'hiit': 'hiit',
-    'circuit': 'circuit',
-    'strength': 'strength',
-    'weights': 'weights',
-    'cardio': 'cardio',
-    'boxing': 'boxing',
-    'kickboxing': 'kickboxing',
-    'barre': 'barre',
-    'dance': 'dance',
-    'zumba': 'zumba',
-    'bootcamp': 'bootcamp',
-    'crossfit': 'crossfit',
-    'martial arts': 'martial-arts',
-    'swimming': 'swimming',
-    'aqua': 'aqua',
-    'stretching': 'stretching',
-    'core': 'core',
-    'abs': 'abs',
-    'running': 'running',
-    'rowing': 'rowing'
-  };
-
-  for (const [keyword, tag] of Object.entries(tagMap)) {
-    if (lowerText.includes(keyword)) {
-      tags.push(tag);
-    }
-  }
-
-  return Array.from(new Set(tags)); // Remove duplicates
+  return taxonomyTags(classifyClass({ name: text }).taxonomy);
 }